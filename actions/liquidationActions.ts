@@ -0,0 +1,122 @@
+import { action } from "@daydreamsai/core";
+import { z } from "zod";
+import type { PositionMemory } from "../types/memory.js";
+import { resolveChainIds, UnsupportedChainError } from "../utils/chains.js";
+import { NETWORKS } from "../utils/config.js";
+import { getLiquidationProtocolIds, scanLiquidationHistory, summarizeLiquidations } from "../utils/liquidations.js";
+
+const formatUsd = (value: number) => `$${value.toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+
+/**
+ * Action to report whether the wallet has been liquidated and what it cost
+ * Scans Aave LiquidationCall and Curve Liquidate logs and stores the result in the wallet's context
+ */
+export const getLiquidationHistoryAction = action({
+    name: "getLiquidationHistory",
+    description: "Answers whether the configured wallet has ever been liquidated and what it cost. Scans Aave V3 LiquidationCall and Curve Liquidate logs for the wallet and returns each liquidation with the collateral seized, debt covered, liquidation bonus paid in USD and the liquidator address, plus totals. Results are stored in the wallet's context; later calls only scan new blocks. Optionally pass fromBlock / toBlock to scan a specific range (the first scan reaches back a limited number of blocks), chains, protocols (aave-v3, curve) and limit for the number of liquidations returned.",
+    schema: z.object({
+        fromBlock: z.number().int().nonnegative().optional(),
+        toBlock: z.number().int().nonnegative().optional(),
+        chains: z.array(z.union([z.string(), z.number()])).optional(),
+        protocols: z.array(z.string()).optional(),
+        limit: z.number().int().positive().optional(),
+    }),
+    async handler(call, ctx) {
+        console.log("[getLiquidationHistory] Action called");
+
+        if (!ctx || !ctx.agentMemory) {
+            console.error("[getLiquidationHistory] ERROR: Context or agentMemory is undefined");
+            return {
+                success: false,
+                error: "Context not available. Please ensure the liquidation-monitor context is activated.",
+            };
+        }
+
+        const agentMemory = ctx.agentMemory as PositionMemory;
+        if (!agentMemory.wallet) {
+            return {
+                success: false,
+                error: "Wallet not configured. Use initializeMonitoring first.",
+            };
+        }
+
+        const fromBlock = (call as any).fromBlock ?? (call as any).data?.fromBlock;
+        const toBlock = (call as any).toBlock ?? (call as any).data?.toBlock;
+        const chains = (call as any).chains || (call as any).data?.chains;
+        const protocols = (call as any).protocols || (call as any).data?.protocols;
+        const limit = (call as any).limit || (call as any).data?.limit || 20;
+
+        if (fromBlock !== undefined && toBlock !== undefined && fromBlock > toBlock) {
+            return { success: false, error: `fromBlock ${fromBlock} is after toBlock ${toBlock}` };
+        }
+
+        const supportedProtocols = getLiquidationProtocolIds();
+        const protocolIds: string[] = protocols && protocols.length > 0
+            ? protocols
+            : agentMemory.protocolIds.filter((protocolId) => supportedProtocols.includes(protocolId));
+        const unsupported = protocolIds.filter((protocolId) => !supportedProtocols.includes(protocolId));
+        if (unsupported.length > 0 || protocolIds.length === 0) {
+            return {
+                success: false,
+                error: unsupported.length > 0
+                    ? `Liquidation history isn't available for: ${unsupported.join(", ")}`
+                    : "None of the configured protocols has liquidation history; pass protocols explicitly",
+                supportedProtocols,
+            };
+        }
+
+        let chainIds: number[];
+        try {
+            chainIds = chains && chains.length > 0
+                ? resolveChainIds(chains)
+                : agentMemory.chainIds || [NETWORKS.MAINNET.chainId];
+        } catch (error) {
+            if (error instanceof UnsupportedChainError) {
+                console.error("[getLiquidationHistory] ERROR:", error.message);
+                return {
+                    success: false,
+                    error: error.message,
+                    supportedChains: error.supportedChains,
+                };
+            }
+            throw error;
+        }
+
+        const scans = await scanLiquidationHistory(agentMemory, {
+            protocolIds,
+            chainIds,
+            ...(fromBlock !== undefined && { fromBlock: BigInt(fromBlock) }),
+            ...(toBlock !== undefined && { toBlock: BigInt(toBlock) }),
+        });
+        agentMemory.lastUpdated = Date.now();
+
+        const summary = summarizeLiquidations(agentMemory.liquidationHistory);
+        const liquidations = (agentMemory.liquidationHistory?.events ?? [])
+            .filter((event) => protocolIds.includes(event.protocolId) && chainIds.includes(event.chainId))
+            .slice(-limit)
+            .reverse()
+            .map((event) => ({
+                ...event,
+                date: event.timestamp !== null ? new Date(event.timestamp).toISOString() : null,
+            }));
+
+        const failed = scans.filter((scan) => scan.error);
+        const partial = scans.filter((scan) => !scan.error && !scan.coversFullHistory);
+
+        return {
+            success: failed.length < scans.length,
+            wallet: agentMemory.wallet,
+            summary,
+            liquidations,
+            scans,
+            message: [
+                summary.count === 0
+                    ? `No liquidations found for ${agentMemory.wallet} in the scanned blocks`
+                    : `${summary.count} liquidation(s) for ${agentMemory.wallet}: ${formatUsd(summary.debtCoveredUsd)} of debt covered, ${formatUsd(summary.bonusPaidUsd)} paid in liquidation bonuses`,
+                ...(summary.unpriced > 0 ? [`${summary.unpriced} liquidation(s) couldn't be priced and are left out of the totals`] : []),
+                ...(partial.length > 0 ? [`Not scanned back to deployment: ${partial.map((scan) => `${scan.protocolId} on chain ${scan.chainId} (from block ${scan.fromBlock})`).join(", ")}; pass an earlier fromBlock to extend`] : []),
+                ...(failed.length > 0 ? [`Scan failed for ${failed.map((scan) => `${scan.protocolId} on chain ${scan.chainId}: ${scan.error}`).join("; ")}`] : []),
+            ].join(". "),
+        };
+    },
+});
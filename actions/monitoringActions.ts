@@ -1,10 +1,14 @@
 import { action } from "@daydreamsai/core";
 import { z } from "zod";
 import type { PositionMemory } from "../types/memory.js";
+import { getSupportedProtocolIds, UnsupportedProtocolError, validateProtocolIds } from "../utils/protocols.js";
+import { NETWORKS } from "../utils/config.js";
+import { createMonitoringState, createPositionMemory } from "../utils/memory.js";
+import { describeSupportedChains, resolveChainIds, UnsupportedChainError } from "../utils/chains.js";
 
 export const initializeMonitoringAction = action({
     name: "initializeMonitoring",
-    description: "Sets up liquidation monitoring for a wallet address and specifies which lending protocols to check. ALWAYS call this FIRST when a user mentions a wallet address (0x... format). Pass the wallet address directly from the user's message. If protocols aren't specified, use 'aave-v3' as default. Required: wallet address and at least one protocol ID. Example: When user says 'track wallet 0x123...', pass 0x123... to this action.",
+    description: "Sets up liquidation monitoring for a wallet address and specifies which lending protocols to check. ALWAYS call this FIRST when a user mentions a wallet address (0x... format). Pass the wallet address directly from the user's message. If protocols aren't specified, use 'aave-v3' as default. Unknown protocol IDs are rejected with the list of supported ones. Optionally pass chains (e.g. ['ethereum', 'arbitrum', 'base', 'optimism', 'polygon']) to scan; Ethereum Mainnet is the default. Required: wallet address and at least one protocol ID. Example: When user says 'track wallet 0x123...', pass 0x123... to this action.",
     schema: z.object({
         wallet: z.string().min(1, "Wallet address is required").refine(
             (val) => /^0x[a-fA-F0-9]{40}$/.test(val),
@@ -12,6 +16,8 @@ export const initializeMonitoringAction = action({
         ),
         protocolIds: z.array(z.string()).min(1, "At least one protocol ID is required"),
         alertThreshold: z.number().min(0).max(100).optional().default(15),
+        marketIds: z.record(z.string(), z.array(z.string())).optional(), // Extra markets to check per protocol, e.g. Morpho Blue market IDs
+        chains: z.array(z.union([z.number(), z.string()])).optional(), // Chain IDs or names, e.g. ["ethereum", "arbitrum"]; defaults to Ethereum Mainnet
     }),
     handler(call, ctx) {
         console.log("[initializeMonitoring] Action called");
@@ -26,12 +32,43 @@ export const initializeMonitoringAction = action({
         const wallet = (call as any).wallet || (call as any).data?.wallet;
         const protocolIds = (call as any).protocolIds || (call as any).data?.protocolIds;
         const alertThreshold = (call as any).alertThreshold || (call as any).data?.alertThreshold || 15;
+        const marketIds = (call as any).marketIds || (call as any).data?.marketIds;
+        const chains = (call as any).chains || (call as any).data?.chains;
 
         if (!wallet || !protocolIds || protocolIds.length === 0) {
             console.error("[initializeMonitoring] ERROR: Missing required fields", { wallet, protocolIds });
             return { success: false, error: "Wallet address and protocol IDs are required" };
         }
 
+        try {
+            validateProtocolIds(protocolIds);
+        } catch (error) {
+            if (error instanceof UnsupportedProtocolError) {
+                console.error("[initializeMonitoring] ERROR:", error.message);
+                return {
+                    success: false,
+                    error: error.message,
+                    supportedProtocols: error.supportedProtocolIds,
+                };
+            }
+            throw error;
+        }
+
+        let chainIds: number[];
+        try {
+            chainIds = chains && chains.length > 0 ? resolveChainIds(chains) : [NETWORKS.MAINNET.chainId];
+        } catch (error) {
+            if (error instanceof UnsupportedChainError) {
+                console.error("[initializeMonitoring] ERROR:", error.message);
+                return {
+                    success: false,
+                    error: error.message,
+                    supportedChains: error.supportedChains,
+                };
+            }
+            throw error;
+        }
+
         // Check if context exists
         if (!ctx) {
             console.error("[initializeMonitoring] ERROR: Context is undefined");
@@ -44,20 +81,7 @@ export const initializeMonitoringAction = action({
         // Initialize memory if it doesn't exist or is missing fields
         if (!ctx.agentMemory) {
             console.log("[initializeMonitoring] Initializing new context memory");
-            (ctx as any).agentMemory = {
-                wallet: "",
-                protocolIds: [],
-                positions: [],
-                monitoringState: {
-                    healthFactors: [],
-                    liquidationPrices: [],
-                    alertThreshold: 15,
-                    alertThresholdHit: false,
-                    lastChecked: 0,
-                },
-                checkedAt: 0,
-                lastUpdated: Date.now(),
-            };
+            (ctx as any).agentMemory = createPositionMemory();
         }
 
         const agentMemory = ctx.agentMemory as PositionMemory;
@@ -65,23 +89,21 @@ export const initializeMonitoringAction = action({
         // initialize monitoring configuration 
         agentMemory.wallet = wallet;
         agentMemory.protocolIds = protocolIds;
+        agentMemory.chainIds = chainIds;
+        agentMemory.marketIds = marketIds;
         agentMemory.positions = [];
-        agentMemory.monitoringState = {
-            healthFactors: [],
-            liquidationPrices: [],
-            alertThreshold: alertThreshold,
-            alertThresholdHit: false,
-            lastChecked: 0,
-        };
+        agentMemory.monitoringState = createMonitoringState(alertThreshold);
         agentMemory.checkedAt = 0;
         agentMemory.lastUpdated = Date.now();
 
         const result = {
             success: true,
-            message: `Monitoring initialized for wallet: ${wallet} with protocols: ${protocolIds.join(", ")}`,
+            message: `Monitoring initialized for wallet: ${wallet} with protocols: ${protocolIds.join(", ")} on chains: ${chainIds.join(", ")}`,
             wallet,
             protocolIds,
+            chainIds,
             alertThreshold,
+            marketIds,
         };
 
         console.log("[initializeMonitoring] Success! Returning:", JSON.stringify(result, null, 2));
@@ -127,33 +149,14 @@ export const updateWalletAction = action({
         // Initialize memory if it doesn't exist
         if (!ctx.agentMemory) {
             console.log("[updateWallet] Initializing new context memory");
-            (ctx as any).agentMemory = {
-                wallet: "",
-                protocolIds: [],
-                positions: [],
-                monitoringState: {
-                    healthFactors: [],
-                    liquidationPrices: [],
-                    alertThreshold: 15,
-                    alertThresholdHit: false,
-                    lastChecked: 0,
-                },
-                checkedAt: 0,
-                lastUpdated: Date.now(),
-            };
+            (ctx as any).agentMemory = createPositionMemory();
         }
 
         const agentMemory = ctx.agentMemory as PositionMemory;
 
         agentMemory.wallet = wallet;
         agentMemory.positions = []; // Reset positions for new wallet
-        agentMemory.monitoringState = {
-            healthFactors: [],
-            liquidationPrices: [],
-            alertThresholdHit: false,
-            alertThreshold: agentMemory.monitoringState?.alertThreshold || 15,
-            lastChecked: 0,
-        };
+        agentMemory.monitoringState = createMonitoringState(agentMemory.monitoringState?.alertThreshold || 15);
         agentMemory.checkedAt = 0;
         agentMemory.lastUpdated = Date.now();
 
@@ -193,10 +196,13 @@ export const getMonitoringConfigAction = action({
         const result = {
             wallet: agentMemory.wallet || "Not set",
             protocolIds: agentMemory.protocolIds || [],
+            chainIds: agentMemory.chainIds || [NETWORKS.MAINNET.chainId],
             alertThreshold: agentMemory.monitoringState?.alertThreshold || 15,
             positionsCount: agentMemory.positions?.length || 0,
             lastChecked: agentMemory.monitoringState?.lastChecked || 0,
             alertThresholdHit: agentMemory.monitoringState?.alertThresholdHit ?? false,
+            supportedProtocols: getSupportedProtocolIds(),
+            supportedChains: describeSupportedChains(),
         };
 
         console.log("[getMonitoringConfig] Returning:", JSON.stringify(result, null, 2));
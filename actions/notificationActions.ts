@@ -0,0 +1,164 @@
+import { action } from "@daydreamsai/core";
+import { z } from "zod";
+import type { NotificationDestination, PositionMemory } from "../types/memory.js";
+import type { AlertEvent } from "../utils/alerts.js";
+import { assessPositions } from "../utils/monitoring.js";
+import {
+    buildAlertNotification,
+    sendNotifications,
+    type AlertNotification,
+} from "../utils/notifications.js";
+
+export const destinationSchema = z.discriminatedUnion("channel", [
+    z.object({ channel: z.literal("webhook"), url: z.string().url(), headers: z.record(z.string(), z.string()).optional() }),
+    z.object({ channel: z.literal("telegram"), chatId: z.string(), botToken: z.string().optional() }),
+    z.object({ channel: z.literal("discord"), webhookUrl: z.string().url() }),
+    z.object({ channel: z.literal("slack"), webhookUrl: z.string().url() }),
+    z.object({ channel: z.literal("email"), to: z.string().email() }),
+]);
+
+// Never echo secrets (Telegram bot tokens, webhook headers) back to the model
+function describeDestination(destination: NotificationDestination): string {
+    switch (destination.channel) {
+        case "webhook":
+            return `webhook ${destination.url}`;
+        case "telegram":
+            return `telegram chat ${destination.chatId}`;
+        case "discord":
+            return "discord webhook";
+        case "slack":
+            return "slack webhook";
+        case "email":
+            return `email ${destination.to}`;
+    }
+}
+
+/**
+ * Action to set where alerts for the configured wallet are sent
+ */
+export const configureNotificationsAction = action({
+    name: "configureNotifications",
+    description: "Sets where liquidation alerts for the configured wallet are sent. Each destination has a channel: webhook (url, optional headers; receives the alert as JSON), telegram (chatId, optional botToken), discord (webhookUrl), slack (webhookUrl) or email (to). Destinations are added to the existing ones unless replace is true; pass an empty list with replace: true to turn notifications off. Alerts are sent when a position enters or escalates to warning, critical or liquidatable, repeats after a cooldown, or recovers.",
+    schema: z.object({
+        destinations: z.array(destinationSchema),
+        replace: z.boolean().optional(), // Replace instead of adding to the existing destinations
+    }),
+    handler(call, ctx) {
+        console.log("[configureNotifications] Action called");
+
+        if (!ctx || !ctx.agentMemory) {
+            console.error("[configureNotifications] ERROR: Context or agentMemory is undefined");
+            return {
+                success: false,
+                error: "Context not available. Please ensure the liquidation-monitor context is activated.",
+            };
+        }
+
+        const agentMemory = ctx.agentMemory as PositionMemory;
+
+        if (!agentMemory.wallet) {
+            return {
+                success: false,
+                error: "Wallet not configured. Use initializeMonitoring first.",
+            };
+        }
+
+        const destinations: NotificationDestination[] = (call as any).destinations || (call as any).data?.destinations || [];
+        const replace = (call as any).replace || (call as any).data?.replace;
+
+        const merged = replace ? [] : [...(agentMemory.notifications || [])];
+        for (const destination of destinations) {
+            // Skip exact duplicates so repeated calls don't send the same alert twice
+            if (!merged.some((existing) => JSON.stringify(existing) === JSON.stringify(destination))) {
+                merged.push(destination);
+            }
+        }
+
+        agentMemory.notifications = merged;
+        agentMemory.lastUpdated = Date.now();
+
+        return {
+            success: true,
+            destinations: merged.map(describeDestination),
+            message: merged.length > 0
+                ? `Alerts for ${agentMemory.wallet} will be sent to ${merged.length} destination(s)`
+                : `Notifications disabled for ${agentMemory.wallet}`,
+        };
+    },
+});
+
+/**
+ * Action to send a test alert to the configured destinations
+ */
+export const sendTestNotificationAction = action({
+    name: "sendTestNotification",
+    description: "Sends a test alert to the configured wallet's notification destinations (or only those of one channel) to check they are set up correctly. The test uses the positions with an active alert, or a sample position if nothing is at risk. Reports success or the error for each destination.",
+    schema: z.object({
+        channel: z.enum(["webhook", "telegram", "discord", "slack", "email"]).optional(),
+    }),
+    handler: async (call, ctx) => {
+        console.log("[sendTestNotification] Action called");
+
+        if (!ctx || !ctx.agentMemory) {
+            console.error("[sendTestNotification] ERROR: Context or agentMemory is undefined");
+            return {
+                success: false,
+                error: "Context not available. Please ensure the liquidation-monitor context is activated.",
+            };
+        }
+
+        const agentMemory = ctx.agentMemory as PositionMemory;
+        const channel = (call as any).channel || (call as any).data?.channel;
+
+        const destinations = (agentMemory.notifications || [])
+            .filter((destination) => !channel || destination.channel === channel);
+
+        if (destinations.length === 0) {
+            return {
+                success: false,
+                error: channel
+                    ? `No ${channel} destinations configured. Use configureNotifications first.`
+                    : "No notification destinations configured. Use configureNotifications first.",
+            };
+        }
+
+        // Current alerts, re-sent as they stand
+        const { risks } = assessPositions(agentMemory);
+        const events: AlertEvent[] = (agentMemory.monitoringState.alerts || []).flatMap((state) => {
+            const risk = risks.find((entry) => entry.positionId === state.positionId);
+            return risk ? [{ ...risk, kind: "repeated" as const, severity: state.severity, previousSeverity: state.severity }] : [];
+        });
+
+        const alert: AlertNotification = { ...buildAlertNotification(agentMemory, events), test: true };
+        if (alert.positions.length === 0) {
+            alert.positions = [{
+                event: "triggered",
+                severity: "warning",
+                previousSeverity: null,
+                positionId: "test-position",
+                protocolId: "aave-v3",
+                chainId: 1,
+                collateralAsset: "WETH",
+                debtAsset: "USDC",
+                healthFactor: 1.05,
+                bufferPercent: 5,
+                liqPrice: 2850,
+                currentPrice: 3000,
+            }];
+        }
+
+        const results = await sendNotifications(destinations, alert);
+        const failed = results.filter((result) => !result.success);
+
+        return {
+            success: failed.length === 0,
+            results: results.map((result, index) => ({
+                ...result,
+                destination: describeDestination(destinations[index]!),
+            })),
+            message: failed.length === 0
+                ? `✅ Test alert sent to ${results.length} destination(s)`
+                : `⚠️ ${failed.length} of ${results.length} destination(s) failed`,
+        };
+    },
+});
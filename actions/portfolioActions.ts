@@ -0,0 +1,232 @@
+import { action, type AnyAgent } from "@daydreamsai/core";
+import { z } from "zod";
+import type { NotificationDestination, PortfolioMemory, PositionMemory } from "../types/memory.js";
+import { portfolioContext } from "../contexts/portfolioContext.js";
+import { positionContext } from "../contexts/positionContext.js";
+import { NETWORKS, PORTFOLIO_CONFIG } from "../utils/config.js";
+import { resolveChainIds, UnsupportedChainError } from "../utils/chains.js";
+import { getPortfolio, getPortfolios, summarizePortfolio } from "../utils/portfolio.js";
+import { UnsupportedProtocolError, validateProtocolIds } from "../utils/protocols.js";
+import { runWalletCheck, syncWatchedContexts } from "../utils/watcher.js";
+import { destinationSchema } from "./notificationActions.js";
+
+const walletSchema = z.string().refine(
+    (val) => /^0x[a-fA-F0-9]{40}$/.test(val),
+    "Wallet address must be a valid Ethereum address (0x...)"
+);
+
+/**
+ * Open each wallet's liquidation-monitor context, configuring the ones not set up yet with the
+ * portfolio's protocols, chains and threshold. Wallets already monitored keep their own settings
+ */
+async function enrollWallets(agent: AnyAgent, portfolio: PortfolioMemory, wallets: string[]): Promise<string[]> {
+    const configured: string[] = [];
+
+    for (const wallet of wallets) {
+        const state = await agent.getContext({ context: positionContext, args: { wallet } });
+        const memory = state.memory as PositionMemory;
+
+        if (!memory.wallet || memory.protocolIds.length === 0) {
+            memory.wallet = wallet;
+            memory.protocolIds = [...portfolio.protocolIds];
+            memory.chainIds = portfolio.chainIds;
+            memory.monitoringState.alertThreshold = portfolio.alertThreshold;
+            memory.lastUpdated = Date.now();
+            await agent.saveContext(state);
+            configured.push(wallet);
+        }
+    }
+
+    // Start watching the new wallets now rather than at the next context sync
+    await syncWatchedContexts(agent);
+    return configured;
+}
+
+/**
+ * Action to create (or reconfigure) a named portfolio of wallets
+ */
+export const createPortfolioAction = action({
+    name: "createPortfolio",
+    description: "Creates a named portfolio that groups many wallets and monitors them all, e.g. a treasury's 20+ wallets. Pass name, wallets, and optionally protocolIds (default ['aave-v3']), chains, alertThreshold (default 15) and notifications (destinations for alerts rolled up across the portfolio, same format as configureNotifications). Wallets not yet monitored are set up with these settings and watched in the background. Calling it again for an existing portfolio adds the wallets and updates the settings.",
+    schema: z.object({
+        name: z.string().min(1, "Portfolio name is required"),
+        wallets: z.array(walletSchema).min(1, "At least one wallet is required"),
+        protocolIds: z.array(z.string()).optional(),
+        chains: z.array(z.union([z.number(), z.string()])).optional(),
+        alertThreshold: z.number().min(0).max(100).optional(),
+        notifications: z.array(destinationSchema).optional(),
+    }),
+    handler: async (call, ctx, agent) => {
+        console.log("[createPortfolio] Action called");
+
+        const name: string = (call as any).name || (call as any).data?.name;
+        const wallets: string[] = (call as any).wallets || (call as any).data?.wallets || [];
+        const protocolIds: string[] = (call as any).protocolIds || (call as any).data?.protocolIds || ["aave-v3"];
+        const chains = (call as any).chains || (call as any).data?.chains;
+        const alertThreshold = (call as any).alertThreshold || (call as any).data?.alertThreshold;
+        const notifications: NotificationDestination[] | undefined = (call as any).notifications || (call as any).data?.notifications;
+
+        if (!name || wallets.length === 0) {
+            return { success: false, error: "Portfolio name and at least one wallet are required" };
+        }
+
+        let chainIds: number[];
+        try {
+            validateProtocolIds(protocolIds);
+            chainIds = chains && chains.length > 0 ? resolveChainIds(chains) : [NETWORKS.MAINNET.chainId];
+        } catch (error) {
+            if (error instanceof UnsupportedProtocolError) {
+                return { success: false, error: error.message, supportedProtocols: error.supportedProtocolIds };
+            }
+            if (error instanceof UnsupportedChainError) {
+                return { success: false, error: error.message, supportedChains: error.supportedChains };
+            }
+            throw error;
+        }
+
+        const state = await agent.getContext({ context: portfolioContext, args: { name } });
+        const portfolio = state.memory as PortfolioMemory;
+
+        const normalized = wallets.map((wallet) => wallet.toLowerCase());
+        portfolio.name = name;
+        portfolio.wallets = [...new Set([...portfolio.wallets, ...normalized])];
+        portfolio.protocolIds = protocolIds;
+        portfolio.chainIds = chainIds;
+        if (alertThreshold !== undefined) portfolio.alertThreshold = alertThreshold;
+        if (notifications) portfolio.notifications = notifications;
+        portfolio.lastUpdated = Date.now();
+        await agent.saveContext(state);
+
+        const configured = await enrollWallets(agent, portfolio, normalized);
+
+        return {
+            success: true,
+            portfolio: portfolio.name,
+            wallets: portfolio.wallets.length,
+            newlyConfigured: configured,
+            message: `Portfolio ${portfolio.name} monitors ${portfolio.wallets.length} wallet(s) (${configured.length} newly set up) on ${protocolIds.join(", ")}`,
+        };
+    },
+});
+
+/**
+ * Action to add or remove wallets and change a portfolio's settings
+ */
+export const updatePortfolioAction = action({
+    name: "updatePortfolio",
+    description: "Adds or removes wallets in an existing portfolio, or changes its alertThreshold or notification destinations. Removed wallets leave the portfolio's summary and alert roll-up but keep their own monitoring. Pass name plus any of addWallets, removeWallets, alertThreshold, notifications (replaces the portfolio's destinations).",
+    schema: z.object({
+        name: z.string().min(1, "Portfolio name is required"),
+        addWallets: z.array(walletSchema).optional(),
+        removeWallets: z.array(z.string()).optional(),
+        alertThreshold: z.number().min(0).max(100).optional(),
+        notifications: z.array(destinationSchema).optional(),
+    }),
+    handler: async (call, ctx, agent) => {
+        console.log("[updatePortfolio] Action called");
+
+        const name: string = (call as any).name || (call as any).data?.name;
+        const addWallets: string[] = ((call as any).addWallets || (call as any).data?.addWallets || []).map((wallet: string) => wallet.toLowerCase());
+        const removeWallets: string[] = ((call as any).removeWallets || (call as any).data?.removeWallets || []).map((wallet: string) => wallet.toLowerCase());
+        const alertThreshold = (call as any).alertThreshold || (call as any).data?.alertThreshold;
+        const notifications: NotificationDestination[] | undefined = (call as any).notifications || (call as any).data?.notifications;
+
+        if (!getPortfolio(name)) {
+            return {
+                success: false,
+                error: `Portfolio ${name} not found. Use createPortfolio first.`,
+                portfolios: getPortfolios().map((portfolio) => portfolio.name),
+            };
+        }
+
+        const state = await agent.getContext({ context: portfolioContext, args: { name } });
+        const portfolio = state.memory as PortfolioMemory;
+
+        portfolio.wallets = [...new Set([...portfolio.wallets, ...addWallets])]
+            .filter((wallet) => !removeWallets.includes(wallet));
+        if (alertThreshold !== undefined) portfolio.alertThreshold = alertThreshold;
+        if (notifications) portfolio.notifications = notifications;
+        portfolio.lastUpdated = Date.now();
+        await agent.saveContext(state);
+
+        const configured = addWallets.length > 0 ? await enrollWallets(agent, portfolio, addWallets) : [];
+
+        return {
+            success: true,
+            portfolio: portfolio.name,
+            wallets: portfolio.wallets,
+            newlyConfigured: configured,
+            message: `Portfolio ${portfolio.name} now has ${portfolio.wallets.length} wallet(s)`,
+        };
+    },
+});
+
+/**
+ * Action to report aggregate risk across a portfolio's wallets
+ */
+export const getPortfolioSummaryAction = action({
+    name: "getPortfolioSummary",
+    description: "Summarizes a portfolio: total collateral and debt across its wallets, debt-weighted health factor, alert counts by severity, per-wallet totals and a ranked list of the riskiest positions (smallest buffer first). Uses the latest background checks; pass refresh: true to re-check every wallet now (slower). Pass limit to change how many positions are ranked (default 10). Without a name, lists the portfolios.",
+    schema: z.object({
+        name: z.string().optional(),
+        refresh: z.boolean().optional(),
+        limit: z.number().int().positive().optional(),
+    }),
+    handler: async (call, ctx, agent) => {
+        console.log("[getPortfolioSummary] Action called");
+
+        const name: string | undefined = (call as any).name || (call as any).data?.name;
+        const refresh = (call as any).refresh || (call as any).data?.refresh;
+        const limit = (call as any).limit || (call as any).data?.limit || PORTFOLIO_CONFIG.summaryLimit;
+
+        if (!name) {
+            const portfolios = getPortfolios();
+            return {
+                success: true,
+                portfolios: portfolios.map((portfolio) => ({ name: portfolio.name, wallets: portfolio.wallets.length })),
+                message: portfolios.length > 0
+                    ? `${portfolios.length} portfolio(s); pass a name for its summary`
+                    : "No portfolios. Use createPortfolio to create one.",
+            };
+        }
+
+        const portfolio = getPortfolio(name);
+        if (!portfolio) {
+            return {
+                success: false,
+                error: `Portfolio ${name} not found`,
+                portfolios: getPortfolios().map((entry) => entry.name),
+            };
+        }
+
+        const errors: Array<{ wallet: string; error: string }> = [];
+        const wallets: Array<{ wallet: string; memory: PositionMemory | null }> = [];
+
+        for (const wallet of portfolio.wallets) {
+            const state = await agent.getContext({ context: positionContext, args: { wallet } });
+            const memory = state.memory as PositionMemory;
+
+            if (refresh && memory.protocolIds.length > 0) {
+                try {
+                    await runWalletCheck(memory);
+                    await agent.saveContext(state);
+                } catch (error) {
+                    errors.push({ wallet, error: error instanceof Error ? error.message : String(error) });
+                }
+            }
+
+            wallets.push({ wallet, memory: memory.wallet ? memory : null });
+        }
+
+        const summary = summarizePortfolio(portfolio, wallets, limit);
+
+        return {
+            success: true,
+            ...summary,
+            ...(errors.length > 0 && { refreshErrors: errors }),
+            message: summary.alertThresholdHit
+                ? `⚠️ Portfolio ${summary.name}: ${summary.alertCounts.warning + summary.alertCounts.critical + summary.alertCounts.liquidatable} position alert(s) across ${summary.wallets} wallet(s)`
+                : `✅ Portfolio ${summary.name}: ${summary.positions} position(s) across ${summary.wallets} wallet(s), none below threshold`,
+        };
+    },
+});
@@ -1,8 +1,19 @@
 import { action } from "@daydreamsai/core";
 import { z } from "zod";
 import type { PositionMemory } from "../types/memory.js";
-import { fetchAllPositions } from "../utils/protocols.js";
-import type { ProtocolId } from "../utils/config.js";
+import {
+    fetchAllPositions,
+    getPositionHealthFactor,
+    getPositionLiquidationPrice,
+    validateProtocolIds,
+    UnsupportedProtocolError,
+} from "../utils/protocols.js";
+import { NETWORKS } from "../utils/config.js";
+import { resolveChainIds, UnsupportedChainError } from "../utils/chains.js";
+import { createPositionMemory } from "../utils/memory.js";
+import { evaluateAlerts, refreshPositions, runMonitoringChecks } from "../utils/monitoring.js";
+import { notifyAlertEvents } from "../utils/notifications.js";
+import { queuePortfolioAlerts } from "../utils/portfolio.js";
 
 /**
  * Action to discover and fetch positions from lending protocols
@@ -10,10 +21,12 @@ import type { ProtocolId } from "../utils/config.js";
  */
 export const discoverPositionsAction = action({
     name: "discoverPositions",
-    description: "Discovers and fetches all active borrow positions for the configured wallet across all monitored protocols. ALWAYS call this AFTER initializeMonitoring to find the user's positions. This queries Aave, Curve, and other protocols to get real position data. This must be run before monitoring can occur. The wallet should already be configured via initializeMonitoring.",
+    description: "Discovers and fetches all active borrow positions for the configured wallet across all monitored protocols and chains (scanned in parallel). ALWAYS call this AFTER initializeMonitoring to find the user's positions. This queries Aave, Curve, and other protocols to get real position data. This must be run before monitoring can occur. The wallet should already be configured via initializeMonitoring.",
     schema: z.object({
         wallet: z.string().optional(), // Optional override, otherwise uses memory
         protocolIds: z.array(z.string()).optional(), // Optional override
+        marketIds: z.record(z.string(), z.array(z.string())).optional(), // Optional override of the configured markets per protocol
+        chains: z.array(z.union([z.number(), z.string()])).optional(), // Optional override of the configured chains (IDs or names)
     }),
     handler: async (call, ctx) => {
         console.log("[discoverPositions] Action called");
@@ -27,6 +40,8 @@ export const discoverPositionsAction = action({
         // Data is directly on call, not call.data
         const wallet = (call as any).wallet || (call as any).data?.wallet;
         const protocolIds = (call as any).protocolIds || (call as any).data?.protocolIds;
+        const marketIds = (call as any).marketIds || (call as any).data?.marketIds;
+        const chains = (call as any).chains || (call as any).data?.chains;
 
         if (!ctx) {
             console.error("[discoverPositions] ERROR: Context is undefined");
@@ -36,20 +51,7 @@ export const discoverPositionsAction = action({
         // Initialize memory if it doesn't exist
         if (!ctx.agentMemory) {
             console.log("[discoverPositions] Initializing context memory");
-            (ctx as any).agentMemory = {
-                wallet: "",
-                protocolIds: [],
-                positions: [],
-                monitoringState: {
-                    healthFactors: [],
-                    liquidationPrices: [],
-                    alertThreshold: 15,
-                    alertThresholdHit: false,
-                    lastChecked: 0,
-                },
-                checkedAt: 0,
-                lastUpdated: Date.now(),
-            };
+            (ctx as any).agentMemory = createPositionMemory();
         }
 
         const agentMemory = ctx.agentMemory as PositionMemory;
@@ -70,21 +72,40 @@ export const discoverPositionsAction = action({
             };
         }
 
-        // Fetch positions from all configured protocols
-        const protocolIdsTyped = finalProtocolIds as ProtocolId[];
-        const fetchedPositions = await fetchAllPositions(protocolIdsTyped, finalWallet);
-
-        const discoveredPositions: PositionMemory["positions"] = fetchedPositions.map((pos) => ({
-            id: pos.id,
-            protocolId: pos.protocolId,
-            collateralAsset: pos.collateralAsset,
-            debtAsset: pos.debtAsset,
-            collateralAmount: pos.collateralAmount,
-            debtAmount: pos.debtAmount,
-            collateralValue: pos.collateralValue,
-            debtValue: pos.debtValue,
-            liquidationThreshold: pos.liquidationThreshold,
-        }));
+        try {
+            validateProtocolIds(finalProtocolIds);
+        } catch (error) {
+            if (error instanceof UnsupportedProtocolError) {
+                return {
+                    success: false,
+                    error: error.message,
+                    supportedProtocols: error.supportedProtocolIds,
+                };
+            }
+            throw error;
+        }
+
+        let finalChainIds: number[];
+        try {
+            finalChainIds = chains ? resolveChainIds(chains) : agentMemory.chainIds || [NETWORKS.MAINNET.chainId];
+        } catch (error) {
+            if (error instanceof UnsupportedChainError) {
+                return {
+                    success: false,
+                    error: error.message,
+                    supportedChains: error.supportedChains,
+                };
+            }
+            throw error;
+        }
+
+        // Fetch positions from all configured protocols on every configured chain and store them
+        const { positions: discoveredPositions, marketsScanned, failed } = await refreshPositions(agentMemory, {
+            wallet: finalWallet,
+            protocolIds: finalProtocolIds,
+            chainIds: finalChainIds,
+            marketIds,
+        });
 
         // If you want to test with mock data, uncomment below:
         /*
@@ -104,14 +125,13 @@ export const discoverPositionsAction = action({
         }
         */
 
-        // Update memory with discovered positions
-        agentMemory.positions = discoveredPositions;
-        agentMemory.lastUpdated = Date.now();
-
         const positionsFound = discoveredPositions.length;
         const message = positionsFound > 0
-            ? `Found ${positionsFound} position(s) across ${finalProtocolIds.length} protocol(s) for wallet ${finalWallet}. Position details: ${discoveredPositions.map(p => `${p.collateralAsset}/${p.debtAsset}`).join(", ")}`
-            : `No positions found for wallet ${finalWallet} on protocols: ${finalProtocolIds.join(", ")}. This wallet may not have any active borrow positions.`;
+            ? `Found ${positionsFound} position(s) across ${finalProtocolIds.length} protocol(s) on ${finalChainIds.length} chain(s) for wallet ${finalWallet}. Position details: ${discoveredPositions.map(p => `${p.collateralAsset}/${p.debtAsset}`).join(", ")}`
+            : `No positions found for wallet ${finalWallet} on protocols: ${finalProtocolIds.join(", ")} (chains: ${finalChainIds.join(", ")}). This wallet may not have any active borrow positions.`;
+        const failedNote = failed.length > 0
+            ? ` Fetch failed for ${failed.map((target) => `${target.protocolId} on chain ${target.chainId}`).join(", ")}; previously stored positions there are kept.`
+            : "";
 
         const result = {
             success: true,
@@ -119,10 +139,16 @@ export const discoverPositionsAction = action({
             positions: discoveredPositions.map(pos => ({
                 id: pos.id,
                 protocolId: pos.protocolId,
+                chainId: pos.chainId,
                 collateralAsset: pos.collateralAsset,
                 debtAsset: pos.debtAsset,
+                ...(pos.llamma && { softLiquidation: pos.llamma.softLiquidation }),
+                ...(pos.unpriced && { unpriced: pos.unpriced.symbols }),
             })),
-            message,
+            chainIds: finalChainIds,
+            marketsScanned,
+            ...(failed.length > 0 && { failedFetches: failed }),
+            message: message + failedNote,
         };
 
         console.log("[discoverPositions] Success! Positions found:", positionsFound);
@@ -148,6 +174,7 @@ export const addPositionAction = action({
         collateralValue: z.number(),
         debtValue: z.number(),
         liquidationThreshold: z.number().min(0).max(1),
+        chainId: z.number().optional(), // Defaults to Ethereum Mainnet
         positionId: z.string().optional(), // Auto-generated if not provided
     }),
     handler(call, ctx) {
@@ -163,20 +190,7 @@ export const addPositionAction = action({
 
         // Initialize memory if needed
         if (!ctx.agentMemory) {
-            (ctx as any).agentMemory = {
-                wallet: "",
-                protocolIds: [],
-                positions: [],
-                monitoringState: {
-                    healthFactors: [],
-                    liquidationPrices: [],
-                    alertThreshold: 15,
-                    alertThresholdHit: false,
-                    lastChecked: 0,
-                },
-                checkedAt: 0,
-                lastUpdated: Date.now(),
-            };
+            (ctx as any).agentMemory = createPositionMemory();
         }
 
         const agentMemory = ctx.agentMemory as PositionMemory;
@@ -197,6 +211,7 @@ export const addPositionAction = action({
         const collateralValue = (call as any).collateralValue || (call as any).data?.collateralValue;
         const debtValue = (call as any).debtValue || (call as any).data?.debtValue;
         const liquidationThreshold = (call as any).liquidationThreshold || (call as any).data?.liquidationThreshold;
+        const chainId = (call as any).chainId || (call as any).data?.chainId || NETWORKS.MAINNET.chainId;
 
         if (!protocolId || !collateralAsset || !debtAsset) {
             return {
@@ -213,6 +228,7 @@ export const addPositionAction = action({
         const newPosition = {
             id: positionId,
             protocolId,
+            chainId,
             collateralAsset,
             debtAsset,
             collateralAmount,
@@ -240,7 +256,7 @@ export const addPositionAction = action({
 
 /**
  * Action to check health factors for all positions
- * Health Factor = (Total Collateral Value * Liquidation Threshold) / Total Debt Value
+ * Health Factor = Σ(Collateral Value * Liquidation Threshold) / Total Debt Value
  */
 export const checkHealthFactorAction = action({
     name: "checkHealthFactor",
@@ -281,17 +297,8 @@ export const checkHealthFactorAction = action({
             : agentMemory.positions;
 
         const healthFactors = positionsToCheck.map((position) => {
-            // Health Factor formula: (Collateral Value * Liquidation Threshold) / Debt Value
-            const collateralValue = position.collateralValue;
-            const debtValue = position.debtValue;
-            const liquidationThreshold = position.liquidationThreshold;
-
-            let healthFactor = 0;
-            if (debtValue > 0) {
-                healthFactor = (collateralValue * liquidationThreshold) / debtValue;
-            } else {
-                healthFactor = Infinity; // No debt = infinite health
-            }
+            // Health Factor formula: Σ(Collateral Value * Liquidation Threshold) / Debt Value
+            const healthFactor = getPositionHealthFactor(position);
 
             return {
                 positionId: position.id,
@@ -317,13 +324,19 @@ export const checkHealthFactorAction = action({
         agentMemory.checkedAt = Date.now();
         agentMemory.lastUpdated = Date.now();
 
+        // Positions whose tokens couldn't be priced have no health factor
+        const unpricedPositions = positionsToCheck
+            .filter((position) => position.unpriced)
+            .map((position) => ({ positionId: position.id, symbols: position.unpriced!.symbols, reason: position.unpriced!.reason }));
+
         return {
             success: true,
             healthFactors: healthFactors.map(hf => ({
                 positionId: hf.positionId,
                 healthFactor: hf.healthFactor,
             })),
-            message: `Checked health factors for ${healthFactors.length} position(s)`,
+            unpricedPositions,
+            message: `Checked health factors for ${healthFactors.length} position(s)${unpricedPositions.length > 0 ? `; ${unpricedPositions.length} unpriced` : ""}`,
         };
     },
 });
@@ -331,6 +344,7 @@ export const checkHealthFactorAction = action({
 /**
  * Action to calculate liquidation prices
  * Liquidation Price = Debt Value / (Collateral Amount * Liquidation Threshold)
+ * For multi-asset positions, this is the primary collateral's price with the other legs held constant
  */
 export const calculateLiquidationPriceAction = action({
     name: "calculateLiquidationPrice",
@@ -363,22 +377,9 @@ export const calculateLiquidationPriceAction = action({
             : agentMemory.positions;
 
         const liquidationPrices = positionsToCheck.map((position) => {
-            const collateralAmount = parseFloat(position.collateralAmount);
-            const debtValue = position.debtValue;
-            const liquidationThreshold = position.liquidationThreshold;
-            const collateralValue = position.collateralValue;
-
-            // Calculate current price
-            const currentPrice = collateralAmount > 0
-                ? collateralValue / collateralAmount
-                : 0;
-
-            // Liquidation price: when collateralValue * liquidationThreshold = debtValue
-            // So: liqPrice = debtValue / (collateralAmount * liquidationThreshold)
-            let liqPrice = 0;
-            if (collateralAmount > 0 && liquidationThreshold > 0) {
-                liqPrice = debtValue / (collateralAmount * liquidationThreshold);
-            }
+            // Liquidation price: when Σ(collateralValue * liquidationThreshold) = debtValue,
+            // solved for the primary collateral asset's price
+            const { liqPrice, currentPrice } = getPositionLiquidationPrice(position);
 
             return {
                 positionId: position.id,
@@ -497,11 +498,11 @@ export const calculateBufferAction = action({
  */
 export const checkAlertThresholdAction = action({
     name: "checkAlertThreshold",
-    description: "Checks if any positions have hit the alert threshold based on buffer percentage. If buffer is below the alert threshold, this will trigger an alert. Use this to determine if immediate action is needed.",
+    description: "Checks if any positions have hit the alert threshold based on buffer percentage. If buffer is below the alert threshold, this will trigger an alert. Liquity troves that would be liquidatable if the system entered recovery mode are flagged too. Each at-risk position has a severity (warning, critical, liquidatable); alertEvents lists new, escalated, repeated and recovered alerts since the last check. Use this to determine if immediate action is needed.",
     schema: z.object({
         alertThreshold: z.number().optional(), // Override the stored threshold
     }),
-    handler(call, ctx) {
+    handler: async (call, ctx) => {
         console.log("[checkAlertThreshold] Action called");
 
         // Check if context exists
@@ -529,40 +530,27 @@ export const checkAlertThresholdAction = action({
             };
         }
 
-        const atRiskPositions: Array<{
-            positionId: string;
-            bufferPercent: number;
-            healthFactor: number;
-        }> = [];
-
-        agentMemory.monitoringState.healthFactors.forEach((hf) => {
-            const position = agentMemory.positions.find(p => p.id === hf.positionId);
-            if (!position) return;
-
-            // Calculate buffer from health factor
-            const bufferPercent = (hf.healthFactor - 1.0) * 100;
-
-            if (bufferPercent < threshold) {
-                atRiskPositions.push({
-                    positionId: hf.positionId,
-                    bufferPercent,
-                    healthFactor: hf.healthFactor,
-                });
-            }
-        });
-
-        agentMemory.monitoringState.alertThresholdHit = atRiskPositions.length > 0;
-        agentMemory.monitoringState.alertThreshold = threshold;
+        // Severity tiers with hysteresis; also sets alertThresholdHit
+        const { atRiskPositions, unpricedPositions, events } = evaluateAlerts(agentMemory, threshold);
         agentMemory.lastUpdated = Date.now();
 
+        // Push new, escalated, repeated and recovered alerts to the wallet's notification destinations
+        const notifications = await notifyAlertEvents(agentMemory, events, threshold);
+        queuePortfolioAlerts(agentMemory, events);
+
         return {
             success: true,
             alertThresholdHit: agentMemory.monitoringState.alertThresholdHit,
             threshold,
             atRiskPositions,
+            unpricedPositions,
+            alertEvents: events,
+            notifications,
             message: agentMemory.monitoringState.alertThresholdHit
                 ? `⚠️ ALERT: ${atRiskPositions.length} position(s) below ${threshold}% buffer threshold!`
-                : `✅ All positions are above ${threshold}% buffer threshold`,
+                : unpricedPositions.length > 0
+                    ? `✅ All priced positions are above ${threshold}% buffer threshold (${unpricedPositions.length} unpriced)`
+                    : `✅ All positions are above ${threshold}% buffer threshold`,
         };
     },
 });
@@ -577,7 +565,7 @@ export const monitorPositionsAction = action({
     schema: z.object({
         alertThreshold: z.number().optional(),
     }),
-    handler(call, ctx) {
+    handler: async (call, ctx) => {
         // Check if context exists
         if (!ctx || !ctx.agentMemory) {
             console.error("[monitorPositions] ERROR: Context or agentMemory is undefined");
@@ -603,86 +591,11 @@ export const monitorPositionsAction = action({
             };
         }
 
-        // Step 1: Check health factors
-        const healthFactors = agentMemory.positions.map((position) => {
-            const collateralValue = position.collateralValue;
-            const debtValue = position.debtValue;
-            const liquidationThreshold = position.liquidationThreshold;
-
-            const healthFactor = debtValue > 0
-                ? (collateralValue * liquidationThreshold) / debtValue
-                : Infinity;
-
-            const hfEntry = {
-                positionId: position.id,
-                healthFactor,
-                timestamp: Date.now(),
-            };
-
-            // Update in memory
-            const existingIndex = agentMemory.monitoringState.healthFactors.findIndex(
-                (hf) => hf.positionId === position.id
-            );
-            if (existingIndex >= 0) {
-                agentMemory.monitoringState.healthFactors[existingIndex] = hfEntry;
-            } else {
-                agentMemory.monitoringState.healthFactors.push(hfEntry);
-            }
-
-            return healthFactor;
-        });
-
-        // Step 2: Calculate liquidation prices
-        const liquidationPrices = agentMemory.positions.map((position) => {
-            const collateralAmount = parseFloat(position.collateralAmount);
-            const debtValue = position.debtValue;
-            const liquidationThreshold = position.liquidationThreshold;
-            const collateralValue = position.collateralValue;
-
-            const currentPrice = collateralAmount > 0
-                ? collateralValue / collateralAmount
-                : 0;
-
-            const liqPrice = collateralAmount > 0 && liquidationThreshold > 0
-                ? debtValue / (collateralAmount * liquidationThreshold)
-                : 0;
-
-            const lpEntry = {
-                positionId: position.id,
-                liqPrice,
-                currentPrice,
-            };
-
-            // Update in memory
-            const existingIndex = agentMemory.monitoringState.liquidationPrices.findIndex(
-                (lp) => lp.positionId === position.id
-            );
-            if (existingIndex >= 0) {
-                agentMemory.monitoringState.liquidationPrices[existingIndex] = lpEntry;
-            } else {
-                agentMemory.monitoringState.liquidationPrices.push(lpEntry);
-            }
-
-            return liqPrice;
-        });
-
-        // Step 3: Calculate buffer percentages
-        const bufferPercents = healthFactors.map((hf, index) => {
-            const bufferPercent = hf > 0 && !isFinite(hf)
-                ? Infinity
-                : (hf - 1.0) * 100;
-            return Math.max(0, bufferPercent);
-        });
-
-        // Step 4: Check alert threshold
+        // Health factors, liquidation prices, buffers and the alert threshold in one pass
         const threshold = (call as any).alertThreshold || (call as any).data?.alertThreshold || agentMemory.monitoringState.alertThreshold;
-        const alertThresholdHit = bufferPercents.some(buffer => buffer < threshold);
-
-        agentMemory.monitoringState.alertThresholdHit = alertThresholdHit;
-        agentMemory.monitoringState.alertThreshold = threshold;
-        agentMemory.monitoringState.lastChecked = Date.now();
-        agentMemory.checkedAt = Date.now();
-        agentMemory.lastUpdated = Date.now();
+        const { healthFactors, liquidationPrices, bufferPercents, alertThresholdHit, alertEvents } = runMonitoringChecks(agentMemory, threshold);
+        const notifications = await notifyAlertEvents(agentMemory, alertEvents, threshold);
+        queuePortfolioAlerts(agentMemory, alertEvents);
 
         return {
             success: true,
@@ -690,14 +603,43 @@ export const monitorPositionsAction = action({
             liq_price: liquidationPrices,
             buffer_percent: bufferPercents,
             alert_threshold_hit: alertThresholdHit,
+            alert_events: alertEvents,
+            notifications,
             positions: agentMemory.positions.map((pos, index) => ({
                 positionId: pos.id,
                 protocolId: pos.protocolId,
+                chainId: pos.chainId,
                 collateralAsset: pos.collateralAsset,
                 debtAsset: pos.debtAsset,
                 healthFactor: healthFactors[index],
                 liqPrice: liquidationPrices[index],
                 bufferPercent: bufferPercents[index],
+                alertSeverity: agentMemory.monitoringState.alerts?.find((alert) => alert.positionId === pos.id)?.severity ?? null,
+                ...(pos.unpriced && {
+                    unpriced: true,
+                    unpricedSymbols: pos.unpriced.symbols,
+                    unpricedReason: pos.unpriced.reason,
+                }),
+                ...(pos.llamma && {
+                    softLiquidation: pos.llamma.softLiquidation,
+                    softLiquidationPrice: pos.llamma.topBandPrice,
+                    bandRange: pos.llamma.bandRange,
+                    activeBand: pos.llamma.activeBand,
+                }),
+                ...(pos.maker && {
+                    vaultId: pos.maker.cdpId,
+                    ilk: pos.maker.ilk,
+                    viaProxy: pos.maker.viaProxy,
+                    nextPrice: pos.maker.nextPrice,
+                    nextPriceAt: pos.maker.nextPriceAt,
+                    nextHealthFactor: pos.maker.nextHealthFactor,
+                }),
+                ...(pos.liquity && {
+                    collateralRatio: pos.liquity.collateralRatio,
+                    totalCollateralRatio: pos.liquity.totalCollateralRatio,
+                    recoveryMode: pos.liquity.recoveryMode,
+                    liquidatableInRecoveryMode: pos.liquity.liquidatableInRecoveryMode,
+                }),
             })),
         };
     },
@@ -0,0 +1,333 @@
+import { action } from "@daydreamsai/core";
+import { getAddress } from "viem";
+import { z } from "zod";
+import type { PositionMemory } from "../types/memory.js";
+import { ALERT_CONFIG, FORK_CONFIG } from "../utils/config.js";
+import { dryRunTransactions, ForkUnavailableError } from "../utils/fork.js";
+import { getPositionRisk } from "../utils/monitoring.js";
+import { getPositionHealthFactor } from "../utils/protocols.js";
+import { planRemediation, type RemediationOption, type RemediationPlan } from "../utils/remediation.js";
+import {
+    buildRemediationTransactions,
+    getTransactionProtocolIds,
+    toSafeTransactionBatch,
+    UnsupportedRemediationError,
+} from "../utils/transactions.js";
+
+const describeOption = (option: RemediationOption) =>
+    option.steps
+        .map((step) => `${step.kind === "repay-debt" ? "repay" : "add"} ${step.amount} ${step.asset} ($${step.valueUsd.toFixed(2)})`)
+        .join(" + ");
+
+// Explicit target, else the alert threshold plus the hysteresis margin so the alert clears
+const resolveTargetHealthFactor = (memory: PositionMemory, targetHealthFactor?: number, targetBufferPercent?: number) =>
+    targetHealthFactor ?? 1 + (targetBufferPercent ?? memory.monitoringState.alertThreshold + ALERT_CONFIG.hysteresisPercent) / 100;
+
+// Options of one kind, or using only one token
+const selectOptions = (plan: RemediationPlan, kind?: string, asset?: string) =>
+    plan.options.filter((option) =>
+        (!kind || option.kind === kind) &&
+        (!asset || option.steps.every((step) => step.asset.toLowerCase() === asset.toLowerCase()))
+    );
+
+const walletAddressSchema = (label: string) => z.string().refine(
+    (val) => /^0x[a-fA-F0-9]{40}$/.test(val),
+    `${label} must be a valid Ethereum address (0x...)`
+);
+
+/**
+ * Action to plan how to bring positions back to a target health factor
+ * Options (add collateral, repay debt, or both) are ranked by the capital they need
+ */
+export const planRemediationAction = action({
+    name: "planRemediation",
+    description: "Works out what to do about a low buffer: the exact collateral top-up, debt repayment, or mixed option that brings a position to a target health factor or buffer, in token units and USD, using each collateral asset's own liquidation threshold. Options are ranked by capital required (cheapest first). Pass positionId (default: every position below the target) and targetHealthFactor or targetBufferPercent (default: the alert threshold plus the hysteresis margin, so the alert clears).",
+    schema: z.object({
+        positionId: z.string().optional(),
+        targetHealthFactor: z.number().gt(1).optional(),
+        targetBufferPercent: z.number().gt(0).optional(),
+    }),
+    handler(call, ctx) {
+        console.log("[planRemediation] Action called");
+
+        if (!ctx || !ctx.agentMemory) {
+            console.error("[planRemediation] ERROR: Context or agentMemory is undefined");
+            return {
+                success: false,
+                error: "Context not available. Please ensure the liquidation-monitor context is activated.",
+            };
+        }
+
+        const agentMemory = ctx.agentMemory as PositionMemory;
+
+        const positionId = (call as any).positionId || (call as any).data?.positionId;
+        const targetHealthFactorArg = (call as any).targetHealthFactor || (call as any).data?.targetHealthFactor;
+        const targetBufferPercent = (call as any).targetBufferPercent || (call as any).data?.targetBufferPercent;
+
+        const targetHealthFactor = resolveTargetHealthFactor(agentMemory, targetHealthFactorArg, targetBufferPercent);
+
+        const candidates = positionId
+            ? agentMemory.positions.filter((pos) => pos.id === positionId)
+            : agentMemory.positions.filter((pos) => {
+                if (pos.unpriced || pos.debtValue <= 0) return false;
+                const risk = getPositionRisk(pos, getPositionHealthFactor(pos));
+                return 1 + risk.bufferPercent / 100 < targetHealthFactor;
+            });
+
+        if (agentMemory.positions.length === 0) {
+            return { success: false, error: "No positions found. Positions need to be discovered first." };
+        }
+        if (positionId && candidates.length === 0) {
+            return { success: false, error: `Position ${positionId} not found` };
+        }
+
+        const unpriced = candidates.find((pos) => pos.unpriced);
+        if (unpriced) {
+            return { success: false, error: `Position ${unpriced.id} couldn't be priced (${unpriced.unpriced!.reason}), so no remediation can be planned` };
+        }
+
+        const plans = candidates.map((pos) => {
+            const plan = planRemediation(pos, targetHealthFactor);
+            return {
+                ...plan,
+                protocolId: pos.protocolId,
+                chainId: pos.chainId,
+                options: plan.options.map((option) => ({ ...option, description: describeOption(option) })),
+                cheapest: plan.options[0] ? describeOption(plan.options[0]) : null,
+            };
+        });
+
+        const needingAction = plans.filter((plan) => !plan.alreadyAtTarget);
+
+        return {
+            success: true,
+            targetHealthFactor,
+            targetBufferPercent: (targetHealthFactor - 1) * 100,
+            plans,
+            message: needingAction.length === 0
+                ? `✅ No position is below health factor ${targetHealthFactor.toFixed(3)}; nothing to do`
+                : needingAction
+                    .map((plan) => `${plan.positionId}: ${plan.cheapest ?? "no option found"}`)
+                    .join("\n"),
+        };
+    },
+});
+
+/**
+ * Action to encode the transactions for a remediation plan, ready to sign but never signed
+ * Each option becomes a batch (approvals, then supply / repay) next to the health factor it reaches
+ */
+export const buildRemediationTransactionsAction = action({
+    name: "buildRemediationTransactions",
+    description: `Builds ready-to-sign (never signed or sent) transactions for a remediation plan on ${getTransactionProtocolIds().join(" or ")}: exact ERC-20 approvals, then Aave supply/repay or the Curve controller's add_collateral/repay, crediting the monitored wallet. Each option from planRemediation becomes one batch with its resulting health factor. Pass positionId, optionally targetHealthFactor or targetBufferPercent, option (add-collateral, repay-debt or mixed; default all), asset to only use one token, format ("safe" for a Safe Transaction Builder JSON batch, default, or "raw" calldata), and sender if someone other than the wallet pays.`,
+    schema: z.object({
+        positionId: z.string(),
+        targetHealthFactor: z.number().gt(1).optional(),
+        targetBufferPercent: z.number().gt(0).optional(),
+        option: z.enum(["add-collateral", "repay-debt", "mixed"]).optional(),
+        asset: z.string().optional(),
+        format: z.enum(["safe", "raw"]).optional(),
+        sender: walletAddressSchema("Sender").optional(),
+    }),
+    handler: async (call, ctx) => {
+        console.log("[buildRemediationTransactions] Action called");
+
+        if (!ctx || !ctx.agentMemory) {
+            console.error("[buildRemediationTransactions] ERROR: Context or agentMemory is undefined");
+            return {
+                success: false,
+                error: "Context not available. Please ensure the liquidation-monitor context is activated.",
+            };
+        }
+
+        const agentMemory = ctx.agentMemory as PositionMemory;
+
+        const positionId = (call as any).positionId || (call as any).data?.positionId;
+        const targetHealthFactorArg = (call as any).targetHealthFactor || (call as any).data?.targetHealthFactor;
+        const targetBufferPercent = (call as any).targetBufferPercent || (call as any).data?.targetBufferPercent;
+        const optionKind = (call as any).option || (call as any).data?.option;
+        const asset: string | undefined = (call as any).asset || (call as any).data?.asset;
+        const format = (call as any).format || (call as any).data?.format || "safe";
+        const senderArg = (call as any).sender || (call as any).data?.sender;
+
+        const position = agentMemory.positions.find((pos) => pos.id === positionId);
+        if (!position) {
+            return { success: false, error: `Position ${positionId} not found` };
+        }
+        if (position.unpriced) {
+            return { success: false, error: `Position ${position.id} couldn't be priced (${position.unpriced.reason}), so no remediation can be planned` };
+        }
+
+        const targetHealthFactor = resolveTargetHealthFactor(agentMemory, targetHealthFactorArg, targetBufferPercent);
+        const plan = planRemediation(position, targetHealthFactor);
+
+        if (plan.alreadyAtTarget) {
+            return {
+                success: true,
+                positionId: position.id,
+                healthFactor: plan.healthFactor,
+                targetHealthFactor,
+                batches: [],
+                message: `✅ ${position.id} is already at health factor ${plan.healthFactor.toFixed(3)}, above the ${targetHealthFactor.toFixed(3)} target; no transactions needed`,
+            };
+        }
+
+        const options = selectOptions(plan, optionKind, asset);
+        if (options.length === 0) {
+            return {
+                success: false,
+                error: `No ${[optionKind, "option"].filter(Boolean).join(" ")}${asset ? ` in ${asset}` : ""} reaches health factor ${targetHealthFactor.toFixed(3)}`,
+                availableOptions: plan.options.map(describeOption),
+                notes: plan.notes,
+            };
+        }
+
+        const wallet = getAddress(agentMemory.wallet);
+        const sender = senderArg ? getAddress(senderArg) : wallet;
+
+        try {
+            const batches = [];
+            for (const option of options) {
+                const transactions = await buildRemediationTransactions(position, option, wallet, sender);
+                const description = `${describeOption(option)} → health factor ${option.resultingHealthFactor.toFixed(4)}`;
+                batches.push({
+                    kind: option.kind,
+                    description,
+                    capitalUsd: option.capitalUsd,
+                    resultingHealthFactor: option.resultingHealthFactor,
+                    ...(format === "raw"
+                        ? { transactions: transactions.map((tx) => ({ ...tx, chainId: position.chainId, from: sender })) }
+                        : { safeBatch: toSafeTransactionBatch(position.chainId, sender, `Remediate ${position.id}`, description, transactions), steps: transactions.map((tx) => tx.description) }),
+                });
+            }
+
+            return {
+                success: true,
+                positionId: position.id,
+                chainId: position.chainId,
+                healthFactor: plan.healthFactor,
+                targetHealthFactor,
+                sender,
+                format,
+                batches,
+                notes: plan.notes,
+                message: `Built ${batches.length} unsigned batch(es) for ${position.id}, cheapest first: ${batches[0]!.description}. Review before signing; nothing has been signed or sent.`,
+            };
+        } catch (error) {
+            if (error instanceof UnsupportedRemediationError) {
+                return { success: false, error: error.message, supportedProtocols: getTransactionProtocolIds() };
+            }
+            throw error;
+        }
+    },
+});
+
+/**
+ * Action to verify remediation transactions on a local fork before recommending them
+ * Catches what the estimate can't see: interest accrued since the last read, isolation mode, paused reserves
+ */
+export const dryRunRemediationAction = action({
+    name: "dryRunRemediation",
+    description: `Verifies remediation transactions on a local Anvil/Hardhat fork (FORK_RPC_URL, default ${FORK_CONFIG.rpcUrl}) before recommending them: impersonates the sender, replays the approvals and supply/repay/add_collateral calls from buildRemediationTransactions, then re-reads Aave getUserAccountData or the Curve controller health(). Reports the real health factor before and after, and any revert reason, per option; the cheapest option that succeeds and reaches the target is recommended. The fork is reset after each run. Pass positionId, optionally targetHealthFactor or targetBufferPercent, option, asset, sender (must hold the tokens on the fork) and forkRpcUrl.`,
+    schema: z.object({
+        positionId: z.string(),
+        targetHealthFactor: z.number().gt(1).optional(),
+        targetBufferPercent: z.number().gt(0).optional(),
+        option: z.enum(["add-collateral", "repay-debt", "mixed"]).optional(),
+        asset: z.string().optional(),
+        sender: walletAddressSchema("Sender").optional(),
+        forkRpcUrl: z.string().url().optional(),
+    }),
+    handler: async (call, ctx) => {
+        console.log("[dryRunRemediation] Action called");
+
+        if (!ctx || !ctx.agentMemory) {
+            console.error("[dryRunRemediation] ERROR: Context or agentMemory is undefined");
+            return {
+                success: false,
+                error: "Context not available. Please ensure the liquidation-monitor context is activated.",
+            };
+        }
+
+        const agentMemory = ctx.agentMemory as PositionMemory;
+
+        const positionId = (call as any).positionId || (call as any).data?.positionId;
+        const targetHealthFactorArg = (call as any).targetHealthFactor || (call as any).data?.targetHealthFactor;
+        const targetBufferPercent = (call as any).targetBufferPercent || (call as any).data?.targetBufferPercent;
+        const optionKind = (call as any).option || (call as any).data?.option;
+        const asset: string | undefined = (call as any).asset || (call as any).data?.asset;
+        const senderArg = (call as any).sender || (call as any).data?.sender;
+        const forkRpcUrl = (call as any).forkRpcUrl || (call as any).data?.forkRpcUrl || FORK_CONFIG.rpcUrl;
+
+        const position = agentMemory.positions.find((pos) => pos.id === positionId);
+        if (!position) {
+            return { success: false, error: `Position ${positionId} not found` };
+        }
+        if (position.unpriced) {
+            return { success: false, error: `Position ${position.id} couldn't be priced (${position.unpriced.reason}), so no remediation can be planned` };
+        }
+
+        const targetHealthFactor = resolveTargetHealthFactor(agentMemory, targetHealthFactorArg, targetBufferPercent);
+        const plan = planRemediation(position, targetHealthFactor);
+        const options = selectOptions(plan, optionKind, asset);
+
+        if (plan.alreadyAtTarget || options.length === 0) {
+            return {
+                success: false,
+                error: plan.alreadyAtTarget
+                    ? `${position.id} is already above the ${targetHealthFactor.toFixed(3)} target; nothing to verify`
+                    : "No remediation option matches",
+                availableOptions: plan.options.map(describeOption),
+                notes: plan.notes,
+            };
+        }
+
+        const wallet = getAddress(agentMemory.wallet);
+        const sender = senderArg ? getAddress(senderArg) : wallet;
+
+        try {
+            const results = [];
+            for (const option of options) {
+                // Approvals are always included: the fork's allowances may differ from the live chain's
+                const transactions = await buildRemediationTransactions(position, option, wallet, sender, false);
+                const dryRun = await dryRunTransactions(position, transactions, wallet, sender, forkRpcUrl);
+                results.push({
+                    kind: option.kind,
+                    description: describeOption(option),
+                    capitalUsd: option.capitalUsd,
+                    estimatedHealthFactor: option.resultingHealthFactor,
+                    verifiedHealthFactor: dryRun.healthFactorAfter,
+                    reachesTarget: dryRun.success && dryRun.healthFactorAfter !== null && dryRun.healthFactorAfter >= targetHealthFactor,
+                    ...dryRun,
+                    transactions,
+                });
+            }
+
+            const recommended = results.find((result) => result.reachesTarget);
+            const healthFactorOnFork = results.find((result) => result.healthFactorBefore !== null)?.healthFactorBefore ?? null;
+
+            return {
+                success: true,
+                positionId: position.id,
+                forkRpcUrl,
+                sender,
+                targetHealthFactor,
+                estimatedHealthFactor: plan.healthFactor,
+                healthFactorOnFork,
+                results,
+                recommended: recommended?.description ?? null,
+                message: recommended
+                    ? `✅ Verified on the fork: ${recommended.description} takes ${position.id} to health factor ${recommended.verifiedHealthFactor!.toFixed(4)} (target ${targetHealthFactor.toFixed(3)}). Nothing was signed on the live chain.`
+                    : `⚠️ No option reached health factor ${targetHealthFactor.toFixed(3)} on the fork: ${results.map((result) => `${result.kind}: ${result.revertReason ?? `HF ${result.verifiedHealthFactor?.toFixed(4) ?? "unknown"}`}`).join("; ")}`,
+            };
+        } catch (error) {
+            if (error instanceof ForkUnavailableError) {
+                return { success: false, error: error.message };
+            }
+            if (error instanceof UnsupportedRemediationError) {
+                return { success: false, error: error.message, supportedProtocols: getTransactionProtocolIds() };
+            }
+            throw error;
+        }
+    },
+});
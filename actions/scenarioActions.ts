@@ -0,0 +1,110 @@
+import { action } from "@daydreamsai/core";
+import { z } from "zod";
+import type { PositionMemory } from "../types/memory.js";
+import {
+    InvalidScenarioError,
+    parseScenario,
+    SCENARIO_PRESETS,
+    shockMatchesPositions,
+    simulatePositions,
+    type PriceShock,
+} from "../utils/scenarios.js";
+
+const formatShocks = (shocks: PriceShock[]) =>
+    shocks.map((shock) => `${shock.asset} ${shock.changePercent > 0 ? "+" : ""}${shock.changePercent}%`).join(", ");
+
+/**
+ * Action to stress-test the stored positions against price shocks
+ * Reports the shocked health factors, liquidation prices and buffers, and the first shock level
+ * at which each position breaches the alert threshold or becomes liquidatable
+ */
+export const simulateScenarioAction = action({
+    name: "simulateScenario",
+    description: `Stress-tests the wallet's positions against price shocks, e.g. "what if ETH drops 30% and stETH depegs 5%?". Pass scenario as text ("ETH -30%, stETH depeg 5%", "stables depeg 3%") or a preset name (${Object.keys(SCENARIO_PRESETS).join(", ")}), and/or shocks as [{asset, changePercent}]. ETH and BTC shocks also move their wrapped and staked tokens; "stables" and "LSTs" shock whole groups. Recomputes health factors, liquidation prices and buffers with the same math as monitorPositions, reports which positions would breach the alert threshold or be liquidated, and the first fraction of the scenario at which each one fails. Does not change the monitoring state. Optionally pass positionId and alertThreshold.`,
+    schema: z.object({
+        scenario: z.string().optional(),
+        shocks: z.array(z.object({
+            asset: z.string(),
+            changePercent: z.number().min(-100),
+        })).optional(),
+        positionId: z.string().optional(),
+        alertThreshold: z.number().min(0).max(100).optional(),
+    }),
+    handler(call, ctx) {
+        console.log("[simulateScenario] Action called");
+
+        if (!ctx || !ctx.agentMemory) {
+            console.error("[simulateScenario] ERROR: Context or agentMemory is undefined");
+            return {
+                success: false,
+                error: "Context not available. Please ensure the liquidation-monitor context is activated.",
+            };
+        }
+
+        const agentMemory = ctx.agentMemory as PositionMemory;
+
+        const scenario: string | undefined = (call as any).scenario || (call as any).data?.scenario;
+        const explicitShocks: PriceShock[] = (call as any).shocks || (call as any).data?.shocks || [];
+        const positionId = (call as any).positionId || (call as any).data?.positionId;
+        const threshold = (call as any).alertThreshold || (call as any).data?.alertThreshold || agentMemory.monitoringState.alertThreshold;
+
+        let shocks: PriceShock[];
+        try {
+            shocks = [...(scenario ? parseScenario(scenario) : []), ...explicitShocks];
+        } catch (error) {
+            if (error instanceof InvalidScenarioError) {
+                return { success: false, error: error.message, presets: SCENARIO_PRESETS };
+            }
+            throw error;
+        }
+
+        if (shocks.length === 0) {
+            return {
+                success: false,
+                error: "No price shocks given. Pass a scenario (e.g. \"ETH -30%\") or shocks.",
+                presets: SCENARIO_PRESETS,
+            };
+        }
+
+        const positions = positionId
+            ? agentMemory.positions.filter((pos) => pos.id === positionId)
+            : agentMemory.positions;
+
+        if (positions.length === 0) {
+            return {
+                success: false,
+                error: positionId ? `Position ${positionId} not found` : "No positions found. Positions need to be discovered first.",
+            };
+        }
+
+        // Unpriced positions have no health factor to shock
+        const priced = positions.filter((pos) => !pos.unpriced);
+        const unpricedPositions = positions.filter((pos) => pos.unpriced).map((pos) => pos.id);
+        const unmatchedShocks = shocks.filter((shock) => !shockMatchesPositions(shock, priced));
+
+        const results = simulatePositions(priced, shocks, threshold);
+        const breached = results.filter((result) => result.shocked.breachesThreshold);
+        const liquidated = results.filter((result) => result.shocked.liquidatable);
+
+        return {
+            success: true,
+            scenario: formatShocks(shocks),
+            shocks,
+            threshold,
+            positions: results.map((result) => ({
+                ...result,
+                firstBreach: result.firstBreach && { ...result.firstBreach, description: formatShocks(result.firstBreach.shocks) },
+                firstLiquidation: result.firstLiquidation && { ...result.firstLiquidation, description: formatShocks(result.firstLiquidation.shocks) },
+            })),
+            breachedPositions: breached.map((result) => result.positionId),
+            liquidatedPositions: liquidated.map((result) => result.positionId),
+            ...(unpricedPositions.length > 0 && { unpricedPositions }),
+            ...(unmatchedShocks.length > 0 && { unmatchedShocks }),
+            message: liquidated.length > 0
+                ? `🚨 ${formatShocks(shocks)}: ${liquidated.length} position(s) liquidated, ${breached.length} below the ${threshold}% buffer threshold`
+                : breached.length > 0
+                    ? `⚠️ ${formatShocks(shocks)}: ${breached.length} position(s) below the ${threshold}% buffer threshold, none liquidated`
+                    : `✅ ${formatShocks(shocks)}: all ${results.length} position(s) stay above the ${threshold}% buffer threshold`,
+        };
+    },
+});
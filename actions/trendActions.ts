@@ -0,0 +1,90 @@
+import { action } from "@daydreamsai/core";
+import { z } from "zod";
+import type { PositionMemory } from "../types/memory.js";
+import { HISTORY_CONFIG } from "../utils/config.js";
+import { analyzeHealthTrend, getHealthHistory, getTrendArrow } from "../utils/history.js";
+
+const formatHours = (hours: number | null) =>
+    hours === null ? null : hours === 0 ? "now" : hours < 48 ? `${hours.toFixed(1)}h` : `${(hours / 24).toFixed(1)}d`;
+
+/**
+ * Action to analyze health factor trends from the recorded history
+ * Projects when each position crosses the alert threshold and HF 1.0 at its current trajectory
+ */
+export const analyzeHealthTrendAction = action({
+    name: "analyzeHealthTrend",
+    description: "Analyzes how each position's health factor is moving, using the history recorded by monitorPositions and the background watcher. Reports the trend (improving, stable, deteriorating), the health factor and buffer change per hour, collateral price and debt value changes, and the projected time until the position crosses the alert threshold and health factor 1.0 at the current rate. Optionally pass positionId, windowHours (default 24) and includeSamples to return the raw history.",
+    schema: z.object({
+        positionId: z.string().optional(),
+        windowHours: z.number().positive().optional(),
+        includeSamples: z.boolean().optional(),
+    }),
+    handler(call, ctx) {
+        console.log("[analyzeHealthTrend] Action called");
+
+        if (!ctx || !ctx.agentMemory) {
+            console.error("[analyzeHealthTrend] ERROR: Context or agentMemory is undefined");
+            return {
+                success: false,
+                error: "Context not available. Please ensure the liquidation-monitor context is activated.",
+            };
+        }
+
+        const agentMemory = ctx.agentMemory as PositionMemory;
+
+        const positionId = (call as any).positionId || (call as any).data?.positionId;
+        const windowHours = (call as any).windowHours || (call as any).data?.windowHours || HISTORY_CONFIG.trendWindowHours;
+        const includeSamples = (call as any).includeSamples || (call as any).data?.includeSamples;
+
+        const positions = positionId
+            ? agentMemory.positions.filter((pos) => pos.id === positionId)
+            : agentMemory.positions;
+
+        if (positions.length === 0) {
+            return {
+                success: false,
+                error: positionId ? `Position ${positionId} not found` : "No positions found. Positions need to be discovered first.",
+            };
+        }
+
+        const threshold = agentMemory.monitoringState.alertThreshold;
+        const now = Date.now();
+
+        const trends = positions.map((pos) => {
+            const samples = getHealthHistory(agentMemory, pos.id);
+            const analysis = analyzeHealthTrend(samples, threshold, windowHours, now);
+            const projectedAt = (hours: number | null) =>
+                hours === null ? null : new Date(now + hours * 3600 * 1000).toISOString();
+
+            return {
+                positionId: pos.id,
+                protocolId: pos.protocolId,
+                chainId: pos.chainId,
+                collateralAsset: pos.collateralAsset,
+                debtAsset: pos.debtAsset,
+                arrow: getTrendArrow(analysis.trend),
+                ...analysis,
+                timeToThreshold: formatHours(analysis.hoursToThreshold),
+                projectedThresholdAt: projectedAt(analysis.hoursToThreshold),
+                timeToLiquidation: formatHours(analysis.hoursToLiquidation),
+                projectedLiquidationAt: projectedAt(analysis.hoursToLiquidation),
+                ...(includeSamples && { history: samples }),
+            };
+        });
+
+        const deteriorating = trends.filter((trend) => trend.trend === "deteriorating");
+        const unknown = trends.filter((trend) => trend.trend === "unknown");
+
+        return {
+            success: true,
+            threshold,
+            windowHours,
+            trends,
+            message: deteriorating.length > 0
+                ? `↓ ${deteriorating.length} position(s) deteriorating over the last ${windowHours}h`
+                : unknown.length === trends.length
+                    ? "Not enough history yet; run monitorPositions or startWatch to record more checks"
+                    : `No positions deteriorating over the last ${windowHours}h`,
+        };
+    },
+});
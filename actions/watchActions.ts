@@ -0,0 +1,122 @@
+import { action } from "@daydreamsai/core";
+import { z } from "zod";
+import type { PositionMemory } from "../types/memory.js";
+import { WATCH_CONFIG } from "../utils/config.js";
+import { createContextWatchTarget, getWatchStatus, startWatching, stopWatching } from "../utils/watcher.js";
+
+/**
+ * Action to start background watching for the configured wallet
+ * The scheduler re-runs discovery and monitorPositions' checks on a timer, without the LLM
+ */
+export const startWatchAction = action({
+    name: "startWatch",
+    description: "Starts background watching for the configured wallet: positions are re-discovered and re-checked (health factors, liquidation prices, buffers, alert threshold) on a schedule without a chat prompt. The interval tightens automatically as buffers shrink. Optionally pass intervalSeconds (default 300). Use initializeMonitoring first.",
+    schema: z.object({
+        intervalSeconds: z.number().min(1).optional(), // Base interval; defaults to WATCH_INTERVAL_SECONDS
+    }),
+    handler(call, ctx, agent) {
+        console.log("[startWatch] Action called");
+
+        if (!ctx || !ctx.agentMemory) {
+            console.error("[startWatch] ERROR: Context or agentMemory is undefined");
+            return {
+                success: false,
+                error: "Context not available. Please ensure the liquidation-monitor context is activated.",
+            };
+        }
+
+        const agentMemory = ctx.agentMemory as PositionMemory;
+
+        if (!agentMemory.wallet || agentMemory.protocolIds.length === 0) {
+            return {
+                success: false,
+                error: "Monitoring not initialized. Use initializeMonitoring first.",
+            };
+        }
+
+        // Never poll faster than the scheduler's floor
+        const requestedInterval = (call as any).intervalSeconds || (call as any).data?.intervalSeconds || agentMemory.watch?.intervalSeconds || WATCH_CONFIG.intervalSeconds;
+        const intervalSeconds = Math.max(WATCH_CONFIG.minIntervalSeconds, requestedInterval);
+
+        agentMemory.watch = { enabled: true, intervalSeconds };
+        agentMemory.lastUpdated = Date.now();
+
+        const status = startWatching(createContextWatchTarget(agent, ctx.id, agentMemory.wallet, "action"), intervalSeconds);
+
+        return {
+            success: true,
+            status,
+            message: `Watching ${agentMemory.wallet} every ${intervalSeconds}s (tightens to ${WATCH_CONFIG.minIntervalSeconds}s as buffers approach the ${agentMemory.monitoringState.alertThreshold}% threshold)`,
+        };
+    },
+});
+
+/**
+ * Action to stop background watching for the configured wallet
+ */
+export const stopWatchAction = action({
+    name: "stopWatch",
+    description: "Stops background watching for the configured wallet. Positions are then only checked when monitorPositions is called.",
+    schema: z.object({}),
+    handler(call, ctx) {
+        console.log("[stopWatch] Action called");
+
+        if (!ctx || !ctx.agentMemory) {
+            console.error("[stopWatch] ERROR: Context or agentMemory is undefined");
+            return {
+                success: false,
+                error: "Context not available. Please ensure the liquidation-monitor context is activated.",
+            };
+        }
+
+        const agentMemory = ctx.agentMemory as PositionMemory;
+
+        if (!agentMemory.wallet) {
+            return {
+                success: false,
+                error: "Wallet not configured. Use initializeMonitoring first.",
+            };
+        }
+
+        agentMemory.watch = {
+            enabled: false,
+            intervalSeconds: agentMemory.watch?.intervalSeconds ?? WATCH_CONFIG.intervalSeconds,
+        };
+        agentMemory.lastUpdated = Date.now();
+
+        const wasWatching = stopWatching(agentMemory.wallet);
+
+        return {
+            success: true,
+            wasWatching,
+            message: wasWatching
+                ? `Stopped watching ${agentMemory.wallet}`
+                : `${agentMemory.wallet} was not being watched`,
+        };
+    },
+});
+
+/**
+ * Action to report the background watch scheduler's state
+ */
+export const getWatchStatusAction = action({
+    name: "getWatchStatus",
+    description: "Reports background watch status: which wallets are watched, their current (possibly tightened) interval, last and next check times, minimum buffer, whether the alert threshold was hit, and the contract event subscriptions with the latest event-triggered re-check. Pass allWallets: true to list every watched wallet instead of just the configured one.",
+    schema: z.object({
+        allWallets: z.boolean().optional(),
+    }),
+    handler(call, ctx) {
+        const allWallets = (call as any).allWallets || (call as any).data?.allWallets;
+        const wallet = (ctx?.agentMemory as PositionMemory | undefined)?.wallet;
+
+        const watches = getWatchStatus(allWallets ? undefined : wallet || undefined);
+
+        return {
+            success: true,
+            watches,
+            message: watches.length > 0
+                ? `${watches.length} wallet(s) watched`
+                : "No wallets are being watched",
+        };
+    },
+});
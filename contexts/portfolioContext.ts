@@ -0,0 +1,83 @@
+import { context, render, type AnyAgent } from "@daydreamsai/core";
+import { z } from "zod";
+import type { PortfolioMemory } from "../types/memory.js";
+import { createPortfolioMemory } from "../utils/memory.js";
+import { registerPortfolio } from "../utils/portfolio.js";
+import { getMonitoringStore } from "../utils/storage.js";
+
+const template = `
+Portfolio: {{name}}
+Wallets: {{wallets}}
+Protocols: {{protocols}}
+Alert Threshold: {{alertThreshold}}%
+Notifications: {{notifications}}
+`;
+
+/**
+ * Context for a named group of wallets monitored together
+ * Each wallet is monitored in its own liquidation-monitor context; this one holds the grouping
+ */
+export const portfolioContext = context<PortfolioMemory>({
+    type: "liquidation-portfolio",
+
+    schema: z.object({
+        name: z.string(),
+    }),
+
+    key({ name }: { name: string }) {
+        return name.toLowerCase();
+    },
+
+    instructions: "Use this context when the user refers to a named portfolio (a group of wallets), e.g. 'the treasury portfolio'. Use createPortfolio to set one up and getPortfolioSummary to report on it.",
+
+    create(state) {
+        return createPortfolioMemory(state.args.name || "");
+    },
+
+    async load(id) {
+        const store = await getMonitoringStore();
+        const memory = await store.load<PortfolioMemory>(id);
+        if (memory) registerPortfolio(memory);
+        return memory;
+    },
+
+    async save(state) {
+        registerPortfolio(state.memory);
+        const store = await getMonitoringStore();
+        await store.save(state.id, state.memory);
+    },
+
+    render({ memory }: { memory: PortfolioMemory }) {
+        return render(template, {
+            name: memory.name || "Not set",
+            wallets: memory.wallets.length === 0
+                ? "None"
+                : `${memory.wallets.length}\n${memory.wallets.map((wallet) => `  - ${wallet}`).join("\n")}`,
+            protocols: memory.protocolIds.join(", ") || "None",
+            alertThreshold: String(memory.alertThreshold),
+            notifications: memory.notifications?.length
+                ? `${memory.notifications.length} destination(s) for rolled-up alerts`
+                : "None",
+        });
+    },
+});
+
+/**
+ * Re-activate every stored portfolio after a restart
+ * Returns the restored portfolio names
+ */
+export async function restorePortfolioContexts(agent: AnyAgent): Promise<string[]> {
+    const store = await getMonitoringStore();
+    const restored: string[] = [];
+
+    for (const { id, memory } of await store.list<PortfolioMemory>(portfolioContext.type)) {
+        try {
+            await agent.getContext({ context: portfolioContext, args: { name: memory.name } });
+            restored.push(memory.name);
+        } catch (error) {
+            console.error(`[Storage] Failed to restore ${id}:`, error);
+        }
+    }
+
+    return restored;
+}
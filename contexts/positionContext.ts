@@ -1,10 +1,17 @@
-import { context, render } from "@daydreamsai/core";
+import { context, render, type AnyAgent } from "@daydreamsai/core";
 import { z } from "zod";
 import type { PositionMemory } from "../types/memory.js";
+import { NETWORKS } from "../utils/config.js";
+import { getNetwork } from "../utils/chains.js";
+import { analyzeHealthTrend, getHealthHistory, getTrendArrow } from "../utils/history.js";
+import { summarizeLiquidations } from "../utils/liquidations.js";
+import { createPositionMemory } from "../utils/memory.js";
+import { getMonitoringStore } from "../utils/storage.js";
 
 const template = `
 Wallet: {{wallet}}
 Protocols: {{protocols}}
+Chains: {{chains}}
 
 Positions: {{positionsCount}}
 
@@ -13,6 +20,7 @@ Monitoring Status:
 
 Last Checked: {{lastChecked}}
 Alert Status: {{alertStatus}}
+Liquidation History: {{liquidationHistory}}
 `;
 
 /**
@@ -34,20 +42,18 @@ export const positionContext = context<PositionMemory>({
     instructions: "When the user mentions a wallet address (0x... format), automatically extract it and use it to activate this context. Always use the wallet address from the user's message to identify which monitoring context to use.",
 
     create(state) {
-        return {
-            wallet: state.args.wallet || "",
-            protocolIds: [],
-            positions: [],
-            monitoringState: {
-                healthFactors: [],
-                liquidationPrices: [],
-                alertThreshold: 15,
-                alertThresholdHit: false,
-                lastChecked: 0,
-            },
-            checkedAt: 0,
-            lastUpdated: Date.now(),
-        };
+        return createPositionMemory(state.args.wallet || "");
+    },
+
+    // Memory lives in the configured store (STORAGE_BACKEND) so it survives restarts
+    async load(id) {
+        const store = await getMonitoringStore();
+        return await store.load<PositionMemory>(id);
+    },
+
+    async save(state) {
+        const store = await getMonitoringStore();
+        await store.save(state.id, state.memory);
     },
 
     render({ memory }: { memory: PositionMemory }) {
@@ -62,7 +68,18 @@ export const positionContext = context<PositionMemory>({
                     const hf = memory.monitoringState.healthFactors.find(
                         (hf) => hf.positionId === pos.id
                     );
-                    return `  - ${pos.id}: ${pos.collateralAsset}/${pos.debtAsset} (HF: ${hf?.healthFactor?.toFixed(2) || "N/A"})`;
+                    const softLiquidation = pos.llamma?.softLiquidation ? " ⚠️ IN SOFT LIQUIDATION" : "";
+                    const nextOsm = pos.maker?.nextHealthFactor != null ? ` (next OSM HF: ${pos.maker.nextHealthFactor.toFixed(2)})` : "";
+                    const recoveryMode = pos.liquity?.recoveryMode
+                        ? " ⚠️ RECOVERY MODE"
+                        : pos.liquity?.liquidatableInRecoveryMode ? " ⚠️ LIQUIDATABLE IN RECOVERY MODE" : "";
+                    const unpriced = pos.unpriced ? ` ❓ UNPRICED (${pos.unpriced.symbols.join(", ")})` : "";
+                    const alert = memory.monitoringState.alerts?.find((entry) => entry.positionId === pos.id);
+                    const severity = alert ? ` [${alert.severity.toUpperCase()}]` : "";
+                    const { trend } = analyzeHealthTrend(getHealthHistory(memory, pos.id), memory.monitoringState.alertThreshold);
+                    const arrow = !pos.unpriced && trend !== "unknown" ? ` ${getTrendArrow(trend)}` : "";
+                    const chain = getNetwork(pos.chainId)?.name ?? `chain ${pos.chainId}`;
+                    return `  - ${pos.id}: ${pos.collateralAsset}/${pos.debtAsset} on ${chain} (HF: ${(!pos.unpriced && hf?.healthFactor?.toFixed(2)) || "N/A"}${arrow})${nextOsm}${softLiquidation}${recoveryMode}${unpriced}${severity}`;
                 })
                 .join("\n");
 
@@ -78,15 +95,50 @@ export const positionContext = context<PositionMemory>({
             ? "⚠️ WARNING: Alert threshold hit!"
             : "✅ Normal";
 
+        const liquidations = summarizeLiquidations(memory.liquidationHistory);
+        const lastLiquidation = liquidations.lastAt !== null ? `, last on ${new Date(liquidations.lastAt).toLocaleDateString()}` : "";
+        const liquidationHistory = !memory.liquidationHistory
+            ? "Not scanned (getLiquidationHistory)"
+            : liquidations.count === 0
+                ? "No liquidations found"
+                : `${liquidations.count} liquidation(s)${lastLiquidation}, $${liquidations.bonusPaidUsd.toFixed(2)} paid in bonuses`;
+
         return render(template, {
             wallet: memory.wallet || "Not set",
             protocols: protocolsList,
+            chains: (memory.chainIds || [NETWORKS.MAINNET.chainId])
+                .map((chainId) => getNetwork(chainId)?.name ?? `chain ${chainId}`)
+                .join(", "),
             positionsCount: memory.positions.length === 0
                 ? "None"
                 : `${memory.positions.length} position(s)\n${positionsList}`,
             monitoringStatus,
             lastChecked,
             alertStatus,
+            liquidationHistory,
         });
     },
-});
\ No newline at end of file
+});
+/**
+ * Re-activate every stored wallet context after a restart so the watch scheduler picks them up again
+ * Returns the restored wallets
+ */
+export async function restorePositionContexts(agent: AnyAgent): Promise<string[]> {
+    const store = await getMonitoringStore();
+    const restored: string[] = [];
+
+    for (const { id, memory } of await store.list<PositionMemory>(positionContext.type)) {
+        // The id is "<type>:<key>" and the key is the wallet the context was opened with,
+        // which can differ from memory.wallet after updateWallet
+        const key = id.slice(positionContext.type.length + 1);
+        if (!key || !memory.wallet) continue;
+        try {
+            await agent.getContext({ context: positionContext, args: { wallet: key } });
+            restored.push(memory.wallet);
+        } catch (error) {
+            console.error(`[Storage] Failed to restore ${id}:`, error);
+        }
+    }
+
+    return restored;
+}
@@ -1,7 +1,12 @@
 import { createDreams } from "@daydreamsai/core";
 import { cliExtension } from "@daydreamsai/cli";
 import { groq } from "./config/model.js";
-import { positionContext } from "./contexts/positionContext.js";
+import { positionContext, restorePositionContexts } from "./contexts/positionContext.js";
+import { portfolioContext, restorePortfolioContexts } from "./contexts/portfolioContext.js";
+import "./utils/adapters.js"; // Registers the protocol adapters
+import { API_CONFIG, WATCH_CONFIG } from "./utils/config.js";
+import { startWatchScheduler } from "./utils/watcher.js";
+import { startApiServer } from "./utils/api.js";
 import {
     initializeMonitoringAction,
     updateWalletAction,
@@ -16,6 +21,28 @@ import {
     checkAlertThresholdAction,
     monitorPositionsAction,
 } from "./actions/positionMonitoringActions.js";
+import { analyzeHealthTrendAction } from "./actions/trendActions.js";
+import { getLiquidationHistoryAction } from "./actions/liquidationActions.js";
+import { simulateScenarioAction } from "./actions/scenarioActions.js";
+import {
+    planRemediationAction,
+    buildRemediationTransactionsAction,
+    dryRunRemediationAction,
+} from "./actions/remediationActions.js";
+import {
+    startWatchAction,
+    stopWatchAction,
+    getWatchStatusAction,
+} from "./actions/watchActions.js";
+import {
+    configureNotificationsAction,
+    sendTestNotificationAction,
+} from "./actions/notificationActions.js";
+import {
+    createPortfolioAction,
+    updatePortfolioAction,
+    getPortfolioSummaryAction,
+} from "./actions/portfolioActions.js";
 
 /**
  * Main agent entry point
@@ -27,11 +54,19 @@ import {
  * - Calculate liquidation prices
  * - Track safety buffer percentages
  * - Alert when positions approach liquidation threshold
+ * - Stress-test positions against price shocks
+ * - Plan the collateral top-up or repayment that restores a target health factor
  * 
  * Usage:
  * 1. Initialize monitoring: Set wallet address and protocol IDs
  * 2. Discover positions: Fetch positions from lending protocols
  * 3. Monitor: Run checks to get health factors, liquidation prices, buffers, and alerts
+ * 4. Watch: Configured wallets are re-checked in the background on a schedule (WATCH_ENABLED=false to disable)
+ *    Wallets, positions, alert state and history are persisted (STORAGE_BACKEND) and resumed on restart
+ * 5. Notify: Alerts are pushed to each wallet's configured webhook, Telegram, Discord, Slack or email destinations
+ * 6. Portfolios: Group many wallets under a name for an aggregate summary and one rolled-up alert stream
+ * 7. History: Scan a wallet's past Aave and Curve liquidations and what they cost
+ * 8. API: With API_ENABLED=true and an API_TOKEN, dashboards and bots read and control monitoring over HTTP
  * 
  * When a user mentions a wallet address, automatically extract it and use it to set up monitoring.
  */
@@ -41,6 +76,7 @@ const agent = createDreams({
     extensions: [cliExtension],
     contexts: [
         positionContext,
+        portfolioContext,
     ],
     actions: [
         // Monitoring setup actions
@@ -58,9 +94,59 @@ const agent = createDreams({
         calculateBufferAction,
         checkAlertThresholdAction,
         monitorPositionsAction, // Main orchestration action
+        analyzeHealthTrendAction,
+        getLiquidationHistoryAction, // Past liquidations and their cost
+        simulateScenarioAction, // Price shock stress tests
+        planRemediationAction, // Top-up / repayment needed to reach a target health factor
+        buildRemediationTransactionsAction, // Unsigned Aave / Curve payloads for the plan
+        dryRunRemediationAction, // Verify the payloads on a local fork
+
+        // Background watch scheduler
+        startWatchAction,
+        stopWatchAction,
+        getWatchStatusAction,
+
+        // Alert notifications (webhook, Telegram, Discord, Slack, email)
+        configureNotificationsAction,
+        sendTestNotificationAction,
+
+        // Portfolios (groups of wallets)
+        createPortfolioAction,
+        updatePortfolioAction,
+        getPortfolioSummaryAction,
     ],
 });
 
 // Start the agent
 // The context will be activated based on wallet addresses in user messages
-agent.start();
+agent.start().then(async () => {
+    // Bring back the portfolios and wallets stored before the last restart
+    // Portfolios first, so alerts from the first background checks already roll up
+    const portfolios = await restorePortfolioContexts(agent).catch((error) => {
+        console.error("[Storage] Failed to restore portfolios:", error);
+        return [];
+    });
+    if (portfolios.length > 0) {
+        console.log(`[Storage] Restored ${portfolios.length} portfolio(s)`);
+    }
+
+    const restored = await restorePositionContexts(agent).catch((error) => {
+        console.error("[Storage] Failed to restore monitoring state:", error);
+        return [];
+    });
+    if (restored.length > 0) {
+        console.log(`[Storage] Restored monitoring for ${restored.length} wallet(s)`);
+    }
+
+    // Re-check every active liquidation-monitor context in the background, without the LLM
+    if (WATCH_CONFIG.enabled) {
+        startWatchScheduler(agent);
+    }
+
+    // JSON routes for dashboards and bots, served alongside the CLI
+    if (API_CONFIG.enabled) {
+        await startApiServer(agent).catch((error) => {
+            console.error("[API] Failed to start:", error);
+        });
+    }
+});
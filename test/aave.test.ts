@@ -0,0 +1,122 @@
+import { getAddress, type Address, type PublicClient } from "viem";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakeClient, revert, type ReadHandler } from "./fakeClient.js";
+
+const WALLET = getAddress("0x00000000000000000000000000000000000000a1");
+const WSTETH = getAddress("0x7f39C581F595B53c5cb19bD0b3f8dA6c935E2Ca0");
+const WETH = getAddress("0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2");
+const USDC = getAddress("0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48");
+const DATA_PROVIDER = getAddress("0x00000000000000000000000000000000000000d1");
+const ORACLE = getAddress("0x00000000000000000000000000000000000000e1");
+
+const WAD = 10n ** 18n;
+
+let client: PublicClient;
+
+vi.mock("../utils/chains.js", async (importOriginal) => ({
+    ...await importOriginal<typeof import("../utils/chains.js")>(),
+    getChainClient: () => client,
+}));
+
+let aave: typeof import("../utils/aave.js");
+
+beforeAll(async () => {
+    // Price every reserve with the fake Aave oracle
+    process.env.PRICE_PROVIDER_ORDER = "protocol";
+    process.env.PRICE_CACHE_TTL_SECONDS = "0";
+    aave = await import("../utils/aave.js");
+});
+
+/**
+ * A wstETH / WETH loop: 10 wstETH ($4,400 each) against 10 WETH ($4,000 each)
+ * wstETH's own liquidation threshold is 81%; its ETH-correlated E-mode category's is 95%
+ */
+function createLoopClient(healthFactor: bigint, eMode: Record<string, ReadHandler>): PublicClient {
+    const prices: Record<string, bigint> = { [WSTETH]: 4400n * 10n ** 8n, [WETH]: 4000n * 10n ** 8n, [USDC]: 10n ** 8n };
+    const balances: Record<string, [bigint, bigint, boolean]> = {
+        [WSTETH]: [10n * WAD, 0n, true],
+        [WETH]: [0n, 10n * WAD, false],
+        [USDC]: [0n, 0n, false],
+    };
+    const thresholds: Record<string, bigint> = { [WSTETH]: 8100n, [WETH]: 8300n, [USDC]: 7800n };
+
+    return createFakeClient({
+        getUserAccountData: () => [44_000n * 10n ** 8n, 40_000n * 10n ** 8n, 0n, eMode.getUserEMode!([], WALLET) ? 9500n : 8100n, 7800n, healthFactor],
+        getPoolDataProvider: () => DATA_PROVIDER,
+        getAllReservesTokens: () => [
+            { symbol: "wstETH", tokenAddress: WSTETH },
+            { symbol: "WETH", tokenAddress: WETH },
+            { symbol: "USDC", tokenAddress: USDC },
+        ],
+        getUserReserveData: ([asset]) => {
+            const [supplied, borrowed, collateral] = balances[asset as Address]!;
+            return [supplied, 0n, borrowed, 0n, 0n, 0n, 0n, 0, collateral];
+        },
+        getReserveConfigurationData: ([asset]) => [18n, 7800n, thresholds[asset as Address]!, 10500n, 1000n, true, true, false, true, false],
+        getPriceOracle: () => ORACLE,
+        BASE_CURRENCY_UNIT: () => 10n ** 8n,
+        getAssetsPrices: ([assets]) => (assets as Address[]).map((asset) => prices[asset]!),
+        ...eMode,
+    });
+}
+
+async function fetchAccount() {
+    const { positions } = await aave.aaveAdapter.fetchPositions(WALLET, { chainId: 1 });
+    expect(positions).toHaveLength(1);
+    return positions[0]!;
+}
+
+describe("Aave V3 health factor", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "log").mockImplementation(() => undefined);
+        vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    });
+
+    it("uses each reserve's own threshold outside E-mode", async () => {
+        client = createLoopClient(891n * 10n ** 15n, { getUserEMode: () => 0n });
+        const position = await fetchAccount();
+
+        expect(position.collateralLegs?.[0]?.liquidationThreshold).toBeCloseTo(0.81);
+        expect(aave.aaveAdapter.getHealthFactor(position)).toBeCloseTo(44_000 * 0.81 / 40_000, 6);
+    });
+
+    it("applies the E-mode category threshold to eligible collateral (V3.2+ bitmap)", async () => {
+        client = createLoopClient(1045n * 10n ** 15n, {
+            getUserEMode: () => 1n,
+            getEModeCategoryCollateralConfig: () => ({ ltv: 9300, liquidationThreshold: 9500, liquidationBonus: 10100 }),
+            // Reserve IDs 0 (WETH) and 1 (wstETH)
+            getEModeCategoryCollateralBitmap: () => 0b11n,
+            getReserveAddressById: ([id]) => [WETH, WSTETH][id as number],
+        });
+        const position = await fetchAccount();
+
+        expect(position.collateralLegs?.[0]?.liquidationThreshold).toBeCloseTo(0.95);
+        // Matches the Pool's 1.045 instead of flagging the loop as liquidatable
+        expect(aave.aaveAdapter.getHealthFactor(position)).toBeCloseTo(1.045, 6);
+        expect(console.warn).not.toHaveBeenCalled();
+    });
+
+    it("falls back to the category data of pools before V3.2", async () => {
+        client = createLoopClient(1045n * 10n ** 15n, {
+            getUserEMode: () => 1n,
+            getEModeCategoryCollateralConfig: () => { throw revert("getEModeCategoryCollateralConfig"); },
+            getEModeCategoryCollateralBitmap: () => { throw revert("getEModeCategoryCollateralBitmap"); },
+            getEModeCategoryData: () => ({ ltv: 9300, liquidationThreshold: 9500, liquidationBonus: 10100, priceSource: WETH, label: "ETH correlated" }),
+            getReserveEModeCategory: ([asset]) => (asset === USDC ? 0n : 1n),
+        });
+        const position = await fetchAccount();
+
+        expect(aave.aaveAdapter.getHealthFactor(position)).toBeCloseTo(1.045, 6);
+    });
+
+    it("fails the fetch when the E-mode read fails for another reason", async () => {
+        client = createLoopClient(1045n * 10n ** 15n, {
+            getUserEMode: () => 1n,
+            getEModeCategoryCollateralConfig: () => { throw new Error("RPC timeout"); },
+            getEModeCategoryCollateralBitmap: () => 0n,
+        });
+        vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+        await expect(aave.aaveAdapter.fetchPositions(WALLET, { chainId: 1 })).rejects.toThrow("RPC timeout");
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import type { Position } from "../types/memory.js";
+import { getAlertSeverity, updateAlertStates } from "../utils/alerts.js";
+import { ALERT_CONFIG } from "../utils/config.js";
+import { createPositionMemory } from "../utils/memory.js";
+import type { PositionRisk } from "../utils/monitoring.js";
+
+// Tiers at the default margins: info below 20%, warning below 15%, critical below 5%, liquidatable below 0%
+const THRESHOLD = 15;
+const HOUR = 3600 * 1000;
+
+function risk(bufferPercent: number, positionId = "position"): PositionRisk {
+    return { positionId, bufferPercent, healthFactor: 1 + bufferPercent / 100 };
+}
+
+function memoryHolding(...ids: string[]) {
+    const memory = createPositionMemory("0x0000000000000000000000000000000000000001");
+    memory.positions = ids.map((id) => ({ id } as Position));
+    return memory;
+}
+
+describe("alert severity", () => {
+    it("tiers the buffer around the threshold", () => {
+        expect(getAlertSeverity(risk(25), THRESHOLD)).toBeNull();
+        expect(getAlertSeverity(risk(19), THRESHOLD)).toBe("info");
+        expect(getAlertSeverity(risk(14), THRESHOLD)).toBe("warning");
+        expect(getAlertSeverity(risk(4), THRESHOLD)).toBe("critical");
+        expect(getAlertSeverity(risk(-1), THRESHOLD)).toBe("liquidatable");
+    });
+
+    it("raises Liquity recovery mode risk to a warning", () => {
+        expect(getAlertSeverity({ ...risk(30), recoveryModeRisk: true }, THRESHOLD)).toBe("warning");
+        expect(getAlertSeverity({ ...risk(4), recoveryModeRisk: true }, THRESHOLD)).toBe("critical");
+    });
+});
+
+describe("alert state", () => {
+    it("holds a tier until the buffer clears its boundary by the hysteresis band", () => {
+        const memory = memoryHolding("position");
+        const check = (bufferPercent: number, now: number) =>
+            updateAlertStates(memory, [risk(bufferPercent)], THRESHOLD, now).map((event) => event.kind);
+
+        expect(check(14, 0)).toEqual(["triggered"]);
+        // Hovering just above the threshold stays a warning, without re-alerting
+        expect(check(16, 1)).toEqual([]);
+        expect(check(THRESHOLD + ALERT_CONFIG.hysteresisPercent - 0.1, 2)).toEqual([]);
+        expect(memory.monitoringState.alerts?.[0]?.severity).toBe("warning");
+
+        expect(check(THRESHOLD + ALERT_CONFIG.hysteresisPercent + 0.5, 3)).toEqual(["recovered"]);
+        expect(memory.monitoringState.alerts?.[0]?.severity).toBe("info");
+    });
+
+    it("escalates at once and recovers only once every tier is cleared", () => {
+        const memory = memoryHolding("position");
+
+        expect(updateAlertStates(memory, [risk(14)], THRESHOLD, 0)).toMatchObject([{ kind: "triggered", severity: "warning", previousSeverity: null }]);
+        expect(updateAlertStates(memory, [risk(-2)], THRESHOLD, 1)).toMatchObject([{ kind: "escalated", severity: "liquidatable", previousSeverity: "warning" }]);
+        // Dropping to critical is an improvement within the alert tiers: no event
+        expect(updateAlertStates(memory, [risk(3)], THRESHOLD, 2)).toEqual([]);
+        expect(updateAlertStates(memory, [risk(25)], THRESHOLD, 3)).toMatchObject([{ kind: "recovered", severity: null, previousSeverity: "critical" }]);
+
+        expect(memory.monitoringState.alerts).toEqual([]);
+        expect(memory.monitoringState.alertLog?.map((entry) => entry.kind)).toEqual(["triggered", "escalated", "recovered"]);
+    });
+
+    it("repeats an unchanged alert only after the cooldown", () => {
+        const memory = memoryHolding("position");
+        const cooldown = ALERT_CONFIG.cooldownSeconds * 1000;
+
+        updateAlertStates(memory, [risk(10)], THRESHOLD, 0);
+        expect(updateAlertStates(memory, [risk(10)], THRESHOLD, cooldown - 1)).toEqual([]);
+        expect(updateAlertStates(memory, [risk(10)], THRESHOLD, cooldown)).toMatchObject([{ kind: "repeated" }]);
+        expect(updateAlertStates(memory, [risk(10)], THRESHOLD, cooldown + HOUR / 2)).toEqual([]);
+    });
+
+    it("keeps the state of held positions that weren't assessed and forgets closed ones", () => {
+        const memory = memoryHolding("unpriced", "checked");
+        updateAlertStates(memory, [risk(10, "unpriced"), risk(10, "checked"), risk(10, "closed")], THRESHOLD, 0);
+
+        updateAlertStates(memory, [risk(10, "checked")], THRESHOLD, 1);
+
+        expect(memory.monitoringState.alerts?.map((state) => state.positionId).sort()).toEqual(["checked", "unpriced"]);
+    });
+});
@@ -0,0 +1,104 @@
+import type { AddressInfo } from "node:net";
+import type { AnyAgent } from "@daydreamsai/core";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { PositionMemory } from "../types/memory.js";
+
+const TOKEN = "stand-in-token";
+const WALLET = "0x00000000000000000000000000000000000000a1";
+
+let api: typeof import("../utils/api.js");
+let watcher: typeof import("../utils/watcher.js");
+let baseUrl: string;
+
+// Only the context calls the routes make
+const memories = new Map<string, PositionMemory>();
+const agent = {
+    async getContext({ args }: { args: { wallet: string } }) {
+        return { memory: memories.get(args.wallet) };
+    },
+    async saveContext() {},
+} as unknown as AnyAgent;
+
+beforeAll(async () => {
+    // API_CONFIG and STORAGE_CONFIG are read when utils/config.ts loads
+    process.env.API_TOKEN = TOKEN;
+    process.env.API_PORT = "0";
+    process.env.STORAGE_BACKEND = "memory";
+    api = await import("../utils/api.js");
+    watcher = await import("../utils/watcher.js");
+    const { createPositionMemory } = await import("../utils/memory.js");
+    const { getMonitoringStore } = await import("../utils/storage.js");
+
+    const memory = createPositionMemory(WALLET);
+    memory.protocolIds = ["aave-v3"];
+    memories.set(WALLET, memory);
+    await (await getMonitoringStore()).save(`liquidation-monitor:${WALLET}`, memory);
+
+    const server = await api.startApiServer(agent);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    await api.stopApiServer();
+});
+
+beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+async function request(method: string, path: string, options: { token?: string | null; body?: string } = {}) {
+    const token = options.token === undefined ? TOKEN : options.token;
+    const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+            ...(token !== null && { Authorization: `Bearer ${token}` }),
+            ...(options.body !== undefined && { "Content-Type": "application/json" }),
+        },
+        body: options.body,
+    });
+    return { status: response.status, headers: response.headers, body: await response.json() as { success: boolean; error?: string } };
+}
+
+describe("HTTP API", () => {
+    it("requires the bearer token on every route but the OpenAPI document", async () => {
+        expect((await request("GET", "/openapi.json", { token: null })).status).toBe(200);
+
+        const missing = await request("GET", "/wallets", { token: null });
+        expect(missing.status).toBe(401);
+        expect(missing.headers.get("www-authenticate")).toBe("Bearer");
+        expect((await request("GET", "/wallets", { token: "wrong" })).status).toBe(401);
+
+        const authorized = await request("GET", "/wallets");
+        expect(authorized.status).toBe(200);
+        expect(authorized.body).toMatchObject({ success: true, wallets: [{ wallet: WALLET }] });
+    });
+
+    it("answers malformed requests with 400", async () => {
+        expect(await request("GET", "/wallets/%zz")).toMatchObject({ status: 400, body: { success: false, error: "Malformed path segment: %zz" } });
+        expect((await request("GET", "/wallets/0x1234")).status).toBe(400);
+        expect((await request("GET", `/wallets/${WALLET}/alerts?limit=0`)).status).toBe(400);
+        expect((await request("PUT", `/wallets/${WALLET}/threshold`, { body: "{" })).body.error).toBe("Request body must be JSON");
+        expect((await request("PUT", `/wallets/${WALLET}/threshold`, { body: JSON.stringify({ alertThreshold: 150 }) })).body.error)
+            .toMatch(/^Invalid body: alertThreshold/);
+    });
+
+    it("answers unknown wallets, routes and methods with 404 and 405", async () => {
+        expect((await request("GET", "/wallets/0x00000000000000000000000000000000000000b2")).status).toBe(404);
+        expect((await request("GET", "/unknown")).status).toBe(404);
+
+        const wrongMethod = await request("DELETE", `/wallets/${WALLET}`);
+        expect(wrongMethod.status).toBe(405);
+        expect(wrongMethod.headers.get("allow")).toBe("GET");
+    });
+
+    it("rejects a check while another check of the wallet is running", async () => {
+        let release!: () => void;
+        const running = watcher.runExclusiveWalletCheck(WALLET, () => new Promise<void>((resolve) => { release = resolve; }));
+
+        const conflict = await request("POST", `/wallets/${WALLET}/check`, { body: "{}" });
+
+        release();
+        await running;
+        expect(conflict).toMatchObject({ status: 409, body: { success: false, error: `A check of ${WALLET} is already running` } });
+    });
+});
@@ -0,0 +1,59 @@
+import { getAddress, type PublicClient } from "viem";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakeClient, revert, type ReadHandler } from "./fakeClient.js";
+
+const WALLET = "0x00000000000000000000000000000000000000a1";
+const CONTROLLER = getAddress("0x00000000000000000000000000000000000000c1");
+const AMM = getAddress("0x00000000000000000000000000000000000000c2");
+const WETH = getAddress("0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2");
+
+let client: PublicClient;
+
+vi.mock("viem", async (importOriginal) => ({
+    ...await importOriginal<typeof import("viem")>(),
+    createPublicClient: () => client,
+}));
+
+let curve: typeof import("../utils/curve.js");
+
+beforeAll(async () => {
+    curve = await import("../utils/curve.js");
+});
+
+beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+/**
+ * One crvUSD WETH market, with the wallet's user_state answered by userState
+ */
+function createMarketClient(userState: ReadHandler): PublicClient {
+    return createFakeClient({
+        n_collaterals: () => 1n,
+        market_count: () => 0n,
+        controllers: () => CONTROLLER,
+        amms: () => AMM,
+        collaterals: () => WETH,
+        symbol: (_, address) => (address === WETH ? "WETH" : "crvUSD"),
+        decimals: () => 18,
+        user_state: userState,
+    });
+}
+
+describe("Curve position fetch", () => {
+    it("treats a reverting user_state as no loan", async () => {
+        client = createMarketClient(() => { throw revert("user_state"); });
+
+        const { positions, marketsScanned } = await curve.curveAdapter.fetchPositions(WALLET);
+
+        expect(positions).toEqual([]);
+        expect(marketsScanned).toEqual([`crvUSD WETH/crvUSD (${CONTROLLER})`]);
+    });
+
+    it("fails the fetch when user_state can't be read, instead of dropping the loan", async () => {
+        client = createMarketClient(() => { throw new Error("RPC timeout"); });
+
+        await expect(curve.curveAdapter.fetchPositions(WALLET)).rejects.toThrow("RPC timeout");
+    });
+});
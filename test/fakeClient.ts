@@ -0,0 +1,36 @@
+/**
+ * In-memory stand-in for a viem public client: contract reads are answered by function name
+ */
+
+import { ContractFunctionRevertedError, type Address, type PublicClient } from "viem";
+
+export type ReadHandler = (args: readonly unknown[], address: Address) => unknown;
+
+/**
+ * A client whose readContract calls go to handlers[functionName]; unknown functions fail the test
+ */
+export function createFakeClient(handlers: Record<string, ReadHandler>, blockNumber: bigint = 20_000_000n): PublicClient {
+    const client = {
+        async getBlockNumber() {
+            return blockNumber;
+        },
+        async readContract({ address, functionName, args }: { address: Address; functionName: string; args?: readonly unknown[] }) {
+            const handler = handlers[functionName];
+            if (!handler) {
+                throw new Error(`Unexpected contract read: ${functionName}`);
+            }
+            return handler(args ?? [], address);
+        },
+        async getLogs() {
+            return [];
+        },
+    };
+    return client as unknown as PublicClient;
+}
+
+/**
+ * The error viem raises when a contract call reverts
+ */
+export function revert(functionName: string): ContractFunctionRevertedError {
+    return new ContractFunctionRevertedError({ abi: [], functionName, message: "execution reverted" });
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import type { PositionMemory } from "../types/memory.js";
+import { createPositionMemory, getMemorySchemaVersion, MEMORY_SCHEMA_VERSION, migrateMemory, UnsupportedSchemaVersionError } from "../utils/memory.js";
+
+const CONTEXT_ID = "liquidation-monitor:0x0000000000000000000000000000000000000001";
+
+describe("memory migrations", () => {
+    it("writes new records with the current schema version", () => {
+        expect(getMemorySchemaVersion(CONTEXT_ID)).toBe(MEMORY_SCHEMA_VERSION);
+        expect(getMemorySchemaVersion("unknown-context:1")).toBe(1);
+    });
+
+    it("returns a copy of a current memory without touching the stored one", () => {
+        const stored = createPositionMemory("0x0000000000000000000000000000000000000001");
+
+        const migrated = migrateMemory<PositionMemory>(CONTEXT_ID, stored, MEMORY_SCHEMA_VERSION);
+
+        expect(migrated).toEqual(stored);
+        expect(migrated).not.toBe(stored);
+        expect(migrated.monitoringState).not.toBe(stored.monitoringState);
+    });
+
+    it("refuses memory written by a newer schema", () => {
+        const load = () => migrateMemory(CONTEXT_ID, createPositionMemory(), MEMORY_SCHEMA_VERSION + 1);
+
+        expect(load).toThrow(UnsupportedSchemaVersionError);
+        expect(load).toThrow(`schema version ${MEMORY_SCHEMA_VERSION + 1}`);
+    });
+
+    it("rejects stored memory that isn't an object", () => {
+        for (const stored of [null, "memory", 42, []]) {
+            expect(() => migrateMemory(CONTEXT_ID, stored, 1)).toThrow(TypeError);
+        }
+    });
+});
@@ -0,0 +1,108 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Position } from "../types/memory.js";
+import { createPositionMemory } from "../utils/memory.js";
+import { refreshPositions, refreshScopedPositions } from "../utils/monitoring.js";
+import { registerProtocolAdapter, type ProtocolAdapter } from "../utils/protocols.js";
+
+const WALLET = "0x0000000000000000000000000000000000000001";
+
+// What each stand-in protocol returns on the next fetch; an Error fails it
+const nextFetch: Record<string, Position[] | Error> = {};
+
+function standInAdapter(id: string): ProtocolAdapter {
+    return {
+        id,
+        name: id,
+        supportedChains: [1],
+        async discoverMarkets() {
+            return [`${id} market`];
+        },
+        async fetchPositions() {
+            const result = nextFetch[id]!;
+            if (result instanceof Error) throw result;
+            return { positions: result, marketsScanned: [`${id} market`] };
+        },
+        getHealthFactor: () => 2,
+        getLiquidationPrice: () => ({ liqPrice: 0, currentPrice: 0 }),
+    };
+}
+
+function position(protocolId: string, debtValue: number): Position {
+    return {
+        id: `${WALLET}-${protocolId}-1`,
+        protocolId,
+        chainId: 1,
+        collateralAsset: "WETH",
+        debtAsset: "USDC",
+        collateralAmount: "10",
+        debtAmount: String(debtValue),
+        collateralValue: 20_000,
+        debtValue,
+        liquidationThreshold: 0.8,
+    };
+}
+
+beforeAll(() => {
+    registerProtocolAdapter(standInAdapter("stand-in-a"));
+    registerProtocolAdapter(standInAdapter("stand-in-b"));
+});
+
+beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+function storedMemory() {
+    const memory = createPositionMemory(WALLET);
+    memory.protocolIds = ["stand-in-a", "stand-in-b"];
+    memory.chainIds = [1];
+    memory.positions = [position("stand-in-a", 10_000), position("stand-in-b", 10_000)];
+    return memory;
+}
+
+describe("position refresh", () => {
+    it("keeps the stored positions of a protocol whose fetch failed", async () => {
+        const memory = storedMemory();
+        nextFetch["stand-in-a"] = [position("stand-in-a", 12_000)];
+        nextFetch["stand-in-b"] = new Error("RPC unavailable");
+
+        const { positions, failed } = await refreshPositions(memory);
+
+        expect(failed).toEqual([{ protocolId: "stand-in-b", chainId: 1, error: "RPC unavailable" }]);
+        expect(positions.map((p) => [p.protocolId, p.debtValue])).toEqual([["stand-in-a", 12_000], ["stand-in-b", 10_000]]);
+    });
+
+    it("drops positions a successful fetch no longer finds", async () => {
+        const memory = storedMemory();
+        nextFetch["stand-in-a"] = [];
+        nextFetch["stand-in-b"] = [];
+
+        const { positions, failed } = await refreshPositions(memory);
+
+        expect(failed).toEqual([]);
+        expect(positions).toEqual([]);
+    });
+
+    it("doesn't keep another wallet's positions for a failed fetch", async () => {
+        const memory = storedMemory();
+        nextFetch["stand-in-a"] = [];
+        nextFetch["stand-in-b"] = new Error("RPC unavailable");
+
+        const { positions } = await refreshPositions(memory, { wallet: "0x0000000000000000000000000000000000000002" });
+
+        expect(positions).toEqual([]);
+    });
+
+    it("replaces only the scopes whose re-fetch succeeded", async () => {
+        const memory = storedMemory();
+        nextFetch["stand-in-a"] = [position("stand-in-a", 12_000)];
+        nextFetch["stand-in-b"] = new Error("RPC unavailable");
+
+        const refreshed = await refreshScopedPositions(memory, [
+            { protocolId: "stand-in-a", chainId: 1 },
+            { protocolId: "stand-in-b", chainId: 1 },
+        ]);
+
+        expect(refreshed.map((p) => p.debtValue)).toEqual([12_000]);
+        expect(memory.positions.map((p) => [p.protocolId, p.debtValue]).sort()).toEqual([["stand-in-a", 12_000], ["stand-in-b", 10_000]]);
+    });
+});
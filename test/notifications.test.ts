@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { NotificationDestination } from "../types/memory.js";
+import type { AlertNotification } from "../utils/notifications.js";
+import { startHttpStandIn, startSmtpStandIn, type HttpStandInRequest, type SmtpStandInMessage, type StandIn } from "./standIns.js";
+
+const BOT_TOKEN = "123:stand-in";
+
+const alert: AlertNotification = {
+    wallet: "0x0000000000000000000000000000000000000001",
+    threshold: 15,
+    timestamp: Date.now(),
+    test: true,
+    positions: [{
+        event: "triggered",
+        severity: "critical",
+        previousSeverity: null,
+        positionId: "stand-in-position",
+        protocolId: "aave-v3",
+        chainId: 1,
+        collateralAsset: "WETH",
+        debtAsset: "USDC",
+        healthFactor: 1.05,
+        bufferPercent: 4.8,
+        liqPrice: 1900,
+        currentPrice: 2000,
+    }],
+};
+
+let httpStandIn: StandIn<HttpStandInRequest>;
+let smtpStandIn: StandIn<SmtpStandInMessage>;
+let silentSmtp: StandIn<SmtpStandInMessage>;
+let notifications: typeof import("../utils/notifications.js");
+let smtp: typeof import("../utils/smtp.js");
+
+beforeAll(async () => {
+    httpStandIn = await startHttpStandIn(["/failing"]);
+    smtpStandIn = await startSmtpStandIn();
+    silentSmtp = await startSmtpStandIn({ silent: true });
+
+    // NOTIFICATION_CONFIG is read when utils/config.ts loads, so point it at the stand-ins first
+    process.env.NOTIFY_TIMEOUT_MS = "1000";
+    process.env.TELEGRAM_API_URL = httpStandIn.url;
+    process.env.SMTP_HOST = "127.0.0.1";
+    process.env.SMTP_PORT = String(smtpStandIn.port);
+    process.env.SMTP_SECURE = "false";
+    process.env.SMTP_STARTTLS = "false";
+    notifications = await import("../utils/notifications.js");
+    smtp = await import("../utils/smtp.js");
+});
+
+afterAll(async () => {
+    await Promise.all([httpStandIn.close(), smtpStandIn.close(), silentSmtp.close()]);
+});
+
+function bodyOf(path: string): Record<string, unknown> | undefined {
+    const body = httpStandIn.received.find((request) => request.path === path)?.body;
+    return typeof body === "object" && body !== null ? body as Record<string, unknown> : undefined;
+}
+
+describe("notification channels", () => {
+    it("deliver to every destination and report the failing one", async () => {
+        const destinations: NotificationDestination[] = [
+            { channel: "webhook", url: `${httpStandIn.url}/webhook`, headers: { "X-Stand-In": "1" } },
+            { channel: "telegram", chatId: "42", botToken: BOT_TOKEN },
+            { channel: "discord", webhookUrl: `${httpStandIn.url}/discord` },
+            { channel: "slack", webhookUrl: `${httpStandIn.url}/slack` },
+            { channel: "email", to: "ops@example.com" },
+            { channel: "slack", webhookUrl: `${httpStandIn.url}/failing` },
+        ];
+
+        const results = await notifications.sendNotifications(destinations, alert);
+
+        expect(results.slice(0, 5).map((result) => result.success)).toEqual([true, true, true, true, true]);
+        expect(results[5]).toMatchObject({ channel: "slack", success: false });
+        expect(results[5]!.error).toContain("HTTP 500");
+
+        expect(bodyOf("/webhook")).toMatchObject({ wallet: alert.wallet, test: true });
+        expect(bodyOf("/webhook")?.message).toEqual(expect.stringContaining("stand-in-position"));
+        expect(httpStandIn.received.find((request) => request.path === "/webhook")?.headers["x-stand-in"]).toBe("1");
+        expect(bodyOf(`/bot${BOT_TOKEN}/sendMessage`)).toMatchObject({ chat_id: "42" });
+        expect(bodyOf("/discord")?.content).toEqual(expect.stringContaining("stand-in-position"));
+        expect(bodyOf("/slack")?.text).toEqual(expect.stringContaining("stand-in-position"));
+
+        const [mail] = smtpStandIn.received;
+        expect(mail?.to).toEqual(["ops@example.com"]);
+        expect(mail?.data).toContain("Subject: ");
+        expect(mail?.data).toContain("Content-Transfer-Encoding: base64");
+    });
+
+    it("time out an SMTP server that never answers", async () => {
+        const started = Date.now();
+        await expect(smtp.sendMail(
+            { host: "127.0.0.1", port: silentSmtp.port, secure: false, startTls: false, timeoutMs: 300 },
+            { from: "a@localhost", to: ["b@localhost"], subject: "timeout", text: "timeout" }
+        )).rejects.toThrow(/timeout after 300ms/);
+        expect(Date.now() - started).toBeLessThan(5000);
+    });
+});
@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+import type { Position, PositionLeg } from "../types/memory.js";
+import { compoundAdapter } from "../utils/compound.js";
+import { curveAdapter } from "../utils/curve.js";
+import { liquityV1Adapter, liquityV2Adapter } from "../utils/liquity.js";
+import { makerAdapter } from "../utils/maker.js";
+import { getPositionRisk } from "../utils/monitoring.js";
+import { calculateHealthFactor, calculateLiquidationPrice } from "../utils/risk.js";
+
+const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+const WBTC = "0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599";
+const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+
+function leg(asset: string, address: string, amount: number, price: number, liquidationThreshold = 0): PositionLeg {
+    return {
+        asset,
+        address,
+        amount: String(amount),
+        decimals: 18,
+        price,
+        value: amount * price,
+        liquidationThreshold,
+        priceSource: "test",
+        priceBlock: null,
+    };
+}
+
+function position(fields: Partial<Position>): Position {
+    return {
+        id: "position",
+        protocolId: "test",
+        chainId: 1,
+        collateralAsset: "WETH",
+        debtAsset: "USDC",
+        collateralAmount: "10",
+        debtAmount: "15000",
+        collateralValue: 20_000,
+        debtValue: 15_000,
+        liquidationThreshold: 0.825,
+        ...fields,
+    };
+}
+
+describe("generic risk math", () => {
+    it("weights collateral by its liquidation threshold", () => {
+        expect(calculateHealthFactor(position({}))).toBeCloseTo(20_000 * 0.825 / 15_000);
+        expect(calculateHealthFactor(position({ debtValue: 0 }))).toBe(Infinity);
+    });
+
+    it("prices liquidation off the consolidated fields without legs", () => {
+        const { liqPrice, currentPrice } = calculateLiquidationPrice(position({}));
+
+        expect(currentPrice).toBe(2000);
+        expect(liqPrice).toBeCloseTo(15_000 / (10 * 0.825));
+        // At the liquidation price the health factor is exactly 1
+        expect(calculateHealthFactor(position({ collateralValue: 10 * liqPrice }))).toBeCloseTo(1);
+    });
+
+    it("sums each collateral leg at its own threshold", () => {
+        const account = position({
+            collateralLegs: [leg("WETH", WETH, 10, 2000, 0.825), leg("WBTC", WBTC, 1, 60_000, 0.75)],
+            debtLegs: [leg("USDC", USDC, 40_000, 1)],
+            debtValue: 40_000,
+        });
+
+        expect(calculateHealthFactor(account)).toBeCloseTo((20_000 * 0.825 + 60_000 * 0.75) / 40_000);
+    });
+
+    it("moves only the primary collateral to its liquidation price", () => {
+        const account = position({
+            collateralLegs: [leg("WETH", WETH, 10, 2000, 0.825), leg("WBTC", WBTC, 1, 60_000, 0.75)],
+            debtLegs: [leg("USDC", USDC, 60_000, 1)],
+            debtValue: 60_000,
+        });
+
+        const { liqPrice, currentPrice } = calculateLiquidationPrice(account);
+
+        expect(currentPrice).toBe(60_000);
+        // 20,000 × 0.825 + 1 × P × 0.75 = 60,000
+        expect(liqPrice).toBeCloseTo((60_000 - 20_000 * 0.825) / 0.75);
+    });
+
+    it("moves same-asset debt with the collateral price", () => {
+        const loop = position({
+            collateralLegs: [leg("WETH", WETH, 10, 2000, 0.9)],
+            debtLegs: [leg("WETH", WETH.toLowerCase(), 5, 2000), leg("USDC", USDC, 4000, 1)],
+            debtValue: 14_000,
+        });
+
+        // 10 × P × 0.9 = 5 × P + 4,000
+        expect(calculateLiquidationPrice(loop).liqPrice).toBeCloseTo(4000 / 4);
+    });
+
+    it("has no liquidation price when same-asset debt outweighs the collateral's threshold", () => {
+        const loop = position({
+            collateralLegs: [leg("WETH", WETH, 10, 2000, 0.5)],
+            debtLegs: [leg("WETH", WETH, 6, 2000)],
+            debtValue: 12_000,
+        });
+
+        expect(calculateLiquidationPrice(loop).liqPrice).toBe(0);
+    });
+});
+
+describe("protocol health models", () => {
+    it("Curve uses the controller's health over hard liquidation", () => {
+        const loan = position({
+            protocolId: "curve",
+            debtLegs: [leg("crvUSD", USDC, 15_000, 0.999)],
+            llamma: {
+                bandRange: [10, 13],
+                activeBand: 5,
+                softLiquidation: false,
+                health: 0.12,
+                topBandPrice: 1800,
+                bottomBandPrice: 1650,
+                hardLiquidationPrice: 1600,
+                oraclePrice: 2000,
+                stablecoinInBands: "0",
+            },
+        });
+
+        expect(curveAdapter.getHealthFactor(loan)).toBeCloseTo(1.12);
+        expect(curveAdapter.getLiquidationPrice(loan)).toEqual({ liqPrice: 1600 * 0.999, currentPrice: 2000 * 0.999 });
+    });
+
+    it("Compound caps the health factor below 1 once Comet reports the account liquidatable", () => {
+        const healthy = position({ protocolId: "compound-v3", comet: { market: "0xc3d688B66703497DAA19211EEdff47f25384cdc3", liquidatable: false } });
+        const liquidatable = position({ ...healthy, comet: { ...healthy.comet!, liquidatable: true } });
+
+        expect(compoundAdapter.getHealthFactor(healthy)).toBeCloseTo(1.1);
+        expect(compoundAdapter.getHealthFactor(liquidatable)).toBeLessThan(1);
+    });
+
+    it("Maker checks the vault at the Vat's price and alerts on the next OSM price", () => {
+        const vault = position({
+            protocolId: "maker",
+            collateralAmount: "10",
+            debtAmount: "10000",
+            debtValue: 10_000,
+            liquidationThreshold: 1 / 1.5,
+            maker: {
+                cdpId: 1,
+                ilk: "ETH-A",
+                urn: "0x0000000000000000000000000000000000000001",
+                owner: "0x0000000000000000000000000000000000000002",
+                viaProxy: false,
+                liquidationRatio: 1.5,
+                rate: 1,
+                currentPrice: 1800,
+                nextPrice: 1650,
+                nextPriceAt: 0,
+                nextHealthFactor: 10 * 1650 / 1.5 / 10_000,
+            },
+        });
+
+        const healthFactor = makerAdapter.getHealthFactor(vault);
+        expect(healthFactor).toBeCloseTo(1.2);
+        expect(makerAdapter.getLiquidationPrice(vault)).toEqual({ liqPrice: expect.closeTo(1500), currentPrice: 1800 });
+        // The queued price drives the buffer
+        expect(getPositionRisk(vault, healthFactor).bufferPercent).toBeCloseTo(10);
+    });
+
+    it("Liquity divides the ICR by the liquidation ratio and flags recovery mode risk", () => {
+        const trove = position({
+            protocolId: "liquity-v1",
+            collateralAmount: "10",
+            debtAmount: "15000",
+            liquidationThreshold: 1 / 1.1,
+            liquity: {
+                version: "v1",
+                troveId: "0x0000000000000000000000000000000000000001",
+                branch: "ETH",
+                collateralRatio: 1.32,
+                price: 1980,
+                minimumCollateralRatio: 1.1,
+                criticalCollateralRatio: 1.5,
+                totalCollateralRatio: 1.8,
+                recoveryMode: false,
+                liquidatableInRecoveryMode: true,
+            },
+        });
+
+        const healthFactor = liquityV1Adapter.getHealthFactor(trove);
+        expect(healthFactor).toBeCloseTo(1.2);
+        expect(liquityV1Adapter.getLiquidationPrice(trove)).toEqual({ liqPrice: expect.closeTo(1650), currentPrice: 1980 });
+        expect(getPositionRisk(trove, healthFactor)).toMatchObject({ bufferPercent: expect.closeTo(20), recoveryModeRisk: true });
+
+        const v2Trove = position({ ...trove, protocolId: "liquity-v2", liquity: { ...trove.liquity!, version: "v2", liquidatableInRecoveryMode: false } });
+        expect(liquityV2Adapter.getHealthFactor(v2Trove)).toBeCloseTo(1.2);
+        expect(getPositionRisk(v2Trove, 1.2).recoveryModeRisk).toBeUndefined();
+    });
+});
@@ -0,0 +1,130 @@
+/**
+ * Local HTTP and SMTP stand-ins for the notification channels
+ * They record what they receive so deliveries can be checked without the real services
+ */
+
+import http from "node:http";
+import net from "node:net";
+
+export interface HttpStandInRequest {
+    method: string;
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body: unknown;
+}
+
+export interface SmtpStandInMessage {
+    from: string;
+    to: string[];
+    data: string; // Headers and body as sent, without the terminating "."
+}
+
+export interface StandIn<T> {
+    url: string;
+    port: number;
+    received: T[];
+    close(): Promise<void>;
+}
+
+function listen(server: net.Server): Promise<number> {
+    return new Promise((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(0, "127.0.0.1", () => resolve((server.address() as net.AddressInfo).port));
+    });
+}
+
+function close(server: net.Server): Promise<void> {
+    return new Promise((resolve) => {
+        server.close(() => resolve());
+        // Keep-alive connections would hold the HTTP server open
+        if (server instanceof http.Server) server.closeAllConnections();
+    });
+}
+
+/**
+ * Accepts any POST with a JSON body; paths listed in failPaths answer with HTTP 500
+ */
+export async function startHttpStandIn(failPaths: string[] = []): Promise<StandIn<HttpStandInRequest>> {
+    const received: HttpStandInRequest[] = [];
+    const server = http.createServer((req, res) => {
+        let raw = "";
+        req.on("data", (chunk: Buffer) => raw += chunk.toString("utf8"));
+        req.on("end", () => {
+            let body: unknown = raw;
+            try {
+                body = JSON.parse(raw);
+            } catch {
+                // Recorded as text
+            }
+            received.push({ method: req.method || "", path: req.url || "", headers: req.headers, body });
+
+            const failed = failPaths.includes(req.url || "");
+            res.writeHead(failed ? 500 : 200, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ ok: !failed }));
+        });
+    });
+
+    const port = await listen(server);
+    return { url: `http://127.0.0.1:${port}`, port, received, close: () => close(server) };
+}
+
+/**
+ * Plain SMTP (no STARTTLS or AUTH) that accepts every message
+ * A silent stand-in accepts connections but never replies, for checking timeouts
+ */
+export async function startSmtpStandIn(options: { silent?: boolean } = {}): Promise<StandIn<SmtpStandInMessage>> {
+    const received: SmtpStandInMessage[] = [];
+    const server = net.createServer((socket) => {
+        socket.on("error", () => undefined);
+        if (options.silent) return;
+
+        let buffer = "";
+        let message: SmtpStandInMessage = { from: "", to: [], data: "" };
+        let inData = false;
+        const reply = (line: string) => socket.write(`${line}\r\n`);
+
+        reply("220 localhost stand-in");
+        socket.on("data", (chunk: Buffer) => {
+            buffer += chunk.toString("utf8");
+            let index: number;
+            while ((index = buffer.indexOf("\r\n")) >= 0) {
+                const line = buffer.slice(0, index);
+                buffer = buffer.slice(index + 2);
+
+                if (inData) {
+                    if (line === ".") {
+                        inData = false;
+                        received.push(message);
+                        message = { from: "", to: [], data: "" };
+                        reply("250 Queued");
+                    } else {
+                        message.data += `${line}\r\n`;
+                    }
+                    continue;
+                }
+
+                const command = line.toUpperCase();
+                if (command.startsWith("EHLO") || command.startsWith("HELO")) {
+                    reply("250 localhost");
+                } else if (command.startsWith("MAIL FROM:")) {
+                    message.from = line.slice(10).replace(/[<>]/g, "").trim();
+                    reply("250 OK");
+                } else if (command.startsWith("RCPT TO:")) {
+                    message.to.push(line.slice(8).replace(/[<>]/g, "").trim());
+                    reply("250 OK");
+                } else if (command === "DATA") {
+                    inData = true;
+                    reply("354 End data with <CR><LF>.<CR><LF>");
+                } else if (command === "QUIT") {
+                    reply("221 Bye");
+                    socket.end();
+                } else {
+                    reply("502 Command not implemented");
+                }
+            }
+        });
+    });
+
+    const port = await listen(server);
+    return { url: `smtp://127.0.0.1:${port}`, port, received, close: () => close(server) };
+}
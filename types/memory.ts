@@ -1,17 +1,219 @@
+
+/**
+ * A single asset leg of a position (one collateral or one debt reserve)
+ */
+export type PositionLeg = {
+    asset: string; // Token symbol
+    address: string; // Token contract address
+    amount: string; // Human-readable token amount
+    decimals: number;
+    price: number; // USD price per token
+    value: number; // USD value
+    liquidationThreshold: number; // 0-1, only meaningful for collateral legs
+    priceSource: string; // e.g. "aave-oracle", "curve-oracle", "coingecko"
+    priceBlock: number | null; // Block the price was read at (null for off-chain sources)
+    referencePrice?: number; // Optional CoinGecko cross-reference
+};
+
+/**
+ * Curve crvUSD / LlamaLend LLAMMA state for a position
+ * Bands are numbered downwards in price: n1 is the top band, n2 the bottom one
+ */
+export type LlammaState = {
+    controller?: string; // Market controller; add_collateral / repay go here (unset on positions stored before it was recorded)
+    bandRange: [number, number]; // [n1, n2]
+    activeBand: number;
+    softLiquidation: boolean; // Oracle price is inside (or below) the user's bands
+    health: number; // Controller health(user, full=true); hard liquidation below 0
+    // Band and oracle prices are in the borrowed token (crvUSD, or the LlamaLend market's borrowed token)
+    topBandPrice: number; // Price at which soft liquidation starts
+    bottomBandPrice: number; // Price at which all collateral has been converted
+    hardLiquidationPrice: number; // Estimated price at which health reaches 0
+    oraclePrice?: number; // AMM price_oracle (unset on positions stored before it was recorded)
+    stablecoinInBands: string; // Borrowed token already received through soft liquidation
+};
+
+/**
+ * Compound V3 (Comet) market state for a position
+ */
+export type CometState = {
+    market: string; // Comet proxy address
+    liquidatable: boolean; // Comet isLiquidatable(account)
+};
+
+/**
+ * Maker vault state for a position
+ * The OSM delays prices by one hop: nextPrice becomes the Vat's price at nextPriceAt
+ */
+export type MakerVaultState = {
+    cdpId: number;
+    ilk: string; // Collateral type, e.g. "ETH-A"
+    urn: string; // Vat urn address
+    owner: string; // Address that owns the vault in the CDP Manager (the wallet or its DSProxy)
+    viaProxy: boolean;
+    liquidationRatio: number; // mat, e.g. 1.5 for 150%
+    rate: number; // Accumulated stability fee rate (debt = art × rate)
+    currentPrice: number; // OSM price the Vat uses now
+    nextPrice: number | null; // OSM queued price (null when the feed is not an OSM)
+    nextPriceAt: number | null; // Unix seconds when nextPrice takes effect
+    nextHealthFactor: number | null; // Health factor once nextPrice is applied
+};
+
+/**
+ * Liquity trove state for a position
+ * Collateral ratios are plain ratios (1.1 = 110%)
+ */
+export type LiquityTroveState = {
+    version: "v1" | "v2";
+    troveId: string; // V1: the borrower address; V2: the trove NFT id
+    branch: string; // Collateral branch (V1 is always "ETH")
+    collateralRatio: number; // Individual collateral ratio (ICR), at the PriceFeed price with debt at par
+    price: number; // Collateral price from the branch PriceFeed (lastGoodPrice), the price the protocol liquidates at
+    minimumCollateralRatio: number; // MCR, the liquidation threshold in normal mode
+    criticalCollateralRatio: number | null; // CCR, the liquidation threshold in V1 recovery mode (null for V2)
+    totalCollateralRatio: number | null; // System TCR (V1 only)
+    recoveryMode: boolean; // System is in recovery mode now (V1 only)
+    liquidatableInRecoveryMode: boolean; // ICR < CCR: safe now, liquidatable if recovery mode starts
+};
+
+/**
+ * Why a position couldn't be valued
+ */
+export type UnpricedState = {
+    symbols: string[]; // Tokens no price provider could price
+    reason: string;
+};
+
+export type Position = {
+    id: string;
+    protocolId: string;
+    chainId: number; // Chain the position lives on (1 = Ethereum Mainnet)
+    collateralAsset: string;
+    debtAsset: string;
+    collateralAmount: string;
+    debtAmount: string;
+    collateralValue: number; // USD value
+    debtValue: number;
+    liquidationThreshold: number; // 0-1
+    // Per-asset breakdown for cross-collateralised positions (e.g. an Aave account)
+    collateralLegs?: PositionLeg[];
+    debtLegs?: PositionLeg[];
+    llamma?: LlammaState; // Curve positions only
+    comet?: CometState; // Compound V3 positions only
+    maker?: MakerVaultState; // Maker vaults only
+    liquity?: LiquityTroveState; // Liquity troves only
+    unpriced?: UnpricedState; // Set when a token couldn't be priced; values are 0 and health is unknown
+};
+
+/**
+ * Background watch settings for a wallet
+ */
+export type WatchSettings = {
+    enabled: boolean;
+    intervalSeconds: number; // Base re-check interval; shortened automatically as buffers shrink
+};
+
+/**
+ * One check in a position's health factor history
+ */
+export type HealthFactorSample = {
+    timestamp: number;
+    healthFactor: number;
+    bufferPercent: number;
+    collateralPrice: number; // Current price used by the liquidation price check
+    debtValue: number; // USD
+};
+
+/**
+ * Alert tiers, least to most severe
+ */
+export type AlertSeverity = "info" | "warning" | "critical" | "liquidatable";
+
+/**
+ * Alert state of one position, kept across checks so a buffer hovering around a tier
+ * boundary doesn't re-alert on every check
+ */
+export type PositionAlertState = {
+    positionId: string;
+    severity: AlertSeverity;
+    since: number; // When the position entered its current severity
+    lastAlertAt: number; // Last alert event (trigger, escalation or repeat)
+    bufferPercent: number; // Buffer at the latest check
+};
+
+/**
+ * One alert transition, kept for the alert history (ALERT_CONFIG.logSize most recent)
+ */
+export type AlertLogEntry = {
+    timestamp: number;
+    positionId: string;
+    kind: "triggered" | "escalated" | "repeated" | "recovered";
+    severity: AlertSeverity | null; // null on recovery to safe
+    previousSeverity: AlertSeverity | null;
+    bufferPercent: number;
+    healthFactor: number;
+    threshold: number;
+};
+
+/**
+ * Where a wallet's alerts are sent
+ * Telegram bot tokens and SMTP settings fall back to NOTIFICATION_CONFIG
+ */
+export type NotificationDestination =
+    | { channel: "webhook"; url: string; headers?: Record<string, string> } // Generic JSON POST
+    | { channel: "telegram"; chatId: string; botToken?: string }
+    | { channel: "discord"; webhookUrl: string }
+    | { channel: "slack"; webhookUrl: string }
+    | { channel: "email"; to: string };
+
+/**
+ * One liquidation of the wallet, from Aave LiquidationCall or Curve Liquidate logs
+ * USD values are at the liquidation block when the RPC serves historical state, current prices otherwise
+ */
+export type LiquidationRecord = {
+    protocolId: string;
+    chainId: number;
+    blockNumber: number;
+    timestamp: number | null; // Block time (ms)
+    transactionHash: string;
+    logIndex: number;
+    liquidator: string;
+    selfLiquidation?: boolean; // Curve: the wallet closed its own loan through liquidate(), so no bonus was paid
+    collateralAsset: string;
+    collateralSeized: string; // Token amount taken from the wallet
+    collateralSeizedUsd: number | null; // Including Curve band stablecoin
+    bandStablecoin?: string; // Curve: borrowed token already in the bands from soft liquidation, also taken
+    debtAsset: string;
+    debtCovered: string; // Token amount repaid by the liquidator
+    debtCoveredUsd: number | null;
+    bonusUsd: number | null; // Liquidation bonus paid by the wallet: collateral seized minus debt covered
+    pricing: "historical" | "current" | "unpriced";
+};
+
+/**
+ * Stored result of getLiquidationHistory
+ */
+export type LiquidationHistory = {
+    events: LiquidationRecord[]; // Oldest first, at most LIQUIDATION_HISTORY_CONFIG.maxEvents
+    // Block ranges already scanned per protocol and chain (merged when they touch)
+    scannedRanges: Array<{ protocolId: string; chainId: number; fromBlock: number; toBlock: number }>;
+    lastScannedAt: number;
+};
+
 export type PositionMemory = {
     wallet: string;
     protocolIds: string[];
-    positions: Array<{
-        id: string;
-        protocolId: string;
-        collateralAsset: string;
-        debtAsset: string;
-        collateralAmount: string;
-        debtAmount: string;
-        collateralValue: number; // USD value
-        debtValue: number;
-        liquidationThreshold: number; // 0-1 
-    }>;
+    // Chains to scan; Ethereum Mainnet only when unset
+    chainIds?: number[];
+    // Optional per-protocol market filters (e.g. Morpho Blue market IDs)
+    marketIds?: Record<string, string[]>;
+    // Background re-checks; wallets without settings are watched at WATCH_CONFIG.intervalSeconds
+    watch?: WatchSettings;
+    // Alert destinations for this wallet
+    notifications?: NotificationDestination[];
+    // Past liquidations of the wallet, from getLiquidationHistory
+    liquidationHistory?: LiquidationHistory;
+    positions: Position[];
 
 
     monitoringState: {
@@ -28,10 +230,36 @@ export type PositionMemory = {
         }>;
 
         alertThreshold: number;
-        alertThresholdHit: boolean;
+        alertThresholdHit: boolean; // Any position at warning or worse
         lastChecked: number;
+        // Positions with an active alert; positions without one are safe
+        alerts?: PositionAlertState[];
+        // Alert transitions, oldest first
+        alertLog?: AlertLogEntry[];
+        // Bounded per-position history, oldest first (HISTORY_CONFIG)
+        history?: Array<{
+            positionId: string;
+            samples: HealthFactorSample[];
+        }>;
     };
 
     checkedAt: number;
     lastUpdated: number;
-}
\ No newline at end of file
+}
+
+/**
+ * A named group of wallets monitored together
+ * Each wallet keeps its own liquidation-monitor context; the portfolio aggregates them
+ */
+export type PortfolioMemory = {
+    name: string;
+    wallets: string[];
+    // Defaults for wallets added through the portfolio
+    protocolIds: string[];
+    chainIds?: number[];
+    alertThreshold: number;
+    // Destinations for the portfolio's rolled-up alerts
+    notifications?: NotificationDestination[];
+    createdAt: number;
+    lastUpdated: number;
+};
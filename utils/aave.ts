@@ -1,39 +1,63 @@
 /**
  * Aave V3 protocol integration utilities
- * Fetches borrow positions from Aave on Ethereum Mainnet using direct contract calls
+ * Fetches borrow positions from Aave on Ethereum Mainnet and L2s using direct contract calls
  */
 
-import { createPublicClient, http, formatUnits, getAddress } from "viem";
-import { mainnet } from "viem/chains";
+import { formatUnits, getAddress, type Address, type PublicClient } from "viem";
+import type { Position, PositionLeg } from "../types/memory.js";
 import { NETWORKS } from "./config.js";
-import { getTokenPrice } from "./prices.js";
+import { getChainClient, getNetwork, isContractRevert } from "./chains.js";
+import { createAaveOracleSource, PriceUnavailableError, resolvePrices, type PriceQuote } from "./prices.js";
+import { createUnpricedPosition, type ProtocolAdapter } from "./protocols.js";
+import { calculateHealthFactor, calculateLiquidationPrice } from "./risk.js";
 import {
     AAVE_POOL_ABI,
+    AAVE_DATA_PROVIDER_ABI,
+    AAVE_ADDRESSES_PROVIDER_ABI,
 } from "./contracts.js";
 
-export interface AavePosition {
-    id: string;
-    protocolId: string;
-    collateralAsset: string;
-    debtAsset: string;
-    collateralAmount: string;
-    debtAmount: string;
-    collateralValue: number;
-    debtValue: number;
-    liquidationThreshold: number;
-}
+// Aave V3 Contract Addresses per chain (properly checksummed); deploymentBlock is the Pool's first block
+const AAVE_V3_DEPLOYMENTS: Record<number, { pool: Address; addressesProvider: Address; deploymentBlock: bigint }> = {
+    [NETWORKS.MAINNET.chainId]: {
+        pool: getAddress("0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2"),
+        addressesProvider: getAddress("0x2f39d218133AFaB8F2B819B1066c7E434Ad94E9e"),
+        deploymentBlock: 16291127n,
+    },
+    // Arbitrum, Optimism and Polygon share the same deployment addresses
+    [NETWORKS.ARBITRUM.chainId]: {
+        pool: getAddress("0x794a61358D6845594F94dc1DB02A252b5b4814aD"),
+        addressesProvider: getAddress("0xa97684ead0e402dC232d5A977953DF7ECBaB3CDb"),
+        deploymentBlock: 7742429n,
+    },
+    [NETWORKS.OPTIMISM.chainId]: {
+        pool: getAddress("0x794a61358D6845594F94dc1DB02A252b5b4814aD"),
+        addressesProvider: getAddress("0xa97684ead0e402dC232d5A977953DF7ECBaB3CDb"),
+        deploymentBlock: 4365693n,
+    },
+    [NETWORKS.POLYGON.chainId]: {
+        pool: getAddress("0x794a61358D6845594F94dc1DB02A252b5b4814aD"),
+        addressesProvider: getAddress("0xa97684ead0e402dC232d5A977953DF7ECBaB3CDb"),
+        deploymentBlock: 25826028n,
+    },
+    [NETWORKS.BASE.chainId]: {
+        pool: getAddress("0xA238Dd80C259a72e81d7e4664a9801593F98d1c5"),
+        addressesProvider: getAddress("0xe20fCBdBfFC4Dd138cE8b2E6FBb6CB49777ad64D"),
+        deploymentBlock: 2357108n,
+    },
+};
 
-// Aave V3 Contract Addresses on Ethereum Mainnet (properly checksummed)
-const AAVE_V3_POOL = getAddress("0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2"); // Pool proxy (Ethereum)
+/**
+ * Aave V3 Pool on a chain; supply and repay go here
+ */
+export function getAavePoolAddress(chainId: number): Address | undefined {
+    return AAVE_V3_DEPLOYMENTS[chainId]?.pool;
+}
 
 /**
- * Create a viem public client for Ethereum mainnet
+ * Aave V3 deployment on a chain (Pool, PoolAddressesProvider and the Pool's first block)
  */
-function getClient() {
-    return createPublicClient({
-        chain: mainnet,
-        transport: http(NETWORKS.MAINNET.rpcUrl),
-    });
+export function getAaveDeployment(chainId: number): { pool: Address; addressesProvider: Address; deploymentBlock: bigint } | undefined {
+    return AAVE_V3_DEPLOYMENTS[chainId];
 }
 
 /**
@@ -44,32 +68,182 @@ const bpsToPercent = (bps: bigint | number): number => {
     return Number(bps) / 100;
 };
 
+/**
+ * Raw per-reserve balances for a user, before pricing
+ */
+interface UserReserve {
+    symbol: string;
+    address: Address;
+    decimals: number;
+    liquidationThreshold: number; // 0-1
+    collateralBalance: bigint; // Only counted when enabled as collateral
+    debtBalance: bigint; // Stable + variable debt
+}
+
+/**
+ * The user's E-mode category: its liquidation threshold and the collateral reserves it applies to
+ * Returns null outside E-mode
+ */
+async function fetchUserEMode(
+    client: PublicClient,
+    pool: Address,
+    dataProvider: Address,
+    user: Address,
+    reserves: Address[],
+    blockNumber: bigint
+): Promise<{ category: number; liquidationThreshold: number; assets: Set<string> } | null> {
+    const category = Number(await client.readContract({ address: pool, abi: AAVE_POOL_ABI, functionName: "getUserEMode", args: [user], blockNumber }));
+    if (category === 0) return null;
+
+    try {
+        // V3.2+: per-category collateral config, with the eligible reserves as a bitmap of reserve IDs
+        const [config, bitmap] = await Promise.all([
+            client.readContract({ address: pool, abi: AAVE_POOL_ABI, functionName: "getEModeCategoryCollateralConfig", args: [category], blockNumber }),
+            client.readContract({ address: pool, abi: AAVE_POOL_ABI, functionName: "getEModeCategoryCollateralBitmap", args: [category], blockNumber }),
+        ]);
+        const ids = Array.from({ length: 128 }, (_, id) => id).filter((id) => (bitmap >> BigInt(id)) & 1n);
+        const assets = await Promise.all(ids.map((id) =>
+            client.readContract({ address: pool, abi: AAVE_POOL_ABI, functionName: "getReserveAddressById", args: [id], blockNumber })
+        ));
+        return {
+            category,
+            liquidationThreshold: bpsToPercent(config.liquidationThreshold) / 100,
+            assets: new Set(assets.map((asset) => asset.toLowerCase())),
+        };
+    } catch (error) {
+        if (!isContractRevert(error)) throw error;
+    }
+
+    // V3.0 / V3.1: one threshold for every reserve assigned to the category
+    const [data, reserveCategories] = await Promise.all([
+        client.readContract({ address: pool, abi: AAVE_POOL_ABI, functionName: "getEModeCategoryData", args: [category], blockNumber }),
+        Promise.all(reserves.map((asset) =>
+            client.readContract({ address: dataProvider, abi: AAVE_DATA_PROVIDER_ABI, functionName: "getReserveEModeCategory", args: [asset], blockNumber })
+        )),
+    ]);
+    return {
+        category,
+        liquidationThreshold: bpsToPercent(data.liquidationThreshold) / 100,
+        assets: new Set(reserves.filter((_, index) => Number(reserveCategories[index]) === category).map((asset) => asset.toLowerCase())),
+    };
+}
+
+/**
+ * Read the user's balances for every reserve through the PoolDataProvider
+ * Collateral in the user's E-mode category takes the category's liquidation threshold
+ */
+async function fetchUserReserves(
+    client: PublicClient,
+    pool: Address,
+    addressesProvider: Address,
+    user: Address,
+    blockNumber: bigint
+): Promise<UserReserve[]> {
+    const dataProvider = await client.readContract({
+        address: addressesProvider,
+        abi: AAVE_ADDRESSES_PROVIDER_ABI,
+        functionName: "getPoolDataProvider",
+        blockNumber,
+    });
+
+    const reserves = await client.readContract({
+        address: dataProvider,
+        abi: AAVE_DATA_PROVIDER_ABI,
+        functionName: "getAllReservesTokens",
+        blockNumber,
+    });
+
+    const userData = await Promise.all(
+        reserves.map((reserve) =>
+            client.readContract({
+                address: dataProvider,
+                abi: AAVE_DATA_PROVIDER_ABI,
+                functionName: "getUserReserveData",
+                args: [reserve.tokenAddress, user],
+                blockNumber,
+            })
+        )
+    );
+
+    // Only keep reserves the user actually supplies as collateral or borrows
+    const active = reserves
+        .map((reserve, index) => {
+            const [aTokenBalance, stableDebt, variableDebt, , , , , , usageAsCollateralEnabled] = userData[index];
+            return {
+                reserve,
+                collateralBalance: usageAsCollateralEnabled ? aTokenBalance : 0n,
+                debtBalance: stableDebt + variableDebt,
+            };
+        })
+        .filter(({ collateralBalance, debtBalance }) => collateralBalance > 0n || debtBalance > 0n);
+
+    const [configs, eMode] = await Promise.all([
+        Promise.all(
+            active.map(({ reserve }) =>
+                client.readContract({
+                    address: dataProvider,
+                    abi: AAVE_DATA_PROVIDER_ABI,
+                    functionName: "getReserveConfigurationData",
+                    args: [reserve.tokenAddress],
+                    blockNumber,
+                })
+            )
+        ),
+        fetchUserEMode(client, pool, dataProvider, user, active.map(({ reserve }) => reserve.tokenAddress), blockNumber),
+    ]);
+
+    return active.map(({ reserve, collateralBalance, debtBalance }, index) => {
+        const [decimals, , liquidationThreshold] = configs[index];
+        const inEMode = eMode !== null && eMode.assets.has(reserve.tokenAddress.toLowerCase());
+        return {
+            symbol: reserve.symbol,
+            address: reserve.tokenAddress,
+            decimals: Number(decimals),
+            liquidationThreshold: inEMode ? eMode.liquidationThreshold : bpsToPercent(liquidationThreshold) / 100,
+            collateralBalance,
+            debtBalance,
+        };
+    });
+}
+
 /**
  * Fetch user positions from Aave V3 using direct contract calls
  * This implementation matches the working ethers.js script exactly
  */
 export async function fetchAavePositions(
-    walletAddress: string
-): Promise<AavePosition[]> {
-    const positions: AavePosition[] = [];
-    const client = getClient();
+    walletAddress: string,
+    chainId: number = NETWORKS.MAINNET.chainId
+): Promise<Position[]> {
+    const positions: Position[] = [];
+    const deployment = AAVE_V3_DEPLOYMENTS[chainId];
+    if (!deployment) {
+        console.log(`[Aave] No Aave V3 deployment on chain ${chainId}`);
+        return positions;
+    }
+    const { pool, addressesProvider } = deployment;
+    const client = getChainClient(chainId);
+    const networkName = getNetwork(chainId)?.name ?? `chain ${chainId}`;
 
     try {
-        console.log(`[Aave] Fetching positions for ${walletAddress}`);
+        console.log(`[Aave] Fetching positions for ${walletAddress} on ${networkName}`);
 
         // Normalize wallet address to checksummed format
         const normalizedWallet = getAddress(walletAddress);
 
         // Call the proxy contract directly with the Pool ABI (exact same as ethers.js script)
         // The proxy will automatically delegate to the implementation
-        console.log(`[Aave] Calling getUserAccountData on proxy contract ${AAVE_V3_POOL}`);
+        console.log(`[Aave] Calling getUserAccountData on proxy contract ${pool}`);
+
+        // Pin every read to one block so balances and oracle prices are consistent
+        const blockNumber = await client.getBlockNumber();
 
         // Call getUserAccountData (same as pool.getUserAccountData(user) in ethers.js)
         const res = await client.readContract({
-            address: AAVE_V3_POOL,
+            address: pool,
             abi: AAVE_POOL_ABI,
             functionName: "getUserAccountData",
             args: [normalizedWallet],
+            blockNumber,
         }) as readonly [bigint, bigint, bigint, bigint, bigint, bigint];
 
         // Destructure the result (exact same as ethers.js script)
@@ -113,39 +287,123 @@ export async function fetchAavePositions(
             return positions;
         }
 
-        // Simplified approach: Create aggregate position from account data
-        // For a more detailed breakdown, we'd need to iterate reserves, but that's slow
-        // This gives us a consolidated view of the user's Aave position
+        // Break the account down into per-reserve collateral and debt legs
+        const userReserves = await fetchUserReserves(client, pool, addressesProvider, normalizedWallet, blockNumber);
 
-        // Estimate average prices (we'll use ETH as proxy for collateral and USDC for debt)
-        // In production, you'd want to get actual reserve breakdown
-        const estimatedCollateralPrice = await getTokenPrice("ETH"); // Default assumption
-        const estimatedDebtPrice = await getTokenPrice("USDC"); // Default assumption
+        // Value every reserve through the provider chain, with the Aave oracle (what liquidations use) as the protocol step
+        const oracleAddress = await client.readContract({
+            address: addressesProvider,
+            abi: AAVE_ADDRESSES_PROVIDER_ABI,
+            functionName: "getPriceOracle",
+            blockNumber,
+        });
+        let quotes: PriceQuote[];
+        try {
+            quotes = await resolvePrices(
+                userReserves.map((reserve) => ({ symbol: reserve.symbol, address: reserve.address })),
+                { client, chainId, blockNumber, protocol: createAaveOracleSource(client, oracleAddress, blockNumber) }
+            );
+        } catch (error) {
+            if (!(error instanceof PriceUnavailableError)) throw error;
+            console.warn(`[Aave] ${error.message}`);
+            const collateral = userReserves.find((reserve) => reserve.collateralBalance > 0n);
+            const debt = userReserves.find((reserve) => reserve.debtBalance > 0n);
+            positions.push(createUnpricedPosition({
+                id: `${walletAddress}-aave-v3-${chainId}-account`,
+                protocolId: "aave-v3",
+                chainId,
+                collateralAsset: collateral?.symbol || "NONE",
+                debtAsset: debt?.symbol || "NONE",
+                collateralAmount: collateral ? formatUnits(collateral.collateralBalance, collateral.decimals) : "0",
+                debtAmount: debt ? formatUnits(debt.debtBalance, debt.decimals) : "0",
+                liquidationThreshold: formatted.liquidationThresholdPercent / 100 || 0.8,
+            }, error));
+            return positions;
+        }
 
-        // Calculate estimated amounts (approximate)
-        const estimatedCollateralAmount = formatted.totalCollateral / estimatedCollateralPrice;
-        const estimatedDebtAmount = formatted.totalDebt / estimatedDebtPrice;
+        const toLeg = (reserve: UserReserve, balance: bigint): PositionLeg => {
+            const amount = formatUnits(balance, reserve.decimals);
+            const quote = quotes[userReserves.indexOf(reserve)];
+            return {
+                asset: reserve.symbol,
+                address: reserve.address,
+                amount,
+                decimals: reserve.decimals,
+                price: quote.price,
+                value: parseFloat(amount) * quote.price,
+                liquidationThreshold: reserve.liquidationThreshold,
+                priceSource: quote.source,
+                priceBlock: quote.blockNumber,
+            };
+        };
+
+        const collateralLegs = userReserves
+            .filter((reserve) => reserve.collateralBalance > 0n)
+            .map((reserve) => toLeg(reserve, reserve.collateralBalance));
+        const debtLegs = userReserves
+            .filter((reserve) => reserve.debtBalance > 0n)
+            .map((reserve) => toLeg(reserve, reserve.debtBalance));
+
+        // The largest leg on each side represents the position in single-asset views
+        const largest = (legs: PositionLeg[]) =>
+            legs.reduce<PositionLeg | undefined>((max, leg) => (!max || leg.value > max.value ? leg : max), undefined);
+        const primaryCollateral = largest(collateralLegs);
+        const primaryDebt = largest(debtLegs);
 
         // Use liquidationThresholdPercent (which is in percentage points like 82.5 for 82.5%)
         // Convert to decimal (0.825) for our liquidationThreshold field
         const liquidationThresholdDecimal = formatted.liquidationThresholdPercent / 100;
 
+        console.log(`[Aave] Reserves: collateral=${collateralLegs.map((leg) => leg.asset).join(",") || "none"}, debt=${debtLegs.map((leg) => leg.asset).join(",") || "none"}`);
+
+        // Aave accounts are cross-collateralised, so the whole account is one position
         positions.push({
-            id: `${walletAddress}-aave-v3-consolidated-${Date.now()}`,
+            id: `${walletAddress}-aave-v3-${chainId}-account`,
             protocolId: "aave-v3",
-            collateralAsset: "MIXED",
-            debtAsset: "MIXED",
-            collateralAmount: estimatedCollateralAmount.toFixed(6),
-            debtAmount: estimatedDebtAmount.toFixed(6),
-            collateralValue: formatted.totalCollateral,
-            debtValue: formatted.totalDebt,
+            chainId,
+            collateralAsset: primaryCollateral?.asset || "NONE",
+            debtAsset: primaryDebt?.asset || "NONE",
+            collateralAmount: primaryCollateral?.amount || "0",
+            debtAmount: primaryDebt?.amount || "0",
+            collateralValue: collateralLegs.reduce((sum, leg) => sum + leg.value, 0),
+            debtValue: debtLegs.reduce((sum, leg) => sum + leg.value, 0),
             liquidationThreshold: liquidationThresholdDecimal || 0.8,
+            collateralLegs,
+            debtLegs,
         });
 
+        // Leg prices may come from another provider than the Pool's oracle, so only a large gap means the thresholds are off
+        const legHealthFactor = calculateHealthFactor(positions[positions.length - 1]!);
+        if (Math.abs(legHealthFactor - formatted.healthFactor) > formatted.healthFactor * 0.02) {
+            console.warn(`[Aave] Health factor from the reserve legs (${legHealthFactor.toFixed(4)}) differs from the Pool's (${formatted.healthFactor.toFixed(4)})`);
+        }
+
         console.log(`[Aave] Created ${positions.length} position(s)`);
         return positions;
     } catch (error) {
-        console.error("Error fetching Aave positions from contracts:", error);
-        return positions;
+        console.error(`Error fetching Aave positions from contracts on ${networkName}:`, error);
+        throw error;
     }
 }
+
+/**
+ * Aave V3 adapter: one cross-collateralised position per account
+ * Health factor and liquidation price follow Aave's own formula over the per-reserve legs
+ */
+export const aaveAdapter: ProtocolAdapter = {
+    id: "aave-v3",
+    name: "Aave V3",
+    supportedChains: Object.keys(AAVE_V3_DEPLOYMENTS).map(Number),
+    async discoverMarkets(chainId = NETWORKS.MAINNET.chainId) {
+        const deployment = AAVE_V3_DEPLOYMENTS[chainId];
+        return deployment ? [`Aave V3 Pool (${deployment.pool})`] : [];
+    },
+    async fetchPositions(walletAddress, options) {
+        return {
+            positions: await fetchAavePositions(walletAddress, options?.chainId),
+            marketsScanned: await aaveAdapter.discoverMarkets(options?.chainId),
+        };
+    },
+    getHealthFactor: calculateHealthFactor,
+    getLiquidationPrice: calculateLiquidationPrice,
+};
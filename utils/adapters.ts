@@ -0,0 +1,20 @@
+/**
+ * Protocol adapter registration
+ * To add a protocol, implement ProtocolAdapter next to the existing ones and register it here
+ */
+
+import { registerProtocolAdapter } from "./protocols.js";
+import { aaveAdapter } from "./aave.js";
+import { curveAdapter } from "./curve.js";
+import { compoundAdapter } from "./compound.js";
+import { morphoAdapter } from "./morpho.js";
+import { makerAdapter } from "./maker.js";
+import { liquityV1Adapter, liquityV2Adapter } from "./liquity.js";
+
+registerProtocolAdapter(aaveAdapter);
+registerProtocolAdapter(curveAdapter);
+registerProtocolAdapter(compoundAdapter);
+registerProtocolAdapter(morphoAdapter);
+registerProtocolAdapter(makerAdapter);
+registerProtocolAdapter(liquityV1Adapter);
+registerProtocolAdapter(liquityV2Adapter);
@@ -0,0 +1,165 @@
+/**
+ * Per-position alert state
+ * Tiers a position's buffer into a severity, holds it there until the buffer clears the tier's
+ * boundary by ALERT_CONFIG.hysteresisPercent, and reports transitions as alert events
+ */
+
+import type { AlertSeverity, PositionAlertState, PositionMemory } from "../types/memory.js";
+import { ALERT_CONFIG } from "./config.js";
+import type { PositionRisk } from "./monitoring.js";
+
+export type AlertEventKind =
+    | "triggered" // Newly in a tier
+    | "escalated" // Moved to a more severe tier
+    | "repeated" // Unchanged after the cooldown
+    | "recovered"; // Back above the buffer threshold
+
+export interface AlertEvent extends PositionRisk {
+    kind: AlertEventKind;
+    severity: AlertSeverity | null; // null once the position is safe
+    previousSeverity: AlertSeverity | null;
+}
+
+const SEVERITY_ORDER: AlertSeverity[] = ["info", "warning", "critical", "liquidatable"];
+
+/**
+ * Position of a severity in SEVERITY_ORDER; -1 for safe
+ */
+export function severityRank(severity: AlertSeverity | null): number {
+    return severity === null ? -1 : SEVERITY_ORDER.indexOf(severity);
+}
+
+/**
+ * Whether a severity means the buffer threshold is hit (info only warns of it)
+ */
+export function isAlerting(severity: AlertSeverity | null): boolean {
+    return severityRank(severity) >= severityRank("warning");
+}
+
+/**
+ * Buffer below which a position enters a tier
+ */
+function tierBoundary(severity: AlertSeverity, threshold: number): number {
+    switch (severity) {
+        case "info":
+            return threshold + ALERT_CONFIG.infoMarginPercent;
+        case "warning":
+            return threshold;
+        case "critical":
+            return Math.min(ALERT_CONFIG.criticalBufferPercent, threshold);
+        case "liquidatable":
+            return 0;
+    }
+}
+
+/**
+ * Severity of a position's latest buffer, ignoring its previous state
+ * Liquity troves at risk from recovery mode are at least a warning
+ */
+export function getAlertSeverity(risk: PositionRisk, threshold: number): AlertSeverity | null {
+    const severity = [...SEVERITY_ORDER].reverse()
+        .find((tier) => risk.bufferPercent < tierBoundary(tier, threshold)) ?? null;
+
+    if (risk.recoveryModeRisk && !isAlerting(severity)) {
+        return "warning";
+    }
+    return severity;
+}
+
+/**
+ * Escalate immediately, but only drop out of a tier once the buffer clears its boundary plus the hysteresis band
+ */
+function applyHysteresis(
+    previous: AlertSeverity | null,
+    current: AlertSeverity | null,
+    bufferPercent: number,
+    threshold: number
+): AlertSeverity | null {
+    if (severityRank(current) >= severityRank(previous)) {
+        return current;
+    }
+
+    for (let rank = severityRank(previous); rank > severityRank(current); rank--) {
+        const tier = SEVERITY_ORDER[rank]!;
+        if (bufferPercent < tierBoundary(tier, threshold) + ALERT_CONFIG.hysteresisPercent) {
+            return tier;
+        }
+    }
+    return current;
+}
+
+/**
+ * Update the stored alert state from the latest checks, log the resulting events and return them
+ * Positions that weren't assessed this time (e.g. unpriced) keep their state; positions no
+ * longer held are forgotten without a recovery event
+ */
+export function updateAlertStates(
+    memory: PositionMemory,
+    risks: PositionRisk[],
+    threshold: number,
+    now: number = Date.now()
+): AlertEvent[] {
+    const states = memory.monitoringState.alerts || [];
+    const nextStates: PositionAlertState[] = [];
+    const events: AlertEvent[] = [];
+
+    for (const risk of risks) {
+        const previous = states.find((state) => state.positionId === risk.positionId);
+        const previousSeverity = previous?.severity ?? null;
+        const severity = applyHysteresis(previousSeverity, getAlertSeverity(risk, threshold), risk.bufferPercent, threshold);
+
+        const event = (kind: AlertEventKind) => events.push({ ...risk, kind, severity, previousSeverity });
+
+        if (severity === null) {
+            if (isAlerting(previousSeverity)) event("recovered");
+            continue;
+        }
+
+        if (!previous) {
+            event("triggered");
+            nextStates.push({ positionId: risk.positionId, severity, since: now, lastAlertAt: now, bufferPercent: risk.bufferPercent });
+            continue;
+        }
+
+        const state: PositionAlertState = { ...previous, severity, bufferPercent: risk.bufferPercent };
+        if (severityRank(severity) > severityRank(previousSeverity)) {
+            event("escalated");
+            state.since = now;
+            state.lastAlertAt = now;
+        } else if (severityRank(severity) < severityRank(previousSeverity)) {
+            // Improving within the alert tiers is silent; leaving them is a recovery
+            if (isAlerting(previousSeverity) && !isAlerting(severity)) {
+                event("recovered");
+                state.lastAlertAt = now;
+            }
+            state.since = now;
+        } else if (now - previous.lastAlertAt >= ALERT_CONFIG.cooldownSeconds * 1000) {
+            event("repeated");
+            state.lastAlertAt = now;
+        }
+        nextStates.push(state);
+    }
+
+    for (const state of states) {
+        const assessed = risks.some((risk) => risk.positionId === state.positionId);
+        const held = memory.positions.some((position) => position.id === state.positionId);
+        if (!assessed && held) nextStates.push(state);
+    }
+
+    memory.monitoringState.alerts = nextStates;
+    if (events.length > 0) {
+        const log = memory.monitoringState.alertLog || [];
+        log.push(...events.map((event) => ({
+            timestamp: now,
+            positionId: event.positionId,
+            kind: event.kind,
+            severity: event.severity,
+            previousSeverity: event.previousSeverity,
+            bufferPercent: event.bufferPercent,
+            healthFactor: event.healthFactor,
+            threshold,
+        })));
+        memory.monitoringState.alertLog = log.slice(-ALERT_CONFIG.logSize);
+    }
+    return events;
+}
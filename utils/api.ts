@@ -0,0 +1,381 @@
+/**
+ * Local HTTP API
+ * JSON routes for dashboards and bots over the same monitoring pipeline the actions and the
+ * watch scheduler use, so wallets can be read and re-checked without an LLM round-trip.
+ * The routes are described by the OpenAPI document in utils/openapi.ts
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AnyAgent } from "@daydreamsai/core";
+import { z } from "zod";
+import { positionContext } from "../contexts/positionContext.js";
+import type { Position, PositionMemory } from "../types/memory.js";
+import { isAlerting } from "./alerts.js";
+import { API_CONFIG, NETWORKS } from "./config.js";
+import { assessPositions, evaluateAlerts } from "./monitoring.js";
+import { notifyAlertEvents } from "./notifications.js";
+import { buildOpenApiDocument } from "./openapi.js";
+import { queuePortfolioAlerts } from "./portfolio.js";
+import { getMonitoringStore } from "./storage.js";
+import { getWatchStatus, runExclusiveWalletCheck, runWalletCheck } from "./watcher.js";
+
+/**
+ * A request that can't be served, returned as { success: false, error } with the given status
+ */
+export class ApiError extends Error {
+    constructor(
+        public readonly status: number,
+        message: string
+    ) {
+        super(message);
+        this.name = "ApiError";
+    }
+}
+
+interface ApiRequest {
+    agent: AnyAgent;
+    params: Record<string, string>;
+    query: URLSearchParams;
+    body: unknown;
+}
+
+interface Route {
+    method: "GET" | "POST" | "PUT";
+    path: string; // "{name}" segments are captured into params
+    public?: boolean; // Served without the bearer token
+    handler(request: ApiRequest): Promise<unknown>;
+}
+
+const thresholdSchema = z.object({
+    alertThreshold: z.number().min(0).max(100),
+});
+
+let server: Server | null = null;
+
+const finiteOrNull = (value: number | undefined) => value !== undefined && Number.isFinite(value) ? value : null;
+
+/**
+ * Latest health factor, liquidation price and buffer of a position, as the monitoring checks left them
+ * Values are null until the position has been checked, and for positions without debt or a price
+ */
+function describePosition(memory: PositionMemory, position: Position) {
+    const hf = memory.monitoringState.healthFactors.find((entry) => entry.positionId === position.id);
+    const lp = memory.monitoringState.liquidationPrices.find((entry) => entry.positionId === position.id);
+    const priced = !position.unpriced;
+
+    return {
+        positionId: position.id,
+        protocolId: position.protocolId,
+        chainId: position.chainId,
+        collateralAsset: position.collateralAsset,
+        debtAsset: position.debtAsset,
+        collateralAmount: position.collateralAmount,
+        debtAmount: position.debtAmount,
+        collateralValue: position.collateralValue,
+        debtValue: position.debtValue,
+        healthFactor: priced ? finiteOrNull(hf?.healthFactor) : null,
+        liquidationPrice: priced ? finiteOrNull(lp?.liqPrice) : null,
+        currentPrice: priced ? finiteOrNull(lp?.currentPrice) : null,
+        bufferPercent: priced && hf ? finiteOrNull(Math.max(0, (hf.healthFactor - 1.0) * 100)) : null,
+        alertSeverity: memory.monitoringState.alerts?.find((alert) => alert.positionId === position.id)?.severity ?? null,
+        checkedAt: hf?.timestamp ?? null,
+        ...(position.maker?.nextHealthFactor != null && { nextHealthFactor: position.maker.nextHealthFactor }),
+        ...(position.unpriced && { unpriced: true, unpricedSymbols: position.unpriced.symbols }),
+    };
+}
+
+/**
+ * Configuration and alert status of a monitored wallet
+ */
+function describeWallet(memory: PositionMemory) {
+    const { risks } = assessPositions(memory);
+    const buffers = risks.map((risk) => risk.bufferPercent).filter((buffer) => Number.isFinite(buffer));
+
+    return {
+        wallet: memory.wallet,
+        protocolIds: memory.protocolIds,
+        chainIds: memory.chainIds || [NETWORKS.MAINNET.chainId],
+        positionCount: memory.positions.length,
+        alertThreshold: memory.monitoringState.alertThreshold,
+        alertThresholdHit: memory.monitoringState.alertThresholdHit,
+        activeAlerts: (memory.monitoringState.alerts || []).filter((alert) => isAlerting(alert.severity)).length,
+        minBufferPercent: buffers.length > 0 ? Math.min(...buffers) : null,
+        lastChecked: memory.monitoringState.lastChecked || null,
+        watch: getWatchStatus(memory.wallet)[0] ?? null,
+    };
+}
+
+/**
+ * Context keys of every stored wallet with a configured address
+ */
+async function listWalletKeys(): Promise<string[]> {
+    const store = await getMonitoringStore();
+    return (await store.list<PositionMemory>(positionContext.type))
+        .filter(({ memory }) => !!memory.wallet)
+        .map(({ id }) => id.slice(positionContext.type.length + 1));
+}
+
+/**
+ * Open the monitoring context of a stored wallet; unknown wallets are a 404 rather than a new context
+ */
+async function loadWallet(agent: AnyAgent, wallet: string) {
+    if (!/^0x[a-fA-F0-9]{40}$/.test(wallet)) {
+        throw new ApiError(400, "Wallet address must be a valid Ethereum address (0x...)");
+    }
+
+    const key = wallet.toLowerCase();
+    if (!(await listWalletKeys()).includes(key)) {
+        throw new ApiError(404, `Wallet ${wallet} is not monitored. Set it up with initializeMonitoring first.`);
+    }
+
+    const state = await agent.getContext({ context: positionContext, args: { wallet: key } });
+    return { state, memory: state.memory as PositionMemory };
+}
+
+const routes: Route[] = [
+    {
+        method: "GET",
+        path: "/openapi.json",
+        public: true,
+        async handler() {
+            return buildOpenApiDocument();
+        },
+    },
+    {
+        method: "GET",
+        path: "/wallets",
+        async handler({ agent }) {
+            const wallets = [];
+            for (const key of await listWalletKeys()) {
+                const state = await agent.getContext({ context: positionContext, args: { wallet: key } });
+                wallets.push(describeWallet(state.memory as PositionMemory));
+            }
+            return { success: true, wallets };
+        },
+    },
+    {
+        method: "GET",
+        path: "/wallets/{wallet}",
+        async handler({ agent, params }) {
+            const { memory } = await loadWallet(agent, params.wallet!);
+            return {
+                success: true,
+                ...describeWallet(memory),
+                positions: memory.positions.map((position) => describePosition(memory, position)),
+            };
+        },
+    },
+    {
+        method: "POST",
+        path: "/wallets/{wallet}/check",
+        async handler({ agent, params }) {
+            const { state, memory } = await loadWallet(agent, params.wallet!);
+            if (memory.protocolIds.length === 0) {
+                throw new ApiError(409, "Monitoring not initialized. Use initializeMonitoring first.");
+            }
+
+            // Discovery, the monitoring checks and notifications, as a watch run does (never alongside one)
+            const result = await runExclusiveWalletCheck(memory.wallet, async () => {
+                const checked = await runWalletCheck(memory);
+                await agent.saveContext(state);
+                return checked;
+            });
+            if (!result) {
+                throw new ApiError(409, `A check of ${memory.wallet} is already running`);
+            }
+
+            return {
+                success: true,
+                ...describeWallet(memory),
+                positions: memory.positions.map((position) => describePosition(memory, position)),
+                alertEvents: result.alertEvents,
+            };
+        },
+    },
+    {
+        method: "PUT",
+        path: "/wallets/{wallet}/threshold",
+        async handler({ agent, params, body }) {
+            const parsed = thresholdSchema.safeParse(body);
+            if (!parsed.success) {
+                throw new ApiError(400, `Invalid body: ${parsed.error.issues.map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`).join("; ")}`);
+            }
+
+            const { state, memory } = await loadWallet(agent, params.wallet!);
+            const threshold = parsed.data.alertThreshold;
+            memory.monitoringState.alertThreshold = threshold;
+
+            // Re-tier the latest checks against the new threshold, as checkAlertThreshold does
+            let alertEvents: Awaited<ReturnType<typeof evaluateAlerts>>["events"] = [];
+            if (memory.monitoringState.healthFactors.length > 0) {
+                alertEvents = evaluateAlerts(memory, threshold).events;
+                await notifyAlertEvents(memory, alertEvents, threshold);
+                queuePortfolioAlerts(memory, alertEvents);
+            }
+            memory.lastUpdated = Date.now();
+            await agent.saveContext(state);
+
+            return {
+                success: true,
+                ...describeWallet(memory),
+                alertEvents,
+            };
+        },
+    },
+    {
+        method: "GET",
+        path: "/wallets/{wallet}/alerts",
+        async handler({ agent, params, query }) {
+            const limit = Number(query.get("limit") || 50);
+            if (!Number.isInteger(limit) || limit <= 0) {
+                throw new ApiError(400, "limit must be a positive integer");
+            }
+
+            const { memory } = await loadWallet(agent, params.wallet!);
+            return {
+                success: true,
+                wallet: memory.wallet,
+                alertThreshold: memory.monitoringState.alertThreshold,
+                alertThresholdHit: memory.monitoringState.alertThresholdHit,
+                activeAlerts: memory.monitoringState.alerts || [],
+                // Most recent first
+                history: (memory.monitoringState.alertLog || []).slice(-limit).reverse(),
+            };
+        },
+    },
+];
+
+/**
+ * Match a request path against a route path, capturing "{name}" segments
+ * Throws ApiError(400) for a segment that isn't valid percent-encoding
+ */
+function matchPath(routePath: string, path: string): Record<string, string> | null {
+    const routeSegments = routePath.split("/");
+    const segments = path.replace(/\/+$/, "").split("/");
+    if (routeSegments.length !== segments.length) return null;
+
+    const params: Record<string, string> = {};
+    for (const [index, segment] of routeSegments.entries()) {
+        const value = segments[index]!;
+        if (segment.startsWith("{") && segment.endsWith("}")) {
+            if (!value) return null;
+            try {
+                params[segment.slice(1, -1)] = decodeURIComponent(value);
+            } catch {
+                throw new ApiError(400, `Malformed path segment: ${value}`);
+            }
+        } else if (segment !== value) {
+            return null;
+        }
+    }
+    return params;
+}
+
+/**
+ * Constant-time bearer token check
+ */
+function isAuthorized(request: IncomingMessage): boolean {
+    const header = request.headers.authorization || "";
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    if (!match) return false;
+
+    const digest = (value: string) => createHash("sha256").update(value).digest();
+    return timingSafeEqual(digest(match[1]!.trim()), digest(API_CONFIG.token));
+}
+
+async function readBody(request: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of request) {
+        size += chunk.length;
+        if (size > API_CONFIG.maxBodyBytes) {
+            throw new ApiError(413, `Request body exceeds ${API_CONFIG.maxBodyBytes} bytes`);
+        }
+        chunks.push(chunk);
+    }
+
+    const text = Buffer.concat(chunks).toString("utf8");
+    if (!text) return undefined;
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new ApiError(400, "Request body must be JSON");
+    }
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body));
+}
+
+async function handleRequest(agent: AnyAgent, request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url || "/", "http://localhost");
+
+    try {
+        const matches = routes.flatMap((route) => {
+            const params = matchPath(route.path, url.pathname);
+            return params ? [{ route, params }] : [];
+        });
+        if (matches.length === 0) {
+            throw new ApiError(404, `No route for ${url.pathname}`);
+        }
+
+        const match = matches.find(({ route }) => route.method === request.method);
+        if (!match) {
+            response.setHeader("Allow", matches.map(({ route }) => route.method).join(", "));
+            throw new ApiError(405, `${request.method} is not allowed on ${url.pathname}`);
+        }
+
+        if (!match.route.public && !isAuthorized(request)) {
+            response.setHeader("WWW-Authenticate", "Bearer");
+            throw new ApiError(401, "Missing or invalid bearer token");
+        }
+
+        console.log(`[API] ${request.method} ${url.pathname}`);
+        const body = request.method === "GET" ? undefined : await readBody(request);
+        const result = await match.route.handler({ agent, params: match.params, query: url.searchParams, body });
+        sendJson(response, 200, result);
+    } catch (error) {
+        if (error instanceof ApiError) {
+            sendJson(response, error.status, { success: false, error: error.message });
+            return;
+        }
+        console.error(`[API] Error handling ${request.method} ${url.pathname}:`, error);
+        sendJson(response, 500, { success: false, error: error instanceof Error ? error.message : String(error) });
+    }
+}
+
+/**
+ * Start the HTTP API on API_CONFIG.host / port
+ * Refuses to start without API_CONFIG.token
+ */
+export async function startApiServer(agent: AnyAgent): Promise<Server> {
+    if (server) return server;
+    if (!API_CONFIG.token) {
+        throw new Error("API_TOKEN must be set to start the HTTP API");
+    }
+
+    const instance = createServer((request, response) => void handleRequest(agent, request, response));
+    await new Promise<void>((resolve, reject) => {
+        instance.once("error", reject);
+        instance.listen(API_CONFIG.port, API_CONFIG.host, () => {
+            instance.off("error", reject);
+            resolve();
+        });
+    });
+
+    server = instance;
+    console.log(`[API] Listening on http://${API_CONFIG.host}:${API_CONFIG.port} (OpenAPI document at /openapi.json)`);
+    return instance;
+}
+
+/**
+ * Stop the HTTP API
+ */
+export async function stopApiServer(): Promise<void> {
+    if (!server) return;
+    const instance = server;
+    server = null;
+    await new Promise<void>((resolve) => instance.close(() => resolve()));
+}
@@ -0,0 +1,90 @@
+/**
+ * Chain selection and RPC clients
+ * One cached viem client per configured network
+ */
+
+import { BaseError, ContractFunctionRevertedError, createPublicClient, http, type PublicClient } from "viem";
+import { NETWORKS, type NetworkConfig } from "./config.js";
+
+/**
+ * Thrown when a chain ID or name doesn't match any configured network
+ */
+export class UnsupportedChainError extends Error {
+    constructor(
+        public readonly chains: Array<number | string>,
+        public readonly supportedChains: string[]
+    ) {
+        super(`Unsupported chain(s): ${chains.join(", ")}. Supported chains: ${supportedChains.join(", ")}`);
+        this.name = "UnsupportedChainError";
+    }
+}
+
+const networks: NetworkConfig[] = Object.values(NETWORKS);
+const clients = new Map<number, PublicClient>();
+
+export function getNetwork(chainId: number): NetworkConfig | undefined {
+    return networks.find((network) => network.chainId === chainId);
+}
+
+export function getSupportedChainIds(): number[] {
+    return networks.map((network) => network.chainId);
+}
+
+/**
+ * Human-readable list of supported chains, e.g. "arbitrum (42161)"
+ */
+export function describeSupportedChains(): string[] {
+    return networks.map((network) => `${network.shortName} (${network.chainId})`);
+}
+
+/**
+ * Resolve chain IDs or names ("arbitrum", "42161", 42161) to chain IDs
+ * Throws UnsupportedChainError if any entry doesn't match a configured network
+ */
+export function resolveChainIds(chains: Array<number | string>): number[] {
+    const unsupported: Array<number | string> = [];
+    const chainIds = chains.map((chain) => {
+        const key = String(chain).trim().toLowerCase();
+        const network = networks.find((network) =>
+            String(network.chainId) === key ||
+            network.shortName === key ||
+            network.name.toLowerCase() === key
+        );
+        if (!network) unsupported.push(chain);
+        return network?.chainId;
+    });
+
+    if (unsupported.length > 0) {
+        throw new UnsupportedChainError(unsupported, describeSupportedChains());
+    }
+    return [...new Set(chainIds as number[])];
+}
+
+/**
+ * Get the viem public client for a chain
+ */
+export function getChainClient(chainId: number): PublicClient {
+    const cached = clients.get(chainId);
+    if (cached) return cached;
+
+    const network = getNetwork(chainId);
+    if (!network) {
+        throw new UnsupportedChainError([chainId], describeSupportedChains());
+    }
+
+    const client = createPublicClient({
+        chain: network.chain,
+        transport: http(network.rpcUrl),
+        // Aggregate per-reserve / per-market reads into multicalls
+        batch: { multicall: true },
+    }) as PublicClient;
+    clients.set(chainId, client);
+    return client;
+}
+
+/**
+ * Whether a contract read failed because the call reverted, as opposed to an RPC or transport failure
+ */
+export function isContractRevert(error: unknown): boolean {
+    return error instanceof BaseError && error.walk((err) => err instanceof ContractFunctionRevertedError) !== null;
+}
@@ -0,0 +1,267 @@
+/**
+ * Compound V3 (Comet) protocol integration utilities
+ * Fetches borrow positions from Comet markets on Ethereum Mainnet using direct contract calls
+ */
+
+import { createPublicClient, http, formatUnits, getAddress, type Address } from "viem";
+import { mainnet } from "viem/chains";
+import type { Position, PositionLeg } from "../types/memory.js";
+import { NETWORKS } from "./config.js";
+import { createCometOracleSource, PriceUnavailableError, resolvePrices, type PriceQuote } from "./prices.js";
+import { createUnpricedPosition, type ProtocolAdapter } from "./protocols.js";
+import { calculateHealthFactor, calculateLiquidationPrice } from "./risk.js";
+import { COMET_ABI, ERC20_ABI } from "./contracts.js";
+
+// Comet markets on Ethereum Mainnet (properly checksummed)
+// numeraire is the unit the market's price feeds are quoted in
+const COMET_MARKETS: Array<{ name: string; address: Address; numeraire: "USD" | "ETH" }> = [
+    { name: "Compound V3 USDC", address: getAddress("0xc3d688B66703497DAA19211EEdff47f25384cdc3"), numeraire: "USD" },
+    { name: "Compound V3 WETH", address: getAddress("0xA17581A9E3356d9A858b789D68B4d866e593aE94"), numeraire: "ETH" },
+];
+
+// Collateral factors are scaled to 1e18
+const FACTOR_DECIMALS = 18;
+
+/**
+ * Create a viem public client for Ethereum mainnet
+ */
+function getClient() {
+    return createPublicClient({
+        chain: mainnet,
+        transport: http(NETWORKS.MAINNET.rpcUrl),
+        // Aggregate the per-asset reads into multicalls
+        batch: { multicall: true },
+    });
+}
+
+/**
+ * Get token symbol from contract
+ */
+async function getTokenSymbol(assetAddress: Address, client: ReturnType<typeof getClient>): Promise<string> {
+    try {
+        return await client.readContract({
+            address: assetAddress,
+            abi: ERC20_ABI,
+            functionName: "symbol",
+        });
+    } catch {
+        return "UNKNOWN";
+    }
+}
+
+/**
+ * Read one Comet market for the user
+ * Returns null when the account has no borrow in this market
+ */
+async function fetchCometPosition(
+    client: ReturnType<typeof getClient>,
+    market: (typeof COMET_MARKETS)[number],
+    walletAddress: string,
+    user: Address,
+    blockNumber: bigint
+): Promise<Position | null> {
+    const comet = market.address;
+
+    const borrowBalance = await client.readContract({
+        address: comet,
+        abi: COMET_ABI,
+        functionName: "borrowBalanceOf",
+        args: [user],
+        blockNumber,
+    });
+
+    if (borrowBalance === 0n) {
+        return null;
+    }
+
+    const [baseToken, baseTokenPriceFeed, baseDecimals, numAssets, liquidatable] = await Promise.all([
+        client.readContract({ address: comet, abi: COMET_ABI, functionName: "baseToken", blockNumber }),
+        client.readContract({ address: comet, abi: COMET_ABI, functionName: "baseTokenPriceFeed", blockNumber }),
+        client.readContract({ address: comet, abi: COMET_ABI, functionName: "decimals", blockNumber }),
+        client.readContract({ address: comet, abi: COMET_ABI, functionName: "numAssets", blockNumber }),
+        client.readContract({ address: comet, abi: COMET_ABI, functionName: "isLiquidatable", args: [user], blockNumber }),
+    ]);
+
+    const assetInfos = await Promise.all(
+        Array.from({ length: numAssets }, (_, i) =>
+            client.readContract({ address: comet, abi: COMET_ABI, functionName: "getAssetInfo", args: [i], blockNumber })
+        )
+    );
+
+    const balances = await Promise.all(
+        assetInfos.map((info) =>
+            client.readContract({
+                address: comet,
+                abi: COMET_ABI,
+                functionName: "collateralBalanceOf",
+                args: [user, info.asset],
+                blockNumber,
+            })
+        )
+    );
+
+    const collaterals = assetInfos
+        .map((info, index) => ({ info, balance: balances[index] }))
+        .filter(({ balance }) => balance > 0n);
+
+    const [baseSymbol, ...collateralSymbols] = await Promise.all([
+        getTokenSymbol(baseToken, client),
+        ...collaterals.map(({ info }) => getTokenSymbol(info.asset, client)),
+    ]);
+
+    // Price everything through the provider chain with the market's own feeds as the protocol step;
+    // ETH-quoted feeds are converted to USD
+    const priceFeeds: Record<string, Address> = {
+        [baseToken.toLowerCase()]: baseTokenPriceFeed,
+        ...Object.fromEntries(collaterals.map(({ info }) => [info.asset.toLowerCase(), info.priceFeed])),
+    };
+    let quotes: PriceQuote[];
+    try {
+        const [numeraireUsd] = market.numeraire === "USD"
+            ? [1]
+            : (await resolvePrices([{ symbol: "ETH", address: baseToken }], { client, chainId: mainnet.id, blockNumber })).map((quote) => quote.price);
+
+        quotes = await resolvePrices([
+            { symbol: baseSymbol, address: baseToken },
+            ...collaterals.map(({ info }, index) => ({ symbol: collateralSymbols[index], address: info.asset })),
+        ], {
+            client,
+            chainId: mainnet.id,
+            blockNumber,
+            protocol: createCometOracleSource(client, comet, priceFeeds, numeraireUsd, blockNumber),
+        });
+    } catch (error) {
+        if (!(error instanceof PriceUnavailableError)) throw error;
+        console.warn(`[Compound] ${market.name}: ${error.message}`);
+        const [collateral] = collaterals;
+        return createUnpricedPosition({
+            id: `${walletAddress}-compound-v3-${comet}`,
+            protocolId: "compound-v3",
+            chainId: mainnet.id,
+            collateralAsset: collateralSymbols[0] || "NONE",
+            debtAsset: baseSymbol,
+            collateralAmount: collateral ? formatUnits(collateral.balance, collateral.info.scale.toString().length - 1) : "0",
+            debtAmount: formatUnits(borrowBalance, baseDecimals),
+            liquidationThreshold: collateral ? Number(formatUnits(collateral.info.liquidateCollateralFactor, FACTOR_DECIMALS)) : 0,
+            comet: { market: comet, liquidatable },
+        }, error);
+    }
+    const [baseQuote, ...collateralQuotes] = quotes;
+
+    const collateralLegs: PositionLeg[] = collaterals.map(({ info, balance }, index) => {
+        const decimals = info.scale.toString().length - 1;
+        const amount = formatUnits(balance, decimals);
+        const quote = collateralQuotes[index];
+        return {
+            asset: collateralSymbols[index],
+            address: info.asset,
+            amount,
+            decimals,
+            price: quote.price,
+            value: parseFloat(amount) * quote.price,
+            // Comet liquidates when Σ(collateral × price × liquidateCollateralFactor) < borrow × price
+            liquidationThreshold: Number(formatUnits(info.liquidateCollateralFactor, FACTOR_DECIMALS)),
+            priceSource: quote.source,
+            priceBlock: quote.blockNumber,
+        };
+    });
+
+    const debtAmount = formatUnits(borrowBalance, baseDecimals);
+    const debtLeg: PositionLeg = {
+        asset: baseSymbol,
+        address: baseToken,
+        amount: debtAmount,
+        decimals: baseDecimals,
+        price: baseQuote.price,
+        value: parseFloat(debtAmount) * baseQuote.price,
+        liquidationThreshold: 0,
+        priceSource: baseQuote.source,
+        priceBlock: baseQuote.blockNumber,
+    };
+
+    const collateralValue = collateralLegs.reduce((sum, leg) => sum + leg.value, 0);
+    const primaryCollateral = collateralLegs.reduce<PositionLeg | undefined>(
+        (max, leg) => (!max || leg.value > max.value ? leg : max),
+        undefined
+    );
+
+    console.log(`[Compound] Found position in ${market.name}: collateral=${collateralLegs.map((leg) => `${leg.amount} ${leg.asset}`).join(", ") || "none"}, debt=${debtAmount} ${baseSymbol}${liquidatable ? " (LIQUIDATABLE)" : ""}`);
+
+    return {
+        id: `${walletAddress}-compound-v3-${comet}`,
+        protocolId: "compound-v3",
+        chainId: mainnet.id,
+        collateralAsset: primaryCollateral?.asset || "NONE",
+        debtAsset: baseSymbol,
+        collateralAmount: primaryCollateral?.amount || "0",
+        debtAmount,
+        collateralValue,
+        debtValue: debtLeg.value,
+        // Value-weighted liquidateCollateralFactor across the collateral legs
+        liquidationThreshold: collateralValue > 0
+            ? collateralLegs.reduce((sum, leg) => sum + leg.value * leg.liquidationThreshold, 0) / collateralValue
+            : 0,
+        collateralLegs,
+        debtLegs: [debtLeg],
+        comet: { market: comet, liquidatable },
+    };
+}
+
+/**
+ * Fetch user borrow positions from all known Comet markets
+ */
+export async function fetchCompoundPositions(
+    walletAddress: string
+): Promise<Position[]> {
+    const positions: Position[] = [];
+    const client = getClient();
+
+    try {
+        console.log(`[Compound] Fetching positions for ${walletAddress}`);
+
+        // Normalize wallet address to checksummed format
+        const normalizedWallet = getAddress(walletAddress);
+
+        // Pin every read to one block so balances and prices are consistent
+        const blockNumber = await client.getBlockNumber();
+
+        // A market that can't be read fails the whole fetch, so the stored positions are kept (fetchAllPositions)
+        for (const market of COMET_MARKETS) {
+            const position = await fetchCometPosition(client, market, walletAddress, normalizedWallet, blockNumber);
+            if (position) {
+                positions.push(position);
+            }
+        }
+
+        console.log(`[Compound] Created ${positions.length} position(s)`);
+        return positions;
+    } catch (error) {
+        console.error("[Compound] Error fetching Compound positions from contracts:", error);
+        throw error;
+    }
+}
+
+/**
+ * Compound V3 adapter: one position per Comet market
+ * The health factor mirrors isLiquidatable: Σ(collateral × price × liquidateCollateralFactor) / borrow value,
+ * liquidatable below 1.0 - and the on-chain flag wins when it disagrees (e.g. rounding at the boundary)
+ */
+export const compoundAdapter: ProtocolAdapter = {
+    id: "compound-v3",
+    name: "Compound V3",
+    supportedChains: [mainnet.id],
+    async discoverMarkets() {
+        return COMET_MARKETS.map((market) => `${market.name} (${market.address})`);
+    },
+    async fetchPositions(walletAddress) {
+        return {
+            positions: await fetchCompoundPositions(walletAddress),
+            marketsScanned: await compoundAdapter.discoverMarkets(),
+        };
+    },
+    getHealthFactor(position) {
+        const healthFactor = calculateHealthFactor(position);
+        return position.comet?.liquidatable ? Math.min(healthFactor, 0.9999) : healthFactor;
+    },
+    getLiquidationPrice: calculateLiquidationPrice,
+};
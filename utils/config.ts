@@ -1,35 +1,217 @@
 /**
  * Configuration for DeFi protocol integrations
- * Ethereum Mainnet configurations
+ * Networks the agent can read from (protocol deployments live in each adapter)
  */
 
+import { arbitrum, base, mainnet, optimism, polygon, type Chain } from "viem/chains";
+import type { AlertSeverity } from "../types/memory.js";
+
+export interface NetworkConfig {
+    chainId: number;
+    name: string;
+    shortName: string; // Used to select the chain by name, e.g. "arbitrum"
+    chain: Chain;
+    rpcUrl: string;
+    wsUrl?: string; // Optional WebSocket endpoint for event subscriptions (logs are polled over rpcUrl otherwise)
+}
+
 export const NETWORKS = {
     MAINNET: {
         chainId: 1,
         name: "Ethereum Mainnet",
+        shortName: "ethereum",
+        chain: mainnet,
         rpcUrl: process.env.ETHEREUM_RPC_URL || "https://eth.llamarpc.com",
+        wsUrl: process.env.ETHEREUM_WS_URL,
+    },
+    ARBITRUM: {
+        chainId: 42161,
+        name: "Arbitrum One",
+        shortName: "arbitrum",
+        chain: arbitrum,
+        rpcUrl: process.env.ARBITRUM_RPC_URL || "https://arb1.arbitrum.io/rpc",
+        wsUrl: process.env.ARBITRUM_WS_URL,
+    },
+    BASE: {
+        chainId: 8453,
+        name: "Base",
+        shortName: "base",
+        chain: base,
+        rpcUrl: process.env.BASE_RPC_URL || "https://mainnet.base.org",
+        wsUrl: process.env.BASE_WS_URL,
+    },
+    OPTIMISM: {
+        chainId: 10,
+        name: "OP Mainnet",
+        shortName: "optimism",
+        chain: optimism,
+        rpcUrl: process.env.OPTIMISM_RPC_URL || "https://mainnet.optimism.io",
+        wsUrl: process.env.OPTIMISM_WS_URL,
+    },
+    POLYGON: {
+        chainId: 137,
+        name: "Polygon",
+        shortName: "polygon",
+        chain: polygon,
+        rpcUrl: process.env.POLYGON_RPC_URL || "https://polygon-rpc.com",
+        wsUrl: process.env.POLYGON_WS_URL,
     },
+} as const satisfies Record<string, NetworkConfig>;
+
+/**
+ * Pricing configuration
+ * Prices are resolved through providerOrder; CoinGecko can also be used as a cross-reference
+ */
+export const PRICE_CONFIG = {
+    // Providers tried in order for each token: "chainlink", "protocol" (the protocol's own oracle), "coingecko"
+    providerOrder: (process.env.PRICE_PROVIDER_ORDER || "chainlink,protocol,coingecko")
+        .split(",")
+        .map((provider) => provider.trim())
+        .filter(Boolean),
+    // Off-chain prices older than this are stale and skipped
+    maxPriceAgeSeconds: Number(process.env.PRICE_MAX_AGE_SECONDS || 600),
+    // Allowance on top of a Chainlink feed's heartbeat before its answer is stale
+    chainlinkGraceSeconds: Number(process.env.CHAINLINK_GRACE_SECONDS || 600),
+    // How long fetched prices are reused across positions, wallets and cycles
+    cacheTtlSeconds: Number(process.env.PRICE_CACHE_TTL_SECONDS || 60),
+    coingeckoCrossCheck: process.env.COINGECKO_CROSS_CHECK === "true",
+    // Log a warning when the oracle and CoinGecko disagree by more than this fraction
+    crossCheckDeviation: Number(process.env.COINGECKO_CROSS_CHECK_DEVIATION || 0.02),
 } as const;
 
 /**
- * Protocol configurations for Ethereum Mainnet
+ * Background watch scheduler configuration
  */
-export const PROTOCOL_CONFIGS = {
-    "aave-v3": {
-        name: "Aave V3",
-        chainId: 1,
-        poolAddress: "0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2", // Aave V3 Pool on Ethereum
-        subgraphUrl: "https://api.thegraph.com/subgraphs/name/aave/aave-v3-ethereum",
-        apiBaseUrl: "https://aave-api-v2.aave.com/data/",
+export const WATCH_CONFIG = {
+    enabled: process.env.WATCH_ENABLED !== "false",
+    // Default re-check interval per wallet
+    intervalSeconds: Number(process.env.WATCH_INTERVAL_SECONDS || 300),
+    // Floor for the interval once buffers approach the alert threshold
+    minIntervalSeconds: Number(process.env.WATCH_MIN_INTERVAL_SECONDS || 30),
+    // How often new liquidation-monitor contexts are picked up
+    contextSyncSeconds: Number(process.env.WATCH_CONTEXT_SYNC_SECONDS || 60),
+} as const;
+
+/**
+ * Event-driven re-checks between the watch scheduler's runs
+ * Chains with a wsUrl subscribe over WebSocket; the others poll for logs every pollingIntervalMs
+ */
+export const EVENT_WATCH_CONFIG = {
+    enabled: process.env.EVENT_WATCH_ENABLED !== "false",
+    pollingIntervalMs: Number(process.env.EVENT_POLLING_INTERVAL_MS || 12000),
+    // Events arriving within this window are handled in one re-check
+    debounceMs: Number(process.env.EVENT_DEBOUNCE_MS || 2000),
+    // Floor between re-checks triggered by reserve updates and price updates; the wallet's own
+    // activity and liquidations are re-checked right away
+    minRecheckSeconds: Number(process.env.EVENT_MIN_RECHECK_SECONDS || 30),
+} as const;
+
+/**
+ * Storage for monitoring state across restarts
+ * "sqlite" needs Bun or Node 22.5+; "memory" keeps state only for the life of the process
+ */
+export const STORAGE_CONFIG = {
+    backend: (process.env.STORAGE_BACKEND || "json") as "json" | "sqlite" | "memory",
+    // Defaults to .memory/monitoring.json or .memory/monitoring.db
+    path: process.env.STORAGE_PATH || "",
+} as const;
+
+/**
+ * Health factor history and trend analysis
+ */
+export const HISTORY_CONFIG = {
+    // Samples kept per position; the oldest are dropped first
+    maxSamples: Number(process.env.HF_HISTORY_MAX_SAMPLES || 500),
+    maxAgeHours: Number(process.env.HF_HISTORY_MAX_AGE_HOURS || 168),
+    // Default window the trend is fitted over
+    trendWindowHours: Number(process.env.HF_TREND_WINDOW_HOURS || 24),
+    // Health factor changes slower than this per hour count as stable
+    stableChangePerHour: Number(process.env.HF_TREND_STABLE_CHANGE_PER_HOUR || 0.001),
+} as const;
+
+/**
+ * Liquidation history scans (getLiquidationHistory)
+ * Without a fromBlock, each protocol / chain continues from its last scan, or reaches back at most
+ * maxBlocksPerScan blocks (L2 block numbers are large, so full history needs an explicit fromBlock)
+ */
+export const LIQUIDATION_HISTORY_CONFIG = {
+    maxBlocksPerScan: BigInt(process.env.LIQUIDATION_SCAN_MAX_BLOCKS || 10_000_000),
+    // Liquidations kept in the wallet's memory (most recent)
+    maxEvents: Number(process.env.LIQUIDATION_HISTORY_MAX_EVENTS || 100),
+} as const;
+
+/**
+ * Alert severity tiers, hysteresis and repeat cooldown
+ * Tiers are relative to each wallet's buffer threshold: info just above it, warning below it,
+ * critical below criticalBufferPercent and liquidatable below a health factor of 1
+ */
+export const ALERT_CONFIG = {
+    // Info alerts start this many percentage points above the threshold
+    infoMarginPercent: Number(process.env.ALERT_INFO_MARGIN_PERCENT || 5),
+    criticalBufferPercent: Number(process.env.ALERT_CRITICAL_BUFFER_PERCENT || 5),
+    // A position only drops out of a tier once its buffer clears the tier's boundary by this much
+    hysteresisPercent: Number(process.env.ALERT_HYSTERESIS_PERCENT || 2),
+    // Minimum time between repeats of an unchanged alert; escalations and recoveries are sent immediately
+    cooldownSeconds: Number(process.env.ALERT_COOLDOWN_SECONDS || 3600),
+    // Least severe tier that is sent to notification channels
+    notifyMinSeverity: (process.env.ALERT_NOTIFY_MIN_SEVERITY || "warning") as AlertSeverity,
+    // Alert transitions kept per wallet for the alert history
+    logSize: Number(process.env.ALERT_LOG_SIZE || 200),
+} as const;
+
+/**
+ * Portfolio configuration
+ */
+export const PORTFOLIO_CONFIG = {
+    // Alerts from a portfolio's wallets are collected for this long and sent as one message
+    alertRollupSeconds: Number(process.env.PORTFOLIO_ALERT_ROLLUP_SECONDS || 30),
+    // Riskiest positions listed in a portfolio summary
+    summaryLimit: Number(process.env.PORTFOLIO_SUMMARY_LIMIT || 10),
+} as const;
+
+/**
+ * Notification channel configuration
+ * API and SMTP endpoints can be pointed at local stand-ins for testing
+ */
+export const NOTIFICATION_CONFIG = {
+    // Per-request timeout for every channel
+    timeoutMs: Number(process.env.NOTIFY_TIMEOUT_MS || 10000),
+    telegram: {
+        botToken: process.env.TELEGRAM_BOT_TOKEN || "",
+        apiUrl: process.env.TELEGRAM_API_URL || "https://api.telegram.org",
     },
-    "curve": {
-        name: "Curve Finance",
-        chainId: 1,
-        // Curve uses multiple pools, we'll query via API
-        apiBaseUrl: "https://api.curve.fi/v1",
-        registryAddress: "0x90E00ACe148ca3b23Ac1bC8C240C2a7Dd9c2d7f5", // Curve Registry
+    smtp: {
+        host: process.env.SMTP_HOST || "",
+        port: Number(process.env.SMTP_PORT || 587),
+        secure: process.env.SMTP_SECURE === "true", // Implicit TLS (port 465)
+        startTls: process.env.SMTP_STARTTLS !== "false", // Upgrade when the server offers STARTTLS
+        user: process.env.SMTP_USER || "",
+        pass: process.env.SMTP_PASS || "",
+        from: process.env.SMTP_FROM || "liquidation-monitor@localhost",
     },
 } as const;
 
-export type ProtocolId = keyof typeof PROTOCOL_CONFIGS;
+/**
+ * Local fork (Anvil or Hardhat) used to dry-run remediation transactions before recommending them
+ */
+export const FORK_CONFIG = {
+    rpcUrl: process.env.FORK_RPC_URL || "http://127.0.0.1:8545",
+    // Selects the anvil_* or hardhat_* cheat codes for impersonation and balances
+    mode: (process.env.FORK_MODE || "anvil") as "anvil" | "hardhat",
+    // The impersonated sender is topped up to this much ETH for gas
+    gasFundingEther: process.env.FORK_GAS_FUNDING_ETHER || "10",
+} as const;
 
+/**
+ * Local HTTP API for dashboards and bots (utils/api.ts)
+ * Every route except the OpenAPI document needs "Authorization: Bearer <token>"; the server
+ * doesn't start without a token
+ */
+export const API_CONFIG = {
+    enabled: process.env.API_ENABLED === "true",
+    host: process.env.API_HOST || "127.0.0.1",
+    port: Number(process.env.API_PORT || 8787),
+    token: process.env.API_TOKEN || "",
+    // Requests with larger bodies are rejected
+    maxBodyBytes: Number(process.env.API_MAX_BODY_BYTES || 65536),
+} as const;
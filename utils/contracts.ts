@@ -19,6 +19,66 @@ export const AAVE_POOL_ABI = [
         stateMutability: "view",
         type: "function",
     },
+    // E-mode: the user's category and its collateral configuration (V3.2+; earlier versions use getEModeCategoryData)
+    {
+        inputs: [{ internalType: "address", name: "user", type: "address" }],
+        name: "getUserEMode",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "uint8", name: "id", type: "uint8" }],
+        name: "getEModeCategoryCollateralConfig",
+        outputs: [
+            {
+                components: [
+                    { internalType: "uint16", name: "ltv", type: "uint16" },
+                    { internalType: "uint16", name: "liquidationThreshold", type: "uint16" },
+                    { internalType: "uint16", name: "liquidationBonus", type: "uint16" },
+                ],
+                internalType: "struct DataTypes.CollateralConfig",
+                name: "",
+                type: "tuple",
+            },
+        ],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "uint8", name: "id", type: "uint8" }],
+        name: "getEModeCategoryCollateralBitmap",
+        outputs: [{ internalType: "uint128", name: "", type: "uint128" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "uint16", name: "id", type: "uint16" }],
+        name: "getReserveAddressById",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "uint8", name: "id", type: "uint8" }],
+        name: "getEModeCategoryData",
+        outputs: [
+            {
+                components: [
+                    { internalType: "uint16", name: "ltv", type: "uint16" },
+                    { internalType: "uint16", name: "liquidationThreshold", type: "uint16" },
+                    { internalType: "uint16", name: "liquidationBonus", type: "uint16" },
+                    { internalType: "address", name: "priceSource", type: "address" },
+                    { internalType: "string", name: "label", type: "string" },
+                ],
+                internalType: "struct DataTypes.EModeCategory",
+                name: "",
+                type: "tuple",
+            },
+        ],
+        stateMutability: "view",
+        type: "function",
+    },
     {
         inputs: [{ internalType: "address", name: "user", type: "address" }],
         name: "getUserReservesData",
@@ -43,6 +103,96 @@ export const AAVE_POOL_ABI = [
         stateMutability: "view",
         type: "function",
     },
+    {
+        inputs: [
+            { internalType: "address", name: "asset", type: "address" },
+            { internalType: "uint256", name: "amount", type: "uint256" },
+            { internalType: "address", name: "onBehalfOf", type: "address" },
+            { internalType: "uint16", name: "referralCode", type: "uint16" },
+        ],
+        name: "supply",
+        outputs: [],
+        stateMutability: "nonpayable",
+        type: "function",
+    },
+    {
+        inputs: [
+            { internalType: "address", name: "asset", type: "address" },
+            { internalType: "uint256", name: "amount", type: "uint256" },
+            { internalType: "uint256", name: "interestRateMode", type: "uint256" }, // 2 = variable
+            { internalType: "address", name: "onBehalfOf", type: "address" },
+        ],
+        name: "repay",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "nonpayable",
+        type: "function",
+    },
+    // Events that change an account's health factor
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: "address", name: "reserve", type: "address" },
+            { indexed: false, internalType: "address", name: "user", type: "address" },
+            { indexed: true, internalType: "address", name: "onBehalfOf", type: "address" },
+            { indexed: false, internalType: "uint256", name: "amount", type: "uint256" },
+            { indexed: false, internalType: "uint8", name: "interestRateMode", type: "uint8" },
+            { indexed: false, internalType: "uint256", name: "borrowRate", type: "uint256" },
+            { indexed: true, internalType: "uint16", name: "referralCode", type: "uint16" },
+        ],
+        name: "Borrow",
+        type: "event",
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: "address", name: "reserve", type: "address" },
+            { indexed: true, internalType: "address", name: "user", type: "address" },
+            { indexed: true, internalType: "address", name: "repayer", type: "address" },
+            { indexed: false, internalType: "uint256", name: "amount", type: "uint256" },
+            { indexed: false, internalType: "bool", name: "useATokens", type: "bool" },
+        ],
+        name: "Repay",
+        type: "event",
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: "address", name: "reserve", type: "address" },
+            { indexed: true, internalType: "address", name: "user", type: "address" },
+            { indexed: true, internalType: "address", name: "to", type: "address" },
+            { indexed: false, internalType: "uint256", name: "amount", type: "uint256" },
+        ],
+        name: "Withdraw",
+        type: "event",
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: "address", name: "collateralAsset", type: "address" },
+            { indexed: true, internalType: "address", name: "debtAsset", type: "address" },
+            { indexed: true, internalType: "address", name: "user", type: "address" },
+            { indexed: false, internalType: "uint256", name: "debtToCover", type: "uint256" },
+            { indexed: false, internalType: "uint256", name: "liquidatedCollateralAmount", type: "uint256" },
+            { indexed: false, internalType: "address", name: "liquidator", type: "address" },
+            { indexed: false, internalType: "bool", name: "receiveAToken", type: "bool" },
+        ],
+        name: "LiquidationCall",
+        type: "event",
+    },
+    // Emitted on every interaction with a reserve (new rates and indexes)
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: "address", name: "reserve", type: "address" },
+            { indexed: false, internalType: "uint256", name: "liquidityRate", type: "uint256" },
+            { indexed: false, internalType: "uint256", name: "stableBorrowRate", type: "uint256" },
+            { indexed: false, internalType: "uint256", name: "variableBorrowRate", type: "uint256" },
+            { indexed: false, internalType: "uint256", name: "liquidityIndex", type: "uint256" },
+            { indexed: false, internalType: "uint256", name: "variableBorrowIndex", type: "uint256" },
+        ],
+        name: "ReserveDataUpdated",
+        type: "event",
+    },
 ] as const;
 
 // Aave V3 PoolDataProvider ABI (for reserve details)
@@ -84,6 +234,87 @@ export const AAVE_DATA_PROVIDER_ABI = [
         stateMutability: "view",
         type: "function",
     },
+    {
+        inputs: [],
+        name: "getAllReservesTokens",
+        outputs: [
+            {
+                components: [
+                    { internalType: "string", name: "symbol", type: "string" },
+                    { internalType: "address", name: "tokenAddress", type: "address" },
+                ],
+                internalType: "struct IPoolDataProvider.TokenData[]",
+                name: "",
+                type: "tuple[]",
+            },
+        ],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [
+            { internalType: "address", name: "asset", type: "address" },
+            { internalType: "address", name: "user", type: "address" },
+        ],
+        name: "getUserReserveData",
+        outputs: [
+            { internalType: "uint256", name: "currentATokenBalance", type: "uint256" },
+            { internalType: "uint256", name: "currentStableDebt", type: "uint256" },
+            { internalType: "uint256", name: "currentVariableDebt", type: "uint256" },
+            { internalType: "uint256", name: "principalStableDebt", type: "uint256" },
+            { internalType: "uint256", name: "scaledVariableDebt", type: "uint256" },
+            { internalType: "uint256", name: "stableBorrowRate", type: "uint256" },
+            { internalType: "uint256", name: "liquidityRate", type: "uint256" },
+            { internalType: "uint40", name: "stableRateLastUpdated", type: "uint40" },
+            { internalType: "bool", name: "usageAsCollateralEnabled", type: "bool" },
+        ],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "address", name: "asset", type: "address" }],
+        name: "getReserveConfigurationData",
+        outputs: [
+            { internalType: "uint256", name: "decimals", type: "uint256" },
+            { internalType: "uint256", name: "ltv", type: "uint256" },
+            { internalType: "uint256", name: "liquidationThreshold", type: "uint256" },
+            { internalType: "uint256", name: "liquidationBonus", type: "uint256" },
+            { internalType: "uint256", name: "reserveFactor", type: "uint256" },
+            { internalType: "bool", name: "usageAsCollateralEnabled", type: "bool" },
+            { internalType: "bool", name: "borrowingEnabled", type: "bool" },
+            { internalType: "bool", name: "stableBorrowRateEnabled", type: "bool" },
+            { internalType: "bool", name: "isActive", type: "bool" },
+            { internalType: "bool", name: "isFrozen", type: "bool" },
+        ],
+        stateMutability: "view",
+        type: "function",
+    },
+    // V3.0 / V3.1 only
+    {
+        inputs: [{ internalType: "address", name: "asset", type: "address" }],
+        name: "getReserveEModeCategory",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+] as const;
+
+// Aave V3 PoolAddressesProvider ABI (to resolve the data provider and oracle)
+export const AAVE_ADDRESSES_PROVIDER_ABI = [
+    {
+        inputs: [],
+        name: "getPoolDataProvider",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [],
+        name: "getPriceOracle",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
 ] as const;
 
 // Aave V3 PriceOracle ABI
@@ -95,6 +326,20 @@ export const AAVE_PRICE_ORACLE_ABI = [
         stateMutability: "view",
         type: "function",
     },
+    {
+        inputs: [{ internalType: "address[]", name: "assets", type: "address[]" }],
+        name: "getAssetsPrices",
+        outputs: [{ internalType: "uint256[]", name: "", type: "uint256[]" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [],
+        name: "BASE_CURRENCY_UNIT",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
 ] as const;
 
 // Aave V3 ReserveConfiguration ABI (to get liquidation threshold)
@@ -113,18 +358,32 @@ export const CURVE_CONTROLLER_ABI = [
     {
         inputs: [{ internalType: "address", name: "user", type: "address" }],
         name: "user_state",
-        outputs: [
-            { internalType: "uint256[2]", name: "collaterals", type: "uint256[2]" },
-            { internalType: "uint256", name: "debt", type: "uint256" },
-            { internalType: "uint256", name: "staked_debt", type: "uint256" },
-            { internalType: "uint256", name: "debt_ceiling", type: "uint256" },
+        // [collateral, stablecoin (already soft-liquidated), debt, number of bands]
+        outputs: [{ internalType: "uint256[4]", name: "", type: "uint256[4]" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [
+            { internalType: "address", name: "user", type: "address" },
+            { internalType: "bool", name: "full", type: "bool" },
         ],
+        name: "health",
+        outputs: [{ internalType: "int256", name: "", type: "int256" }],
         stateMutability: "view",
         type: "function",
     },
     {
         inputs: [{ internalType: "address", name: "user", type: "address" }],
-        name: "health",
+        name: "user_prices",
+        // [price at the top of the user's bands, price at the bottom]
+        outputs: [{ internalType: "uint256[2]", name: "", type: "uint256[2]" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [],
+        name: "liquidation_discount",
         outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
         stateMutability: "view",
         type: "function",
@@ -136,14 +395,187 @@ export const CURVE_CONTROLLER_ABI = [
         stateMutability: "view",
         type: "function",
     },
+    {
+        inputs: [],
+        name: "amm",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [
+            { internalType: "uint256", name: "collateral", type: "uint256" },
+            { internalType: "address", name: "_for", type: "address" },
+        ],
+        name: "add_collateral",
+        outputs: [],
+        stateMutability: "payable",
+        type: "function",
+    },
+    {
+        inputs: [
+            { internalType: "uint256", name: "_d_debt", type: "uint256" },
+            { internalType: "address", name: "_for", type: "address" },
+        ],
+        name: "repay",
+        outputs: [],
+        stateMutability: "payable",
+        type: "function",
+    },
+    // Events that change a loan's health (add_collateral emits Borrow with no loan increase)
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: "address", name: "user", type: "address" },
+            { indexed: false, internalType: "uint256", name: "collateral_increase", type: "uint256" },
+            { indexed: false, internalType: "uint256", name: "loan_increase", type: "uint256" },
+        ],
+        name: "Borrow",
+        type: "event",
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: "address", name: "user", type: "address" },
+            { indexed: false, internalType: "uint256", name: "collateral_decrease", type: "uint256" },
+            { indexed: false, internalType: "uint256", name: "loan_decrease", type: "uint256" },
+        ],
+        name: "Repay",
+        type: "event",
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: "address", name: "user", type: "address" },
+            { indexed: false, internalType: "uint256", name: "collateral_decrease", type: "uint256" },
+        ],
+        name: "RemoveCollateral",
+        type: "event",
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: "address", name: "liquidator", type: "address" },
+            { indexed: true, internalType: "address", name: "user", type: "address" },
+            { indexed: false, internalType: "uint256", name: "collateral_received", type: "uint256" },
+            { indexed: false, internalType: "uint256", name: "stablecoin_received", type: "uint256" },
+            { indexed: false, internalType: "uint256", name: "debt", type: "uint256" },
+        ],
+        name: "Liquidate",
+        type: "event",
+    },
+] as const;
+
+// Curve LLAMMA (AMM) ABI
+export const CURVE_AMM_ABI = [
+    {
+        inputs: [],
+        name: "price_oracle",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [],
+        name: "active_band",
+        outputs: [{ internalType: "int256", name: "", type: "int256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "address", name: "user", type: "address" }],
+        name: "read_user_tick_numbers",
+        // [n1, n2]: n1 is the top (highest price) band
+        outputs: [{ internalType: "int256[2]", name: "", type: "int256[2]" }],
+        stateMutability: "view",
+        type: "function",
+    },
 ] as const;
 
-// ERC20 ABI for getting token info
-export const ERC20_ABI = [
+// crvUSD ControllerFactory ABI (mint markets)
+export const CURVE_CONTROLLER_FACTORY_ABI = [
     {
         inputs: [],
-        name: "symbol",
-        outputs: [{ internalType: "string", name: "", type: "string" }],
+        name: "n_collaterals",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "uint256", name: "arg0", type: "uint256" }],
+        name: "controllers",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "uint256", name: "arg0", type: "uint256" }],
+        name: "amms",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "uint256", name: "arg0", type: "uint256" }],
+        name: "collaterals",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+] as const;
+
+// LlamaLend OneWayLendingFactory ABI (lending markets)
+export const CURVE_LENDING_FACTORY_ABI = [
+    {
+        inputs: [],
+        name: "market_count",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "uint256", name: "arg0", type: "uint256" }],
+        name: "controllers",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "uint256", name: "arg0", type: "uint256" }],
+        name: "amms",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "uint256", name: "arg0", type: "uint256" }],
+        name: "collateral_tokens",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "uint256", name: "arg0", type: "uint256" }],
+        name: "borrowed_tokens",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+] as const;
+
+// Compound V3 (Comet) ABI
+export const COMET_ABI = [
+    {
+        inputs: [],
+        name: "baseToken",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [],
+        name: "baseTokenPriceFeed",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
         stateMutability: "view",
         type: "function",
     },
@@ -155,11 +587,510 @@ export const ERC20_ABI = [
         type: "function",
     },
     {
-        inputs: [{ internalType: "address", name: "account", type: "address" }],
-        name: "balanceOf",
-        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        inputs: [],
+        name: "numAssets",
+        outputs: [{ internalType: "uint8", name: "", type: "uint8" }],
         stateMutability: "view",
         type: "function",
     },
+    {
+        inputs: [{ internalType: "uint8", name: "i", type: "uint8" }],
+        name: "getAssetInfo",
+        outputs: [
+            {
+                components: [
+                    { internalType: "uint8", name: "offset", type: "uint8" },
+                    { internalType: "address", name: "asset", type: "address" },
+                    { internalType: "address", name: "priceFeed", type: "address" },
+                    { internalType: "uint64", name: "scale", type: "uint64" },
+                    { internalType: "uint64", name: "borrowCollateralFactor", type: "uint64" },
+                    { internalType: "uint64", name: "liquidateCollateralFactor", type: "uint64" },
+                    { internalType: "uint64", name: "liquidationFactor", type: "uint64" },
+                    { internalType: "uint128", name: "supplyCap", type: "uint128" },
+                ],
+                internalType: "struct CometCore.AssetInfo",
+                name: "",
+                type: "tuple",
+            },
+        ],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [
+            { internalType: "address", name: "account", type: "address" },
+            { internalType: "address", name: "asset", type: "address" },
+        ],
+        name: "collateralBalanceOf",
+        outputs: [{ internalType: "uint128", name: "", type: "uint128" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "address", name: "account", type: "address" }],
+        name: "borrowBalanceOf",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "address", name: "priceFeed", type: "address" }],
+        name: "getPrice",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "address", name: "account", type: "address" }],
+        name: "isLiquidatable",
+        outputs: [{ internalType: "bool", name: "", type: "bool" }],
+        stateMutability: "view",
+        type: "function",
+    },
+] as const;
+
+// Morpho Blue ABI
+export const MORPHO_BLUE_ABI = [
+    {
+        inputs: [
+            { internalType: "Id", name: "id", type: "bytes32" },
+            { internalType: "address", name: "user", type: "address" },
+        ],
+        name: "position",
+        outputs: [
+            { internalType: "uint256", name: "supplyShares", type: "uint256" },
+            { internalType: "uint128", name: "borrowShares", type: "uint128" },
+            { internalType: "uint128", name: "collateral", type: "uint128" },
+        ],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "Id", name: "id", type: "bytes32" }],
+        name: "market",
+        outputs: [
+            { internalType: "uint128", name: "totalSupplyAssets", type: "uint128" },
+            { internalType: "uint128", name: "totalSupplyShares", type: "uint128" },
+            { internalType: "uint128", name: "totalBorrowAssets", type: "uint128" },
+            { internalType: "uint128", name: "totalBorrowShares", type: "uint128" },
+            { internalType: "uint128", name: "lastUpdate", type: "uint128" },
+            { internalType: "uint128", name: "fee", type: "uint128" },
+        ],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "Id", name: "id", type: "bytes32" }],
+        name: "idToMarketParams",
+        outputs: [
+            { internalType: "address", name: "loanToken", type: "address" },
+            { internalType: "address", name: "collateralToken", type: "address" },
+            { internalType: "address", name: "oracle", type: "address" },
+            { internalType: "address", name: "irm", type: "address" },
+            { internalType: "uint256", name: "lltv", type: "uint256" },
+        ],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: "Id", name: "id", type: "bytes32" },
+            { indexed: true, internalType: "address", name: "caller", type: "address" },
+            { indexed: true, internalType: "address", name: "onBehalf", type: "address" },
+            { indexed: false, internalType: "uint256", name: "assets", type: "uint256" },
+        ],
+        name: "SupplyCollateral",
+        type: "event",
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: "Id", name: "id", type: "bytes32" },
+            { indexed: false, internalType: "address", name: "caller", type: "address" },
+            { indexed: true, internalType: "address", name: "onBehalf", type: "address" },
+            { indexed: true, internalType: "address", name: "receiver", type: "address" },
+            { indexed: false, internalType: "uint256", name: "assets", type: "uint256" },
+            { indexed: false, internalType: "uint256", name: "shares", type: "uint256" },
+        ],
+        name: "Borrow",
+        type: "event",
+    },
+] as const;
+
+// Morpho Blue oracle ABI: price of 1 collateral unit in loan units, scaled by 1e36
+export const MORPHO_ORACLE_ABI = [
+    {
+        inputs: [],
+        name: "price",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+] as const;
+
+// Maker DSProxy registry (wallet -> proxy)
+export const MAKER_PROXY_REGISTRY_ABI = [
+    {
+        inputs: [{ internalType: "address", name: "", type: "address" }],
+        name: "proxies",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+] as const;
+
+// Maker GetCdps helper (vaults owned by an address in the CDP Manager)
+export const MAKER_GET_CDPS_ABI = [
+    {
+        inputs: [
+            { internalType: "address", name: "manager", type: "address" },
+            { internalType: "address", name: "guy", type: "address" },
+        ],
+        name: "getCdpsAsc",
+        outputs: [
+            { internalType: "uint256[]", name: "ids", type: "uint256[]" },
+            { internalType: "address[]", name: "urns", type: "address[]" },
+            { internalType: "bytes32[]", name: "ilks", type: "bytes32[]" },
+        ],
+        stateMutability: "view",
+        type: "function",
+    },
+] as const;
+
+// Maker Vat ABI (vault and collateral type accounting)
+export const MAKER_VAT_ABI = [
+    {
+        inputs: [
+            { internalType: "bytes32", name: "", type: "bytes32" },
+            { internalType: "address", name: "", type: "address" },
+        ],
+        name: "urns",
+        outputs: [
+            { internalType: "uint256", name: "ink", type: "uint256" },
+            { internalType: "uint256", name: "art", type: "uint256" },
+        ],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+        name: "ilks",
+        outputs: [
+            { internalType: "uint256", name: "Art", type: "uint256" },
+            { internalType: "uint256", name: "rate", type: "uint256" },
+            { internalType: "uint256", name: "spot", type: "uint256" },
+            { internalType: "uint256", name: "line", type: "uint256" },
+            { internalType: "uint256", name: "dust", type: "uint256" },
+        ],
+        stateMutability: "view",
+        type: "function",
+    },
+] as const;
+
+// Maker Spotter ABI (price feed and liquidation ratio per collateral type)
+export const MAKER_SPOTTER_ABI = [
+    {
+        inputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+        name: "ilks",
+        outputs: [
+            { internalType: "address", name: "pip", type: "address" },
+            { internalType: "uint256", name: "mat", type: "uint256" },
+        ],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [],
+        name: "par",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+] as const;
+
+// Maker IlkRegistry ABI (collateral token per collateral type)
+export const MAKER_ILK_REGISTRY_ABI = [
+    {
+        inputs: [{ internalType: "bytes32", name: "ilk", type: "bytes32" }],
+        name: "gem",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+] as const;
+
+// Maker OSM ABI (delayed price feed); cur/nxt are whitelisted, so they are read from storage
+export const MAKER_OSM_ABI = [
+    {
+        inputs: [],
+        name: "hop",
+        outputs: [{ internalType: "uint16", name: "", type: "uint16" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [],
+        name: "zzz",
+        outputs: [{ internalType: "uint64", name: "", type: "uint64" }],
+        stateMutability: "view",
+        type: "function",
+    },
+] as const;
+
+// Liquity V1 TroveManager ABI
+export const LIQUITY_V1_TROVE_MANAGER_ABI = [
+    {
+        inputs: [{ internalType: "address", name: "_borrower", type: "address" }],
+        name: "getTroveStatus",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "address", name: "_borrower", type: "address" }],
+        name: "getEntireDebtAndColl",
+        outputs: [
+            { internalType: "uint256", name: "debt", type: "uint256" },
+            { internalType: "uint256", name: "coll", type: "uint256" },
+            { internalType: "uint256", name: "pendingLUSDDebtReward", type: "uint256" },
+            { internalType: "uint256", name: "pendingETHReward", type: "uint256" },
+        ],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "uint256", name: "_price", type: "uint256" }],
+        name: "getTCR",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "uint256", name: "_price", type: "uint256" }],
+        name: "checkRecoveryMode",
+        outputs: [{ internalType: "bool", name: "", type: "bool" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [],
+        name: "MCR",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [],
+        name: "CCR",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+] as const;
+
+// Liquity V2 TroveManager ABI (one per collateral branch)
+export const LIQUITY_V2_TROVE_MANAGER_ABI = [
+    {
+        inputs: [{ internalType: "uint256", name: "_troveId", type: "uint256" }],
+        name: "getLatestTroveData",
+        outputs: [
+            {
+                components: [
+                    { internalType: "uint256", name: "entireDebt", type: "uint256" },
+                    { internalType: "uint256", name: "entireColl", type: "uint256" },
+                    { internalType: "uint256", name: "redistBoldDebtGain", type: "uint256" },
+                    { internalType: "uint256", name: "redistCollGain", type: "uint256" },
+                    { internalType: "uint256", name: "accruedInterest", type: "uint256" },
+                    { internalType: "uint256", name: "recordedDebt", type: "uint256" },
+                    { internalType: "uint256", name: "annualInterestRate", type: "uint256" },
+                    { internalType: "uint256", name: "weightedRecordedDebt", type: "uint256" },
+                    { internalType: "uint256", name: "accruedBatchManagementFee", type: "uint256" },
+                    { internalType: "uint256", name: "lastInterestRateAdjTime", type: "uint256" },
+                ],
+                internalType: "struct LatestTroveData",
+                name: "trove",
+                type: "tuple",
+            },
+        ],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "uint256", name: "_troveId", type: "uint256" }],
+        name: "getTroveStatus",
+        outputs: [{ internalType: "uint8", name: "", type: "uint8" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [],
+        name: "troveNFT",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [],
+        name: "priceFeed",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+] as const;
+
+// Liquity V2 BOLD token ABI: the CollateralRegistry that lists the branches
+export const LIQUITY_V2_BOLD_ABI = [
+    {
+        inputs: [],
+        name: "collateralRegistryAddress",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+] as const;
+
+// Liquity V2 CollateralRegistry ABI: collateral token and TroveManager per branch index
+export const LIQUITY_V2_COLLATERAL_REGISTRY_ABI = [
+    {
+        inputs: [],
+        name: "totalCollaterals",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "uint256", name: "_index", type: "uint256" }],
+        name: "getToken",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "uint256", name: "_index", type: "uint256" }],
+        name: "getTroveManager",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+] as const;
+
+// Liquity V2 TroveNFT ABI (troves are ERC-721 tokens)
+export const LIQUITY_V2_TROVE_NFT_ABI = [
+    {
+        inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+        name: "ownerOf",
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: "address", name: "from", type: "address" },
+            { indexed: true, internalType: "address", name: "to", type: "address" },
+            { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+        ],
+        name: "Transfer",
+        type: "event",
+    },
+] as const;
+
+// Liquity PriceFeed ABI (V1 and V2): last price the system used
+export const LIQUITY_PRICE_FEED_ABI = [
+    {
+        inputs: [],
+        name: "lastGoodPrice",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+] as const;
+
+// Chainlink aggregator ABI (AggregatorV3Interface)
+export const CHAINLINK_AGGREGATOR_ABI = [
+    {
+        inputs: [],
+        name: "latestRoundData",
+        outputs: [
+            { internalType: "uint80", name: "roundId", type: "uint80" },
+            { internalType: "int256", name: "answer", type: "int256" },
+            { internalType: "uint256", name: "startedAt", type: "uint256" },
+            { internalType: "uint256", name: "updatedAt", type: "uint256" },
+            { internalType: "uint80", name: "answeredInRound", type: "uint80" },
+        ],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [],
+        name: "decimals",
+        outputs: [{ internalType: "uint8", name: "", type: "uint8" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [],
+        name: "aggregator",
+        // Proxies only: the current underlying aggregator, which emits AnswerUpdated
+        outputs: [{ internalType: "address", name: "", type: "address" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: "int256", name: "current", type: "int256" },
+            { indexed: true, internalType: "uint256", name: "roundId", type: "uint256" },
+            { indexed: false, internalType: "uint256", name: "updatedAt", type: "uint256" },
+        ],
+        name: "AnswerUpdated",
+        type: "event",
+    },
+] as const;
+
+// ERC20 ABI for getting token info
+export const ERC20_ABI = [
+    {
+        inputs: [],
+        name: "symbol",
+        outputs: [{ internalType: "string", name: "", type: "string" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [],
+        name: "decimals",
+        outputs: [{ internalType: "uint8", name: "", type: "uint8" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [{ internalType: "address", name: "account", type: "address" }],
+        name: "balanceOf",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [
+            { internalType: "address", name: "owner", type: "address" },
+            { internalType: "address", name: "spender", type: "address" },
+        ],
+        name: "allowance",
+        outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+        stateMutability: "view",
+        type: "function",
+    },
+    {
+        inputs: [
+            { internalType: "address", name: "spender", type: "address" },
+            { internalType: "uint256", name: "amount", type: "uint256" },
+        ],
+        name: "approve",
+        outputs: [{ internalType: "bool", name: "", type: "bool" }],
+        stateMutability: "nonpayable",
+        type: "function",
+    },
 ] as const;
 
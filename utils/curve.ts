@@ -1,38 +1,60 @@
 /**
  * Curve Finance protocol integration utilities
- * Fetches borrow positions from Curve (crvUSD) on Ethereum Mainnet using direct contract calls
+ * Fetches borrow positions from Curve (crvUSD mint markets and LlamaLend) on Ethereum Mainnet using direct contract calls
  */
 
 import { createPublicClient, http, formatUnits, getAddress, type Address } from "viem";
 import { mainnet } from "viem/chains";
-import type { PositionMemory } from "../types/memory.js";
-import { PROTOCOL_CONFIGS, NETWORKS } from "./config.js";
-import { getTokenPrice } from "./prices.js";
-import { CURVE_CONTROLLER_ABI, ERC20_ABI } from "./contracts.js";
-
-export interface CurvePosition {
-    id: string;
-    protocolId: string;
-    collateralAsset: string;
-    debtAsset: string;
-    collateralAmount: string;
-    debtAmount: string;
-    collateralValue: number;
-    debtValue: number;
-    liquidationThreshold: number;
-}
+import type { LlammaState, Position } from "../types/memory.js";
+import { NETWORKS } from "./config.js";
+import { isContractRevert } from "./chains.js";
+import { createCurveOracleSource, PriceUnavailableError, resolvePrices, type PriceQuote } from "./prices.js";
+import { createUnpricedPosition, type ProtocolAdapter } from "./protocols.js";
+import { calculateHealthFactor, calculateLiquidationPrice } from "./risk.js";
+import {
+    CURVE_AMM_ABI,
+    CURVE_CONTROLLER_ABI,
+    CURVE_CONTROLLER_FACTORY_ABI,
+    CURVE_LENDING_FACTORY_ABI,
+    ERC20_ABI,
+} from "./contracts.js";
 
-// Curve crvUSD Controller addresses on Ethereum Mainnet (properly checksummed)
-// Note: Curve has multiple controllers for different collateral types
-const CURVE_CONTROLLERS: Record<string, Address> = {
-    // WETH controller
-    "0x10062051C1c7b1b4DC798c401c3A9FA7A7783D3A": getAddress("0x10062051C1c7b1b4DC798c401c3A9FA7A7783D3A"),
-    // WBTC controller  
-    "0x72e158d38dbd50a483501c24d7926d96e5cf74ac": getAddress("0x72e158d38dbd50a483501c24d7926d96e5cf74ac"),
-    // wstETH controller
-    "0x5354c132a85d9a7e8e8db1863e9c7c8f6c5f5e5e": getAddress("0x5354c132a85d9a7e8e8db1863e9c7c8f6c5f5e5e"),
+// Borrow markets are enumerated from these factories
+const CURVE_CONFIG = {
+    controllerFactoryAddress: getAddress("0xC9332fdCB1C491Dcc683bAe86Fe3cb70360738BC"), // crvUSD ControllerFactory
+    lendingFactoryAddress: getAddress("0xeA6876DDE9e3467564acBeE1Ed5bac88783205E0"), // LlamaLend OneWayLendingFactory
+    crvUSDAddress: getAddress("0xf939E0A03FB07F59A73314E73794Be0E57ac1b4E"),
+    marketsRefreshMs: Number(process.env.CURVE_MARKETS_REFRESH_MS || 60 * 60 * 1000),
 };
 
+// Block the crvUSD ControllerFactory was deployed at; no controller emits events before it
+export const CURVE_DEPLOYMENT_BLOCK = 17257955n;
+
+/**
+ * Token metadata for a market's collateral or borrowed token
+ */
+export interface CurveToken {
+    address: Address;
+    symbol: string;
+    decimals: number;
+}
+
+/**
+ * A crvUSD mint market or LlamaLend lending market
+ */
+export interface CurveMarket {
+    name: string;
+    kind: "crvusd" | "llamalend";
+    controller: Address;
+    amm: Address;
+    collateralToken: CurveToken;
+    borrowedToken: CurveToken;
+}
+
+// Market list cache, refreshed from the factories once it is older than marketsRefreshMs
+let marketCache: { markets: CurveMarket[]; fetchedAt: number } | null = null;
+let marketRefresh: Promise<CurveMarket[]> | null = null;
+
 /**
  * Create a viem public client for Ethereum mainnet
  */
@@ -40,6 +62,8 @@ function getClient() {
     return createPublicClient({
         chain: mainnet,
         transport: http(NETWORKS.MAINNET.rpcUrl),
+        // Aggregate the per-market reads into multicalls
+        batch: { multicall: true },
     });
 }
 
@@ -76,12 +100,178 @@ async function getTokenDecimals(assetAddress: Address, client: ReturnType<typeof
 }
 
 /**
- * Fetch user positions from Curve Lending (crvUSD) using direct contract calls
+ * Enumerate every market from the crvUSD ControllerFactory and the LlamaLend OneWayLendingFactory
+ */
+async function discoverCurveMarkets(client: ReturnType<typeof getClient>): Promise<CurveMarket[]> {
+    const controllerFactory = CURVE_CONFIG.controllerFactoryAddress;
+    const lendingFactory = CURVE_CONFIG.lendingFactoryAddress;
+    const crvUSDAddress = CURVE_CONFIG.crvUSDAddress;
+
+    const [nCollaterals, marketCount] = await Promise.all([
+        client.readContract({ address: controllerFactory, abi: CURVE_CONTROLLER_FACTORY_ABI, functionName: "n_collaterals" }),
+        client.readContract({ address: lendingFactory, abi: CURVE_LENDING_FACTORY_ABI, functionName: "market_count" }),
+    ]);
+
+    const mintMarkets = await Promise.all(
+        Array.from({ length: Number(nCollaterals) }, async (_, i) => {
+            const index = BigInt(i);
+            const [controller, amm, collateral] = await Promise.all([
+                client.readContract({ address: controllerFactory, abi: CURVE_CONTROLLER_FACTORY_ABI, functionName: "controllers", args: [index] }),
+                client.readContract({ address: controllerFactory, abi: CURVE_CONTROLLER_FACTORY_ABI, functionName: "amms", args: [index] }),
+                client.readContract({ address: controllerFactory, abi: CURVE_CONTROLLER_FACTORY_ABI, functionName: "collaterals", args: [index] }),
+            ]);
+            return { kind: "crvusd" as const, controller, amm, collateral, borrowed: crvUSDAddress };
+        })
+    );
+
+    const lendingMarkets = await Promise.all(
+        Array.from({ length: Number(marketCount) }, async (_, i) => {
+            const index = BigInt(i);
+            const [controller, amm, collateral, borrowed] = await Promise.all([
+                client.readContract({ address: lendingFactory, abi: CURVE_LENDING_FACTORY_ABI, functionName: "controllers", args: [index] }),
+                client.readContract({ address: lendingFactory, abi: CURVE_LENDING_FACTORY_ABI, functionName: "amms", args: [index] }),
+                client.readContract({ address: lendingFactory, abi: CURVE_LENDING_FACTORY_ABI, functionName: "collateral_tokens", args: [index] }),
+                client.readContract({ address: lendingFactory, abi: CURVE_LENDING_FACTORY_ABI, functionName: "borrowed_tokens", args: [index] }),
+            ]);
+            return { kind: "llamalend" as const, controller, amm, collateral, borrowed };
+        })
+    );
+
+    // Resolve token metadata once per distinct token
+    const rawMarkets = [...mintMarkets, ...lendingMarkets];
+    const tokenAddresses = [...new Set(rawMarkets.flatMap((m) => [getAddress(m.collateral), getAddress(m.borrowed)]))];
+    const tokens = new Map<Address, CurveToken>(
+        await Promise.all(
+            tokenAddresses.map(async (address): Promise<[Address, CurveToken]> => [
+                address,
+                {
+                    address,
+                    symbol: await getTokenSymbol(address, client),
+                    decimals: await getTokenDecimals(address, client),
+                },
+            ])
+        )
+    );
+
+    return rawMarkets.map((market) => {
+        const collateralToken = tokens.get(getAddress(market.collateral))!;
+        const borrowedToken = tokens.get(getAddress(market.borrowed))!;
+        return {
+            name: `${market.kind === "crvusd" ? "crvUSD" : "LlamaLend"} ${collateralToken.symbol}/${borrowedToken.symbol}`,
+            kind: market.kind,
+            controller: getAddress(market.controller),
+            amm: getAddress(market.amm),
+            collateralToken,
+            borrowedToken,
+        };
+    });
+}
+
+/**
+ * Get the cached market list, refreshing it from the factories when stale
+ * Concurrent callers share one refresh; a failed refresh falls back to the previous list
+ */
+export async function getCurveMarkets(): Promise<CurveMarket[]> {
+    const refreshMs = CURVE_CONFIG.marketsRefreshMs;
+    if (marketCache && Date.now() - marketCache.fetchedAt < refreshMs) {
+        return marketCache.markets;
+    }
+
+    if (!marketRefresh) {
+        marketRefresh = discoverCurveMarkets(getClient())
+            .then((markets) => {
+                console.log(`[Curve] Discovered ${markets.length} market(s) from factories`);
+                marketCache = { markets, fetchedAt: Date.now() };
+                return markets;
+            })
+            .catch((error) => {
+                console.error("[Curve] Error discovering markets from factories:", error);
+                if (marketCache) return marketCache.markets;
+                throw error;
+            })
+            .finally(() => {
+                marketRefresh = null;
+            });
+    }
+
+    return marketRefresh;
+}
+
+/**
+ * Read the user's LLAMMA band state and the controller's health
+ *
+ * Hard liquidation price estimate:
+ * - Above the band range, health(full=true) grows linearly with the oracle price while
+ *   health(full=false) does not, so their difference gives the slope; if health(full=false) < 0
+ *   the position hits health 0 before even reaching its top band.
+ * - Otherwise the position survives conversion through its bands barring soft-liquidation
+ *   losses, so the bottom of the band range is used as a conservative estimate.
+ */
+async function fetchLlammaState(
+    client: ReturnType<typeof getClient>,
+    controller: Address,
+    amm: Address,
+    user: Address,
+    stablecoin: bigint,
+    stablecoinDecimals: number,
+    blockNumber: bigint
+): Promise<{ state: LlammaState; liquidationThreshold: number }> {
+    const [healthFull, healthNotFull, userPrices, liquidationDiscount, ticks, activeBand, priceOracle] = await Promise.all([
+        client.readContract({ address: controller, abi: CURVE_CONTROLLER_ABI, functionName: "health", args: [user, true], blockNumber }),
+        client.readContract({ address: controller, abi: CURVE_CONTROLLER_ABI, functionName: "health", args: [user, false], blockNumber }),
+        client.readContract({ address: controller, abi: CURVE_CONTROLLER_ABI, functionName: "user_prices", args: [user], blockNumber }),
+        client.readContract({ address: controller, abi: CURVE_CONTROLLER_ABI, functionName: "liquidation_discount", blockNumber }),
+        client.readContract({ address: amm, abi: CURVE_AMM_ABI, functionName: "read_user_tick_numbers", args: [user], blockNumber }),
+        client.readContract({ address: amm, abi: CURVE_AMM_ABI, functionName: "active_band", blockNumber }),
+        client.readContract({ address: amm, abi: CURVE_AMM_ABI, functionName: "price_oracle", blockNumber }),
+    ]);
+
+    // Band prices are in the borrowed token, so compare them with the AMM oracle rather than a USD price
+    const oraclePrice = Number(formatUnits(priceOracle, 18));
+
+    const health = Number(formatUnits(healthFull, 18));
+    const healthBase = Number(formatUnits(healthNotFull, 18));
+    const topBandPrice = Number(formatUnits(userPrices[0], 18));
+    const bottomBandPrice = Number(formatUnits(userPrices[1], 18));
+    const [n1, n2] = [Number(ticks[0]), Number(ticks[1])];
+    const band = Number(activeBand);
+
+    // The active band number grows as the price falls; once it reaches n1 the collateral is being converted
+    const softLiquidation = stablecoin > 0n || band >= n1;
+
+    let hardLiquidationPrice = bottomBandPrice;
+    if (health <= 0) {
+        hardLiquidationPrice = oraclePrice;
+    } else if (healthBase < 0 && oraclePrice > topBandPrice && health > healthBase) {
+        const slope = (health - healthBase) / (oraclePrice - topBandPrice);
+        hardLiquidationPrice = topBandPrice - healthBase / slope;
+    }
+
+    return {
+        state: {
+            controller,
+            bandRange: [n1, n2],
+            activeBand: band,
+            softLiquidation,
+            health,
+            topBandPrice,
+            bottomBandPrice,
+            hardLiquidationPrice,
+            oraclePrice,
+            stablecoinInBands: formatUnits(stablecoin, stablecoinDecimals),
+        },
+        liquidationThreshold: 1 - Number(formatUnits(liquidationDiscount, 18)),
+    };
+}
+
+/**
+ * Fetch user positions from Curve Lending (crvUSD and LlamaLend) using direct contract calls
+ * Returns the positions together with the names of the markets that were scanned
  */
 export async function fetchCurvePositions(
     walletAddress: string
-): Promise<CurvePosition[]> {
-    const positions: CurvePosition[] = [];
+): Promise<{ positions: Position[]; marketsScanned: string[] }> {
+    const positions: Position[] = [];
     const client = getClient();
 
     try {
@@ -90,98 +280,170 @@ export async function fetchCurvePositions(
         // Normalize wallet address to checksummed format
         const normalizedWallet = getAddress(walletAddress);
 
-        // Try each known controller
-        for (const [controllerAddress, controllerAddr] of Object.entries(CURVE_CONTROLLERS)) {
-            console.log(`[Curve] Checking controller ${controllerAddress}`);
-            try {
-                // Get user state
-                const userState = await client.readContract({
-                    address: controllerAddr,
+        const markets = await getCurveMarkets();
+
+        // Pin every read to one block so state and oracle prices are consistent
+        const blockNumber = await client.getBlockNumber();
+
+        // Get user state in every market: [collateral, stablecoin in bands, debt, number of bands]
+        const userStates = await Promise.all(
+            markets.map((market) =>
+                client.readContract({
+                    address: market.controller,
                     abi: CURVE_CONTROLLER_ABI,
                     functionName: "user_state",
                     args: [normalizedWallet],
-                });
+                    blockNumber,
+                }).catch((error) => {
+                    // Controller reverts for users without a loan in some versions; anything else is a failed read
+                    if (isContractRevert(error)) return null;
+                    throw error;
+                })
+            )
+        );
 
-                const collaterals = userState[0] as bigint[];
-                const debt = userState[1] as bigint;
+        // Read and pricing errors fail the whole fetch, so the stored positions are kept (fetchAllPositions)
+        for (const [index, market] of markets.entries()) {
+            const userState = userStates[index];
 
-                // If no debt, skip
-                if (debt === 0n) {
-                    continue;
-                }
+            // If no debt, skip
+            if (!userState || userState[2] === 0n) {
+                continue;
+            }
 
-                // Get collateral token address
-                const collateralToken = await client.readContract({
-                    address: controllerAddr,
-                    abi: CURVE_CONTROLLER_ABI,
-                    functionName: "collateral_token",
-                });
+            const [collateralAmount, stablecoinAmount, debt] = userState;
+            const { collateralToken, borrowedToken } = market;
 
-                // Normalize collateral token address
-                const normalizedCollateralToken = getAddress(collateralToken as string);
-
-                // Get collateral and debt info
-                const collateralSymbol = await getTokenSymbol(normalizedCollateralToken, client);
-                const collateralDecimals = await getTokenDecimals(normalizedCollateralToken, client);
-                const collateralAmount = collaterals.reduce((sum, val) => sum + val, 0n);
-
-                if (collateralAmount === 0n) {
-                    continue;
-                }
-
-                // crvUSD is the debt token
-                const crvUSDAddress = getAddress("0xf939E0A03FB07F59A73314E73794Be0E57ac1b4E");
-                const debtSymbol = await getTokenSymbol(crvUSDAddress, client);
-                const debtDecimals = await getTokenDecimals(crvUSDAddress, client);
-
-                // Get prices
-                const collateralPrice = await getTokenPrice(collateralSymbol);
-                const debtPrice = await getTokenPrice("crvUSD");
-
-                // Calculate values
-                const collateralAmountFormatted = formatUnits(collateralAmount, collateralDecimals);
-                const debtAmountFormatted = formatUnits(debt, debtDecimals);
-                const collateralValue = parseFloat(collateralAmountFormatted) * collateralPrice;
-                const debtValue = parseFloat(debtAmountFormatted) * debtPrice;
-
-                // Get health to determine liquidation threshold
-                // Health = (collateral * price) / debt
-                // If health < 1, position can be liquidated
-                // LLTV (loan-to-value) is typically around 0.85-0.9 for Curve
-                const health = collateralValue > 0 && debtValue > 0
-                    ? collateralValue / debtValue
-                    : Infinity;
-
-                // Estimate liquidation threshold (typically 85-90% for Curve)
-                // If we have health, we can derive: liquidation happens when collateral * threshold = debt
-                // threshold = debt / collateral (at liquidation)
-                // But we use a standard Curve LLTV of 0.87
-                const liquidationThreshold = 0.87; // Standard Curve crvUSD LLTV
-
-                console.log(`[Curve] Found position: ${collateralSymbol}/${debtSymbol || "crvUSD"}, collateral=${collateralAmountFormatted}, debt=${debtAmountFormatted}`);
-
-                positions.push({
-                    id: `${walletAddress}-curve-${collateralSymbol}-crvUSD-${Date.now()}`,
-                    protocolId: "curve",
-                    collateralAsset: collateralSymbol,
-                    debtAsset: debtSymbol || "crvUSD",
-                    collateralAmount: collateralAmountFormatted,
-                    debtAmount: debtAmountFormatted,
-                    collateralValue,
-                    debtValue,
-                    liquidationThreshold,
+            // Price through the provider chain with the market's LLAMMA oracle as the protocol step;
+            // LlamaLend markets can lend tokens other than crvUSD, so the oracle is converted to USD
+            let collateralQuote: PriceQuote, debtQuote: PriceQuote;
+            try {
+                const [borrowedUsd] = borrowedToken.address === CURVE_CONFIG.crvUSDAddress
+                    ? [1]
+                    : (await resolvePrices([borrowedToken], { client, chainId: mainnet.id, blockNumber })).map((quote) => quote.price);
+
+                [collateralQuote, debtQuote] = await resolvePrices([
+                    { symbol: collateralToken.symbol, address: collateralToken.address },
+                    { symbol: borrowedToken.symbol, address: borrowedToken.address },
+                ], {
+                    client,
+                    chainId: mainnet.id,
+                    blockNumber,
+                    protocol: createCurveOracleSource(client, market.amm, borrowedToken.address, borrowedUsd, blockNumber),
                 });
             } catch (error) {
-                // Controller might not exist or user has no position in this controller
-                console.log(`[Curve] No position in controller ${controllerAddress} (this is normal if user doesn't have positions there)`);
+                if (!(error instanceof PriceUnavailableError)) throw error;
+                console.warn(`[Curve] ${market.name}: ${error.message}`);
+                positions.push(createUnpricedPosition({
+                    id: `${walletAddress}-curve-${market.controller}`,
+                    protocolId: "curve",
+                    chainId: mainnet.id,
+                    collateralAsset: collateralToken.symbol,
+                    debtAsset: borrowedToken.symbol,
+                    collateralAmount: formatUnits(collateralAmount, collateralToken.decimals),
+                    debtAmount: formatUnits(debt, borrowedToken.decimals),
+                    liquidationThreshold: 0,
+                }, error));
                 continue;
             }
+
+            const llamma = await fetchLlammaState(
+                client,
+                market.controller,
+                market.amm,
+                normalizedWallet,
+                stablecoinAmount,
+                borrowedToken.decimals,
+                blockNumber
+            );
+
+            // Calculate values; the borrowed token already received in the bands counts towards collateral
+            const collateralAmountFormatted = formatUnits(collateralAmount, collateralToken.decimals);
+            const debtAmountFormatted = formatUnits(debt, borrowedToken.decimals);
+            const collateralTokenValue = parseFloat(collateralAmountFormatted) * collateralQuote.price;
+            const collateralValue = collateralTokenValue + parseFloat(llamma.state.stablecoinInBands) * debtQuote.price;
+            const debtValue = parseFloat(debtAmountFormatted) * debtQuote.price;
+
+            // Hard liquidation happens when health < 0, where health discounts collateral by
+            // the market's liquidation_discount - so (1 - discount) plays the role of an LLTV
+            const liquidationThreshold = llamma.liquidationThreshold;
+
+            console.log(`[Curve] Found position in ${market.name}: collateral=${collateralAmountFormatted}, debt=${debtAmountFormatted}, bands=${llamma.state.bandRange.join("..")}, active=${llamma.state.activeBand}${llamma.state.softLiquidation ? " (SOFT LIQUIDATION)" : ""}`);
+
+            positions.push({
+                id: `${walletAddress}-curve-${market.controller}`,
+                protocolId: "curve",
+                chainId: mainnet.id,
+                collateralAsset: collateralToken.symbol,
+                debtAsset: borrowedToken.symbol,
+                collateralAmount: collateralAmountFormatted,
+                debtAmount: debtAmountFormatted,
+                collateralValue,
+                debtValue,
+                liquidationThreshold,
+                collateralLegs: [{
+                    asset: collateralToken.symbol,
+                    address: collateralToken.address,
+                    amount: collateralAmountFormatted,
+                    decimals: collateralToken.decimals,
+                    price: collateralQuote.price,
+                    value: collateralTokenValue,
+                    liquidationThreshold,
+                    priceSource: collateralQuote.source,
+                    priceBlock: collateralQuote.blockNumber,
+                }],
+                debtLegs: [{
+                    asset: borrowedToken.symbol,
+                    address: borrowedToken.address,
+                    amount: debtAmountFormatted,
+                    decimals: borrowedToken.decimals,
+                    price: debtQuote.price,
+                    value: debtValue,
+                    liquidationThreshold: 0,
+                    priceSource: debtQuote.source,
+                    priceBlock: debtQuote.blockNumber,
+                }],
+                llamma: llamma.state,
+            });
         }
 
-        console.log(`[Curve] Created ${positions.length} position(s)`);
-        return positions;
+        console.log(`[Curve] Created ${positions.length} position(s) from ${markets.length} market(s)`);
+        return { positions, marketsScanned: markets.map((market) => `${market.name} (${market.controller})`) };
     } catch (error) {
         console.error("[Curve] Error fetching Curve positions from contracts:", error);
-        return positions;
+        throw error;
     }
 }
+
+/**
+ * Curve adapter: one position per crvUSD / LlamaLend market
+ * Risk comes from the controller's own health (the fractional buffer above hard liquidation)
+ * and the LLAMMA band model rather than a fixed LLTV
+ */
+export const curveAdapter: ProtocolAdapter = {
+    id: "curve",
+    name: "Curve Finance (crvUSD / LlamaLend)",
+    supportedChains: [mainnet.id],
+    async discoverMarkets() {
+        const markets = await getCurveMarkets();
+        return markets.map((market) => `${market.name} (${market.controller})`);
+    },
+    fetchPositions: fetchCurvePositions,
+    getHealthFactor(position) {
+        if (position.debtValue <= 0) return Infinity;
+        return position.llamma ? 1 + position.llamma.health : calculateHealthFactor(position);
+    },
+    getLiquidationPrice(position) {
+        if (!position.llamma) return calculateLiquidationPrice(position);
+
+        // Band prices are in the borrowed token; convert them and the oracle price to USD together
+        const debtAmount = parseFloat(position.debtAmount);
+        const borrowedPrice = position.debtLegs?.[0]?.price ?? (debtAmount > 0 ? position.debtValue / debtAmount : 1);
+        return {
+            liqPrice: position.llamma.hardLiquidationPrice * borrowedPrice,
+            currentPrice: position.llamma.oraclePrice !== undefined
+                ? position.llamma.oraclePrice * borrowedPrice
+                : position.collateralLegs?.[0]?.price ?? 0,
+        };
+    },
+};
@@ -0,0 +1,380 @@
+/**
+ * Event-driven re-checks
+ * Subscribes to the logs that change a watched wallet's risk: its own Aave V3 pool activity,
+ * rate updates of the Aave reserves it holds, Curve controller activity on its loans and
+ * Chainlink price updates for its assets. Each event re-checks only the protocol / chain scopes
+ * it affects, between the watch scheduler's timed runs
+ */
+
+import { createPublicClient, getAddress, webSocket, type Abi, type Address, type Log, type PublicClient } from "viem";
+import type { Position, PositionMemory } from "../types/memory.js";
+import { getAavePoolAddress } from "./aave.js";
+import { getChainClient, getNetwork } from "./chains.js";
+import { EVENT_WATCH_CONFIG, NETWORKS } from "./config.js";
+import { AAVE_POOL_ABI, CHAINLINK_AGGREGATOR_ABI, CURVE_CONTROLLER_ABI } from "./contracts.js";
+import type { RefreshScope } from "./monitoring.js";
+import { CHAINLINK_USD_FEEDS } from "./prices.js";
+import { getTrackedAssets } from "./scenarios.js";
+
+/**
+ * Scopes to re-check, and the events that asked for it
+ */
+export interface EventTrigger {
+    scopes: RefreshScope[];
+    reasons: string[];
+}
+
+/**
+ * Runs the re-check; resolves false when the wallet is busy and the trigger should be retried
+ */
+export type EventTriggerHandler = (trigger: EventTrigger) => Promise<boolean>;
+
+export interface EventWatchStatus {
+    subscriptions: Array<{ description: string; transport: "websocket" | "polling" }>;
+    events: number; // Logs received since the wallet was subscribed
+    lastEventAt: number | null;
+    lastError: string | null;
+}
+
+/**
+ * One log subscription; kept across syncs while its key is unchanged
+ */
+interface SubscriptionSpec {
+    key: string;
+    chainId: number;
+    description: string;
+    // The wallet's own activity and liquidations skip the EVENT_WATCH_CONFIG.minRecheckSeconds floor
+    urgent: boolean;
+    abi: Abi;
+    eventName: string;
+    address: Address[];
+    args?: Record<string, unknown>;
+    scopesFor(log: Log): RefreshScope[];
+}
+
+interface WalletSubscriptions {
+    wallet: string;
+    onTrigger: EventTriggerHandler;
+    active: Map<string, { spec: SubscriptionSpec; unwatch: () => void }>;
+    pending: (EventTrigger & { urgent: boolean }) | null;
+    timer: ReturnType<typeof setTimeout> | null;
+    lastCheckAt: number;
+    status: EventWatchStatus;
+}
+
+const AAVE_USER_EVENTS = [
+    ["Borrow", "onBehalfOf"],
+    ["Repay", "user"],
+    ["Withdraw", "user"],
+    ["LiquidationCall", "user"],
+] as const;
+
+const CURVE_USER_EVENTS = ["Borrow", "Repay", "RemoveCollateral", "Liquidate"] as const;
+
+const subscriptions = new Map<string, WalletSubscriptions>();
+const eventClients = new Map<number, PublicClient>();
+
+const unique = <T>(values: T[]): T[] => [...new Set(values)];
+
+/**
+ * WebSocket client when the chain has a wsUrl, otherwise the shared HTTP client (logs are polled)
+ */
+function getEventClient(chainId: number): PublicClient {
+    const network = getNetwork(chainId);
+    if (!network?.wsUrl) return getChainClient(chainId);
+
+    let client = eventClients.get(chainId);
+    if (!client) {
+        client = createPublicClient({ chain: network.chain, transport: webSocket(network.wsUrl) }) as PublicClient;
+        eventClients.set(chainId, client);
+    }
+    return client;
+}
+
+function getTransport(chainId: number): EventWatchStatus["subscriptions"][number]["transport"] {
+    return getNetwork(chainId)?.wsUrl ? "websocket" : "polling";
+}
+
+const chainName = (chainId: number) => getNetwork(chainId)?.shortName ?? `chain ${chainId}`;
+
+/**
+ * Token symbols a position's value depends on
+ */
+function getPositionAssets(position: Position): string[] {
+    const legs = [...(position.collateralLegs || []), ...(position.debtLegs || [])];
+    return legs.length > 0 ? legs.map((leg) => leg.asset) : [position.collateralAsset, position.debtAsset];
+}
+
+/**
+ * Chainlink USD feed (proxy) for a token, falling back to the assets it tracks (wstETH → stETH / USD)
+ */
+function findFeed(chainId: number, symbol: string): Address | undefined {
+    const feeds = Object.entries(CHAINLINK_USD_FEEDS[chainId] || {});
+    for (const tracked of getTrackedAssets(symbol)) {
+        const match = feeds.find(([feedSymbol]) => feedSymbol.toUpperCase() === tracked);
+        if (match) return match[1].feed;
+    }
+    return undefined;
+}
+
+function addScope(scopes: RefreshScope[], scope: RefreshScope): void {
+    if (!scopes.some((existing) => existing.protocolId === scope.protocolId && existing.chainId === scope.chainId)) {
+        scopes.push(scope);
+    }
+}
+
+function aaveSpecs(memory: PositionMemory, wallet: Address, chainIds: number[]): SubscriptionSpec[] {
+    if (!memory.protocolIds.includes("aave-v3")) return [];
+
+    return chainIds.flatMap((chainId) => {
+        const pool = getAavePoolAddress(chainId);
+        if (!pool) return [];
+        const scopes = [{ protocolId: "aave-v3", chainId }];
+
+        // The wallet's own activity on every configured chain, so a first borrow is picked up too
+        const specs: SubscriptionSpec[] = AAVE_USER_EVENTS.map(([eventName, userArg]) => ({
+            key: `aave-v3:${chainId}:${eventName}`,
+            chainId,
+            description: `Aave V3 ${eventName} on ${chainName(chainId)}`,
+            urgent: true,
+            abi: AAVE_POOL_ABI,
+            eventName,
+            address: [pool],
+            args: { [userArg]: wallet },
+            scopesFor: () => scopes,
+        }));
+
+        // Rate and index updates of the reserves the account holds (interest accrual)
+        const reserves = unique(memory.positions
+            .filter((position) => position.protocolId === "aave-v3" && position.chainId === chainId)
+            .flatMap((position) => [...(position.collateralLegs || []), ...(position.debtLegs || [])])
+            .filter((leg) => leg.address)
+            .map((leg) => getAddress(leg.address)))
+            .sort();
+        if (reserves.length > 0) {
+            specs.push({
+                key: `aave-v3:${chainId}:ReserveDataUpdated:${reserves.join(",")}`,
+                chainId,
+                description: `Aave V3 ReserveDataUpdated for ${reserves.length} reserve(s) on ${chainName(chainId)}`,
+                urgent: false,
+                abi: AAVE_POOL_ABI,
+                eventName: "ReserveDataUpdated",
+                address: [pool],
+                args: { reserve: reserves },
+                scopesFor: () => scopes,
+            });
+        }
+        return specs;
+    });
+}
+
+function curveSpecs(memory: PositionMemory, wallet: Address): SubscriptionSpec[] {
+    const loans = memory.positions.filter((position) => position.protocolId === "curve" && position.llamma?.controller);
+
+    return unique(loans.map((position) => position.chainId)).flatMap((chainId) => {
+        const controllers = unique(loans
+            .filter((position) => position.chainId === chainId)
+            .map((position) => getAddress(position.llamma!.controller!)))
+            .sort();
+        const scopes = [{ protocolId: "curve", chainId }];
+
+        return CURVE_USER_EVENTS.map((eventName) => ({
+            key: `curve:${chainId}:${eventName}:${controllers.join(",")}`,
+            chainId,
+            description: `Curve controller ${eventName} on ${controllers.length} market(s)`,
+            urgent: true,
+            abi: CURVE_CONTROLLER_ABI,
+            eventName,
+            address: controllers,
+            args: { user: wallet },
+            scopesFor: () => scopes,
+        }));
+    });
+}
+
+/**
+ * AnswerUpdated is emitted by the aggregator behind each feed proxy, so the current aggregators
+ * are resolved on every sync (feeds are upgraded by pointing the proxy at a new one)
+ */
+async function oracleSpecs(memory: PositionMemory): Promise<SubscriptionSpec[]> {
+    const specs: SubscriptionSpec[] = [];
+
+    for (const chainId of unique(memory.positions.map((position) => position.chainId))) {
+        const feedScopes = new Map<Address, RefreshScope[]>();
+        for (const position of memory.positions.filter((position) => position.chainId === chainId)) {
+            for (const symbol of getPositionAssets(position)) {
+                const feed = findFeed(chainId, symbol);
+                if (!feed) continue;
+                if (!feedScopes.has(feed)) feedScopes.set(feed, []);
+                addScope(feedScopes.get(feed)!, { protocolId: position.protocolId, chainId });
+            }
+        }
+        if (feedScopes.size === 0) continue;
+
+        const feeds = [...feedScopes.keys()];
+        let aggregators: Address[];
+        try {
+            aggregators = await Promise.all(feeds.map((feed) =>
+                getChainClient(chainId).readContract({ address: feed, abi: CHAINLINK_AGGREGATOR_ABI, functionName: "aggregator" })
+            ));
+        } catch (error) {
+            console.warn(`[Events] Couldn't resolve Chainlink aggregators on ${chainName(chainId)}:`, error);
+            continue;
+        }
+
+        const scopesByAggregator = new Map(aggregators.map((aggregator, index) => [aggregator.toLowerCase(), feedScopes.get(feeds[index]!)!]));
+        const keyParts = [...scopesByAggregator].map(([aggregator, scopes]) => `${aggregator}=${scopes.map((scope) => scope.protocolId).sort().join("+")}`);
+
+        specs.push({
+            key: `oracle:${chainId}:${keyParts.sort().join(",")}`,
+            chainId,
+            description: `Chainlink AnswerUpdated for ${feeds.length} feed(s) on ${chainName(chainId)}`,
+            urgent: false,
+            abi: CHAINLINK_AGGREGATOR_ABI,
+            eventName: "AnswerUpdated",
+            address: unique(aggregators),
+            scopesFor: (log) => scopesByAggregator.get(log.address.toLowerCase()) ?? [],
+        });
+    }
+
+    return specs;
+}
+
+function scheduleFlush(key: string, entry: WalletSubscriptions): void {
+    if (!entry.pending) return;
+
+    const floor = entry.pending.urgent ? 0 : entry.lastCheckAt + EVENT_WATCH_CONFIG.minRecheckSeconds * 1000 - Date.now();
+    entry.timer = setTimeout(() => void flush(key, entry), Math.max(EVENT_WATCH_CONFIG.debounceMs, floor));
+    entry.timer.unref?.();
+}
+
+async function flush(key: string, entry: WalletSubscriptions): Promise<void> {
+    entry.timer = null;
+    const trigger = entry.pending;
+    entry.pending = null;
+    if (!trigger || subscriptions.get(key) !== entry) return;
+
+    const done = await entry.onTrigger({ scopes: trigger.scopes, reasons: trigger.reasons }).catch((error) => {
+        console.error(`[Events] Error re-checking ${entry.wallet}:`, error);
+        return true;
+    });
+
+    if (done) {
+        entry.lastCheckAt = Date.now();
+    } else {
+        // Busy with a timed run: merge back and retry after the debounce
+        const pending: NonNullable<WalletSubscriptions["pending"]> = entry.pending ?? { scopes: [], reasons: [], urgent: false };
+        for (const scope of trigger.scopes) addScope(pending.scopes, scope);
+        pending.reasons = unique([...trigger.reasons, ...pending.reasons]);
+        pending.urgent ||= trigger.urgent;
+        entry.pending = pending;
+    }
+    if (entry.pending && !entry.timer) scheduleFlush(key, entry);
+}
+
+function queueTrigger(key: string, entry: WalletSubscriptions, scope: RefreshScope, reason: string, urgent: boolean): void {
+    const pending = entry.pending ?? (entry.pending = { scopes: [], reasons: [], urgent: false });
+    addScope(pending.scopes, scope);
+    if (!pending.reasons.includes(reason)) pending.reasons.push(reason);
+
+    // A pending timer is kept so a steady stream of events can't postpone the re-check, unless
+    // urgent activity arrives while it waits out the floor
+    if (urgent && !pending.urgent && entry.timer) {
+        clearTimeout(entry.timer);
+        entry.timer = null;
+    }
+    pending.urgent ||= urgent;
+}
+
+function startSubscription(key: string, entry: WalletSubscriptions, spec: SubscriptionSpec): () => void {
+    return getEventClient(spec.chainId).watchContractEvent({
+        address: spec.address,
+        abi: spec.abi,
+        eventName: spec.eventName,
+        args: spec.args,
+        pollingInterval: EVENT_WATCH_CONFIG.pollingIntervalMs,
+        onLogs: (logs) => {
+            for (const log of logs) {
+                entry.status.events += 1;
+                entry.status.lastEventAt = Date.now();
+                const reason = `${spec.description} (tx ${log.transactionHash})`;
+                for (const scope of spec.scopesFor(log)) queueTrigger(key, entry, scope, reason, spec.urgent);
+            }
+            if (!entry.timer) scheduleFlush(key, entry);
+        },
+        onError: (error) => {
+            entry.status.lastError = `${spec.description}: ${error.message}`;
+            console.warn(`[Events] ${spec.description} subscription error for ${entry.wallet}:`, error.message);
+        },
+    });
+}
+
+/**
+ * Subscribe to the events of a wallet's current positions, replacing subscriptions that no longer apply
+ * Called after every watch run, so new reserves, loans and feeds are picked up
+ */
+export async function syncEventSubscriptions(
+    wallet: string,
+    memory: PositionMemory,
+    onTrigger: EventTriggerHandler
+): Promise<EventWatchStatus> {
+    const key = wallet.toLowerCase();
+    const address = getAddress(memory.wallet);
+    const chainIds = memory.chainIds || [NETWORKS.MAINNET.chainId];
+    const specs = [...aaveSpecs(memory, address, chainIds), ...curveSpecs(memory, address), ...await oracleSpecs(memory)];
+
+    let entry = subscriptions.get(key);
+    if (!entry) {
+        entry = {
+            wallet,
+            onTrigger,
+            active: new Map(),
+            pending: null,
+            timer: null,
+            lastCheckAt: 0,
+            status: { subscriptions: [], events: 0, lastEventAt: null, lastError: null },
+        };
+        subscriptions.set(key, entry);
+    }
+    entry.onTrigger = onTrigger;
+
+    const wanted = new Set(specs.map((spec) => spec.key));
+    for (const [specKey, subscription] of entry.active) {
+        if (wanted.has(specKey)) continue;
+        subscription.unwatch();
+        entry.active.delete(specKey);
+    }
+    for (const spec of specs) {
+        if (entry.active.has(spec.key)) continue;
+        entry.active.set(spec.key, { spec, unwatch: startSubscription(key, entry, spec) });
+    }
+
+    entry.status.subscriptions = [...entry.active.values()].map(({ spec }) => ({
+        description: spec.description,
+        transport: getTransport(spec.chainId),
+    }));
+    return getEventWatchStatus(wallet)!;
+}
+
+/**
+ * Unsubscribe a wallet and drop any pending re-check
+ */
+export function stopEventSubscriptions(wallet: string): boolean {
+    const key = wallet.toLowerCase();
+    const entry = subscriptions.get(key);
+    if (!entry) return false;
+
+    if (entry.timer) clearTimeout(entry.timer);
+    for (const subscription of entry.active.values()) subscription.unwatch();
+    subscriptions.delete(key);
+    return true;
+}
+
+export function stopAllEventSubscriptions(): void {
+    for (const wallet of [...subscriptions.keys()]) stopEventSubscriptions(wallet);
+}
+
+export function getEventWatchStatus(wallet: string): EventWatchStatus | null {
+    const entry = subscriptions.get(wallet.toLowerCase());
+    return entry ? { ...entry.status, subscriptions: [...entry.status.subscriptions] } : null;
+}
@@ -0,0 +1,150 @@
+/**
+ * Fork dry runs
+ * Replays unsigned remediation transactions on a local Anvil or Hardhat fork as the sender
+ * (impersonated) and reads the protocol's health factor afterwards. The fork is reverted to a
+ * snapshot after every run, so runs don't affect each other
+ */
+
+import {
+    BaseError,
+    createTestClient,
+    http,
+    parseEther,
+    publicActions,
+    walletActions,
+    type Address,
+} from "viem";
+import type { Position } from "../types/memory.js";
+import { FORK_CONFIG } from "./config.js";
+import { readProtocolHealthFactor, type UnsignedTransaction } from "./transactions.js";
+
+export interface DryRunStep {
+    description: string;
+    status: "success" | "reverted" | "skipped";
+    gasUsed?: string;
+    revertReason?: string;
+}
+
+export interface DryRunResult {
+    success: boolean; // Every transaction went through
+    healthFactorBefore: number | null; // On the fork, so including interest accrued since the last check
+    healthFactorAfter: number | null;
+    revertReason?: string;
+    steps: DryRunStep[];
+}
+
+/**
+ * Thrown when the fork can't be reached or is forked from a different chain
+ */
+export class ForkUnavailableError extends Error {
+    constructor(public readonly rpcUrl: string, reason: string) {
+        super(`Fork at ${rpcUrl} unavailable: ${reason}. Start one with e.g. "anvil --fork-url $ETHEREUM_RPC_URL" or set FORK_RPC_URL`);
+        this.name = "ForkUnavailableError";
+    }
+}
+
+function createForkClient(rpcUrl: string) {
+    return createTestClient({ mode: FORK_CONFIG.mode, transport: http(rpcUrl) })
+        .extend(publicActions)
+        .extend(walletActions);
+}
+
+type ForkClient = ReturnType<typeof createForkClient>;
+
+const forkClients = new Map<string, ForkClient>();
+
+function getForkClient(rpcUrl: string): ForkClient {
+    let client = forkClients.get(rpcUrl);
+    if (!client) {
+        client = createForkClient(rpcUrl);
+        forkClients.set(rpcUrl, client);
+    }
+    return client;
+}
+
+/**
+ * Most specific message of a viem error, e.g. the decoded revert reason
+ */
+function describeRevert(error: unknown): string {
+    if (error instanceof BaseError) {
+        const cause = error.walk((err) => err instanceof BaseError && "reason" in err && !!(err as any).reason) as any;
+        return cause?.reason ?? error.details ?? error.shortMessage;
+    }
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Run the transactions in order on the fork as the sender and re-read the wallet's health factor
+ * Stops at the first transaction that would revert
+ */
+export async function dryRunTransactions(
+    position: Position,
+    transactions: UnsignedTransaction[],
+    wallet: Address,
+    sender: Address = wallet,
+    rpcUrl: string = FORK_CONFIG.rpcUrl
+): Promise<DryRunResult> {
+    const client = getForkClient(rpcUrl);
+
+    let chainId: number;
+    try {
+        chainId = await client.getChainId();
+    } catch (error) {
+        throw new ForkUnavailableError(rpcUrl, describeRevert(error));
+    }
+    if (chainId !== position.chainId) {
+        throw new ForkUnavailableError(rpcUrl, `it is chain ${chainId}, but the position is on chain ${position.chainId}`);
+    }
+
+    const readHealth = () => readProtocolHealthFactor(client, position, wallet).catch((error) => {
+        console.warn(`[Fork] Couldn't read the health factor of ${position.id}:`, error);
+        return null;
+    });
+
+    const snapshot = await client.snapshot();
+    const steps: DryRunStep[] = [];
+    let revertReason: string | undefined;
+
+    try {
+        await client.impersonateAccount({ address: sender });
+        const gasFunding = parseEther(FORK_CONFIG.gasFundingEther);
+        if (await client.getBalance({ address: sender }) < gasFunding) {
+            await client.setBalance({ address: sender, value: gasFunding });
+        }
+
+        const healthFactorBefore = await readHealth();
+
+        for (const tx of transactions) {
+            if (revertReason) {
+                steps.push({ description: tx.description, status: "skipped" });
+                continue;
+            }
+
+            const request = { account: sender, to: tx.to, data: tx.data, value: BigInt(tx.value) };
+            try {
+                // eth_call first: it returns the revert reason, a mined failure only a status
+                await client.call(request);
+                const hash = await client.sendTransaction({ ...request, chain: null });
+                const receipt = await client.waitForTransactionReceipt({ hash });
+                if (receipt.status === "reverted") {
+                    throw new Error("reverted when mined");
+                }
+                steps.push({ description: tx.description, status: "success", gasUsed: receipt.gasUsed.toString() });
+            } catch (error) {
+                revertReason = describeRevert(error);
+                steps.push({ description: tx.description, status: "reverted", revertReason });
+            }
+        }
+
+        return {
+            success: !revertReason,
+            healthFactorBefore,
+            healthFactorAfter: revertReason ? null : await readHealth(),
+            ...(revertReason && { revertReason }),
+            steps,
+        };
+    } finally {
+        await client.stopImpersonatingAccount({ address: sender }).catch(() => undefined);
+        await client.revert({ id: snapshot });
+    }
+}
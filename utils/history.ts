@@ -0,0 +1,148 @@
+/**
+ * Health factor history and trend projection
+ * Each check appends a sample per priced position; the trend is a least-squares fit of
+ * health factor against time over a recent window
+ */
+
+import type { HealthFactorSample, PositionMemory } from "../types/memory.js";
+import { HISTORY_CONFIG } from "./config.js";
+
+export type HealthTrend = "improving" | "stable" | "deteriorating" | "unknown";
+
+export interface HealthTrendAnalysis {
+    trend: HealthTrend;
+    samples: number; // Samples inside the window
+    windowHours: number;
+    healthFactor: number | null; // Latest sample
+    bufferPercent: number | null;
+    hfChangePerHour: number | null;
+    bufferChangePerHour: number | null; // Percentage points
+    collateralPriceChangePercent: number | null; // First to last sample in the window
+    debtValueChangePercent: number | null;
+    hoursToThreshold: number | null; // 0 when already below; null when not heading there
+    hoursToLiquidation: number | null; // Until HF 1.0
+}
+
+const TREND_ARROWS: Record<HealthTrend, string> = {
+    improving: "↑",
+    stable: "→",
+    deteriorating: "↓",
+    unknown: "",
+};
+
+export function getTrendArrow(trend: HealthTrend): string {
+    return TREND_ARROWS[trend];
+}
+
+/**
+ * A position's samples, oldest first
+ */
+export function getHealthHistory(memory: PositionMemory, positionId: string): HealthFactorSample[] {
+    return memory.monitoringState.history?.find((entry) => entry.positionId === positionId)?.samples ?? [];
+}
+
+/**
+ * Append one sample per position and trim each series to HISTORY_CONFIG's bounds
+ * Series are pruned by age only: a position missing from one refresh (e.g. its RPC was down)
+ * keeps its history, and the series of a closed position ages out after maxAgeHours
+ */
+export function recordHealthSamples(
+    memory: PositionMemory,
+    samples: Array<HealthFactorSample & { positionId: string }>
+): void {
+    const history = memory.monitoringState.history || [];
+
+    for (const { positionId, ...sample } of samples) {
+        // No debt (infinite health) or unpriced samples carry no trend
+        if (!Number.isFinite(sample.healthFactor)) continue;
+
+        let entry = history.find((existing) => existing.positionId === positionId);
+        if (!entry) {
+            entry = { positionId, samples: [] };
+            history.push(entry);
+        }
+        entry.samples.push(sample);
+    }
+
+    const oldest = Date.now() - HISTORY_CONFIG.maxAgeHours * 3600 * 1000;
+    for (const entry of history) {
+        entry.samples = entry.samples
+            .filter((sample) => sample.timestamp >= oldest)
+            .slice(-HISTORY_CONFIG.maxSamples);
+    }
+
+    memory.monitoringState.history = history.filter((entry) => entry.samples.length > 0);
+}
+
+/**
+ * Least-squares slope of value against time, per hour
+ */
+function slopePerHour(points: Array<{ timestamp: number; value: number }>): number | null {
+    if (points.length < 2) return null;
+
+    const hours = points.map((point) => point.timestamp / 3_600_000);
+    const meanX = hours.reduce((sum, x) => sum + x, 0) / points.length;
+    const meanY = points.reduce((sum, point) => sum + point.value, 0) / points.length;
+
+    let numerator = 0;
+    let denominator = 0;
+    points.forEach((point, index) => {
+        numerator += (hours[index]! - meanX) * (point.value - meanY);
+        denominator += (hours[index]! - meanX) ** 2;
+    });
+
+    return denominator > 0 ? numerator / denominator : null;
+}
+
+function percentChange(first: number, last: number): number | null {
+    return first > 0 && Number.isFinite(first) && Number.isFinite(last) ? ((last - first) / first) * 100 : null;
+}
+
+/**
+ * Hours until a value falling at `slope` per hour reaches `target`
+ */
+function hoursUntil(current: number, target: number, slope: number | null): number | null {
+    if (current <= target) return 0;
+    if (slope === null || slope >= 0) return null;
+    return (current - target) / -slope;
+}
+
+/**
+ * Rate of change over the window and projected hours until the position crosses the buffer
+ * threshold and HF 1.0 at the current trajectory
+ */
+export function analyzeHealthTrend(
+    samples: HealthFactorSample[],
+    threshold: number,
+    windowHours: number = HISTORY_CONFIG.trendWindowHours,
+    now: number = Date.now()
+): HealthTrendAnalysis {
+    const windowStart = now - windowHours * 3600 * 1000;
+    const recent = samples.filter((sample) => sample.timestamp >= windowStart);
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+
+    const hfChangePerHour = slopePerHour(recent.map((sample) => ({ timestamp: sample.timestamp, value: sample.healthFactor })));
+
+    let trend: HealthTrend = "unknown";
+    if (hfChangePerHour !== null) {
+        trend = Math.abs(hfChangePerHour) < HISTORY_CONFIG.stableChangePerHour
+            ? "stable"
+            : hfChangePerHour > 0 ? "improving" : "deteriorating";
+    }
+
+    return {
+        trend,
+        samples: recent.length,
+        windowHours,
+        healthFactor: last?.healthFactor ?? null,
+        bufferPercent: last?.bufferPercent ?? null,
+        hfChangePerHour,
+        // Buffer is (HF - 1) * 100
+        bufferChangePerHour: hfChangePerHour !== null ? hfChangePerHour * 100 : null,
+        collateralPriceChangePercent: first && last ? percentChange(first.collateralPrice, last.collateralPrice) : null,
+        debtValueChangePercent: first && last ? percentChange(first.debtValue, last.debtValue) : null,
+        hoursToThreshold: last ? hoursUntil(last.healthFactor, 1 + threshold / 100, hfChangePerHour) : null,
+        hoursToLiquidation: last ? hoursUntil(last.healthFactor, 1, hfChangePerHour) : null,
+    };
+}
@@ -0,0 +1,370 @@
+/**
+ * Liquidation history
+ * Scans Aave V3 LiquidationCall and Curve Liquidate logs for a wallet over a block range (in
+ * chunks, see utils/logs.ts) and values each liquidation at its block. Results are merged into
+ * the wallet's memory, so later scans only cover new blocks
+ */
+
+import { formatUnits, getAbiItem, getAddress, type Address, type PublicClient } from "viem";
+import type { LiquidationHistory, LiquidationRecord, PositionMemory } from "../types/memory.js";
+import { aaveAdapter, getAaveDeployment } from "./aave.js";
+import { getChainClient } from "./chains.js";
+import { LIQUIDATION_HISTORY_CONFIG } from "./config.js";
+import {
+    AAVE_ADDRESSES_PROVIDER_ABI,
+    AAVE_POOL_ABI,
+    AAVE_PRICE_ORACLE_ABI,
+    CURVE_AMM_ABI,
+    CURVE_CONTROLLER_ABI,
+    ERC20_ABI,
+} from "./contracts.js";
+import { CURVE_DEPLOYMENT_BLOCK, curveAdapter, getCurveMarkets } from "./curve.js";
+import { getLogsInChunks } from "./logs.js";
+import { getTokenPrices } from "./prices.js";
+
+/**
+ * Outcome of scanning one protocol on one chain
+ */
+export interface LiquidationScanResult {
+    protocolId: string;
+    chainId: number;
+    fromBlock: number | null;
+    toBlock: number | null;
+    found: number;
+    coversFullHistory: boolean; // Scanned ranges reach back to the deployment without gaps
+    error?: string;
+}
+
+export interface LiquidationSummary {
+    count: number;
+    selfLiquidations: number;
+    unpriced: number; // Liquidations left out of the USD totals
+    collateralSeizedUsd: number;
+    debtCoveredUsd: number;
+    bonusPaidUsd: number;
+    firstAt: number | null; // Block time (ms) of the oldest liquidation
+    lastAt: number | null;
+    byProtocol: Record<string, number>;
+}
+
+type ScannedRange = LiquidationHistory["scannedRanges"][number];
+
+/**
+ * Scans one protocol's liquidation logs for a wallet on a chain
+ */
+interface LiquidationScanner {
+    supportedChains: number[];
+    getDeploymentBlock(chainId: number): bigint;
+    scan(client: PublicClient, wallet: Address, chainId: number, fromBlock: bigint, toBlock: bigint): Promise<LiquidationRecord[]>;
+}
+
+const tokens = new Map<string, { symbol: string; decimals: number }>();
+
+async function getToken(client: PublicClient, chainId: number, address: Address): Promise<{ symbol: string; decimals: number }> {
+    const key = `${chainId}:${address.toLowerCase()}`;
+    const cached = tokens.get(key);
+    if (cached) return cached;
+
+    try {
+        const [symbol, decimals] = await Promise.all([
+            client.readContract({ address, abi: ERC20_ABI, functionName: "symbol" }),
+            client.readContract({ address, abi: ERC20_ABI, functionName: "decimals" }),
+        ]);
+        const token = { symbol, decimals: Number(decimals) };
+        tokens.set(key, token);
+        return token;
+    } catch {
+        return { symbol: "UNKNOWN", decimals: 18 };
+    }
+}
+
+async function getBlockTimestamp(client: PublicClient, blockNumber: bigint): Promise<number | null> {
+    try {
+        const block = await client.getBlock({ blockNumber });
+        return Number(block.timestamp) * 1000;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * USD prices at the liquidation block; reading past state needs an archive RPC, so current
+ * CoinGecko prices are used when the historical read fails
+ */
+async function priceLiquidation(
+    symbols: [string, string],
+    readHistorical: () => Promise<[number, number]>
+): Promise<{ prices: [number, number] | null; pricing: LiquidationRecord["pricing"] }> {
+    try {
+        return { prices: await readHistorical(), pricing: "historical" };
+    } catch (error) {
+        console.warn(`[Liquidations] No historical ${symbols.join("/")} prices, using current prices:`, error instanceof Error ? error.message : error);
+    }
+
+    const current = await getTokenPrices(symbols).catch(() => ({} as Record<string, number>));
+    const prices = symbols.map((symbol) => current[symbol]);
+    return prices.every((price) => price !== undefined && price > 0)
+        ? { prices: prices as [number, number], pricing: "current" }
+        : { prices: null, pricing: "unpriced" };
+}
+
+const aaveScanner: LiquidationScanner = {
+    supportedChains: aaveAdapter.supportedChains,
+    getDeploymentBlock: (chainId) => getAaveDeployment(chainId)!.deploymentBlock,
+    async scan(client, wallet, chainId, fromBlock, toBlock) {
+        const deployment = getAaveDeployment(chainId)!;
+        const logs = await getLogsInChunks(fromBlock, toBlock, (chunkStart, chunkEnd) =>
+            client.getLogs({
+                address: deployment.pool,
+                event: getAbiItem({ abi: AAVE_POOL_ABI, name: "LiquidationCall" }),
+                args: { user: wallet },
+                fromBlock: chunkStart,
+                toBlock: chunkEnd,
+            })
+        );
+
+        return await Promise.all(logs.map(async (log) => {
+            const { collateralAsset, debtAsset, debtToCover, liquidatedCollateralAmount, liquidator } = log.args;
+            const [collateral, debt, timestamp] = await Promise.all([
+                getToken(client, chainId, collateralAsset!),
+                getToken(client, chainId, debtAsset!),
+                getBlockTimestamp(client, log.blockNumber),
+            ]);
+            const collateralSeized = Number(formatUnits(liquidatedCollateralAmount!, collateral.decimals));
+            const debtCovered = Number(formatUnits(debtToCover!, debt.decimals));
+
+            // The pool's oracle at the liquidation block (the protocol fee on top of the seized collateral isn't counted)
+            const { prices, pricing } = await priceLiquidation([collateral.symbol, debt.symbol], async () => {
+                const blockNumber = log.blockNumber;
+                const oracle = await client.readContract({ address: deployment.addressesProvider, abi: AAVE_ADDRESSES_PROVIDER_ABI, functionName: "getPriceOracle", blockNumber });
+                const [assetPrices, unit] = await Promise.all([
+                    client.readContract({ address: oracle, abi: AAVE_PRICE_ORACLE_ABI, functionName: "getAssetsPrices", args: [[collateralAsset!, debtAsset!]], blockNumber }),
+                    client.readContract({ address: oracle, abi: AAVE_PRICE_ORACLE_ABI, functionName: "BASE_CURRENCY_UNIT", blockNumber }),
+                ]);
+                return [Number(assetPrices[0]) / Number(unit), Number(assetPrices[1]) / Number(unit)];
+            });
+
+            const collateralSeizedUsd = prices ? collateralSeized * prices[0] : null;
+            const debtCoveredUsd = prices ? debtCovered * prices[1] : null;
+
+            return {
+                protocolId: "aave-v3",
+                chainId,
+                blockNumber: Number(log.blockNumber),
+                timestamp,
+                transactionHash: log.transactionHash,
+                logIndex: log.logIndex,
+                liquidator: liquidator!,
+                collateralAsset: collateral.symbol,
+                collateralSeized: collateralSeized.toString(),
+                collateralSeizedUsd,
+                debtAsset: debt.symbol,
+                debtCovered: debtCovered.toString(),
+                debtCoveredUsd,
+                bonusUsd: collateralSeizedUsd !== null && debtCoveredUsd !== null ? collateralSeizedUsd - debtCoveredUsd : null,
+                pricing,
+            };
+        }));
+    },
+};
+
+const curveScanner: LiquidationScanner = {
+    supportedChains: curveAdapter.supportedChains,
+    getDeploymentBlock: () => CURVE_DEPLOYMENT_BLOCK,
+    async scan(client, wallet, chainId, fromBlock, toBlock) {
+        const markets = await getCurveMarkets();
+        const marketsByController = new Map(markets.map((market) => [market.controller.toLowerCase(), market]));
+
+        const logs = await getLogsInChunks(fromBlock, toBlock, (chunkStart, chunkEnd) =>
+            client.getLogs({
+                address: markets.map((market) => market.controller),
+                event: getAbiItem({ abi: CURVE_CONTROLLER_ABI, name: "Liquidate" }),
+                args: { user: wallet },
+                fromBlock: chunkStart,
+                toBlock: chunkEnd,
+            })
+        );
+
+        const records = await Promise.all(logs.map(async (log): Promise<LiquidationRecord | null> => {
+            const market = marketsByController.get(log.address.toLowerCase());
+            if (!market) return null;
+
+            const { collateralToken, borrowedToken } = market;
+            const { liquidator, collateral_received, stablecoin_received, debt } = log.args;
+            const collateralSeized = Number(formatUnits(collateral_received!, collateralToken.decimals));
+            const bandStablecoin = Number(formatUnits(stablecoin_received!, borrowedToken.decimals));
+            const debtCovered = Number(formatUnits(debt!, borrowedToken.decimals));
+            // Closing your own loan through liquidate() returns the collateral: nothing is paid
+            const selfLiquidation = liquidator!.toLowerCase() === wallet.toLowerCase();
+
+            // The LLAMMA oracle at the liquidation block prices collateral in the borrowed token;
+            // borrowed tokens other than crvUSD are converted at their current USD price
+            const { prices, pricing } = await priceLiquidation([collateralToken.symbol, borrowedToken.symbol], async () => {
+                const [oraclePrice, borrowedPrices] = await Promise.all([
+                    client.readContract({ address: market.amm, abi: CURVE_AMM_ABI, functionName: "price_oracle", blockNumber: log.blockNumber }),
+                    borrowedToken.symbol === "crvUSD" ? { crvUSD: 1 } : getTokenPrices([borrowedToken.symbol]),
+                ]);
+                const borrowedUsd = (borrowedPrices as Record<string, number>)[borrowedToken.symbol];
+                if (!borrowedUsd) throw new Error(`no USD price for ${borrowedToken.symbol}`);
+                return [Number(formatUnits(oraclePrice, 18)) * borrowedUsd, borrowedUsd];
+            });
+
+            const collateralSeizedUsd = prices ? collateralSeized * prices[0] + bandStablecoin * prices[1] : null;
+            const debtCoveredUsd = prices ? debtCovered * prices[1] : null;
+
+            return {
+                protocolId: "curve",
+                chainId,
+                blockNumber: Number(log.blockNumber),
+                timestamp: await getBlockTimestamp(client, log.blockNumber),
+                transactionHash: log.transactionHash,
+                logIndex: log.logIndex,
+                liquidator: liquidator!,
+                ...(selfLiquidation && { selfLiquidation }),
+                collateralAsset: collateralToken.symbol,
+                collateralSeized: collateralSeized.toString(),
+                collateralSeizedUsd,
+                ...(bandStablecoin > 0 && { bandStablecoin: bandStablecoin.toString() }),
+                debtAsset: borrowedToken.symbol,
+                debtCovered: debtCovered.toString(),
+                debtCoveredUsd,
+                bonusUsd: selfLiquidation
+                    ? 0
+                    : collateralSeizedUsd !== null && debtCoveredUsd !== null ? collateralSeizedUsd - debtCoveredUsd : null,
+                pricing,
+            };
+        }));
+
+        return records.filter((record): record is LiquidationRecord => record !== null);
+    },
+};
+
+const scanners: Record<string, LiquidationScanner> = {
+    "aave-v3": aaveScanner,
+    curve: curveScanner,
+};
+
+export function getLiquidationProtocolIds(): string[] {
+    return Object.keys(scanners);
+}
+
+function getRanges(history: LiquidationHistory, protocolId: string, chainId: number): ScannedRange[] {
+    return history.scannedRanges.filter((range) => range.protocolId === protocolId && range.chainId === chainId);
+}
+
+/**
+ * Record a scanned range, merging the scope's ranges that overlap or touch
+ */
+function addScannedRange(history: LiquidationHistory, scanned: ScannedRange): void {
+    const ranges = [...getRanges(history, scanned.protocolId, scanned.chainId), scanned].sort((a, b) => a.fromBlock - b.fromBlock);
+    const merged: ScannedRange[] = [];
+    for (const range of ranges) {
+        const last = merged[merged.length - 1];
+        if (last && range.fromBlock <= last.toBlock + 1) {
+            last.toBlock = Math.max(last.toBlock, range.toBlock);
+        } else {
+            merged.push({ ...range });
+        }
+    }
+
+    history.scannedRanges = [
+        ...history.scannedRanges.filter((range) => range.protocolId !== scanned.protocolId || range.chainId !== scanned.chainId),
+        ...merged,
+    ];
+}
+
+function addLiquidations(history: LiquidationHistory, records: LiquidationRecord[]): void {
+    const keyOf = (record: LiquidationRecord) => `${record.chainId}:${record.transactionHash}:${record.logIndex}`;
+    const known = new Set(history.events.map(keyOf));
+
+    history.events = [...history.events, ...records.filter((record) => !known.has(keyOf(record)))]
+        .sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0) || a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+        .slice(-LIQUIDATION_HISTORY_CONFIG.maxEvents);
+}
+
+/**
+ * Scan the wallet's liquidations on the given protocols and chains and merge them into
+ * memory.liquidationHistory. Without fromBlock, each scope continues after its last scanned block,
+ * or reaches back LIQUIDATION_HISTORY_CONFIG.maxBlocksPerScan blocks on the first scan
+ */
+export async function scanLiquidationHistory(
+    memory: PositionMemory,
+    options: { protocolIds: string[]; chainIds: number[]; fromBlock?: bigint; toBlock?: bigint }
+): Promise<LiquidationScanResult[]> {
+    const wallet = getAddress(memory.wallet);
+    const history: LiquidationHistory = memory.liquidationHistory ?? { events: [], scannedRanges: [], lastScannedAt: 0 };
+
+    const scopes = options.protocolIds.flatMap((protocolId) =>
+        options.chainIds
+            .filter((chainId) => scanners[protocolId]?.supportedChains.includes(chainId))
+            .map((chainId) => ({ protocolId, chainId, scanner: scanners[protocolId]! }))
+    );
+
+    const results = await Promise.all(scopes.map(async ({ protocolId, chainId, scanner }): Promise<LiquidationScanResult> => {
+        const deploymentBlock = scanner.getDeploymentBlock(chainId);
+        const coversFullHistory = () => getRanges(history, protocolId, chainId).some((range) => BigInt(range.fromBlock) <= deploymentBlock);
+        let fromBlock: bigint | null = null;
+        let toBlock: bigint | null = null;
+
+        try {
+            const client = getChainClient(chainId);
+            toBlock = options.toBlock ?? await client.getBlockNumber();
+
+            const lastScanned = Math.max(-1, ...getRanges(history, protocolId, chainId).map((range) => range.toBlock));
+            const start = options.fromBlock
+                ?? (lastScanned >= 0 ? BigInt(lastScanned) + 1n : toBlock - LIQUIDATION_HISTORY_CONFIG.maxBlocksPerScan + 1n);
+            fromBlock = start > deploymentBlock ? start : deploymentBlock;
+
+            let found = 0;
+            if (fromBlock <= toBlock) {
+                console.log(`[Liquidations] Scanning ${protocolId} on chain ${chainId}, blocks ${fromBlock}-${toBlock}`);
+                const records = await scanner.scan(client, wallet, chainId, fromBlock, toBlock);
+                addLiquidations(history, records);
+                addScannedRange(history, { protocolId, chainId, fromBlock: Number(fromBlock), toBlock: Number(toBlock) });
+                found = records.length;
+            }
+
+            return { protocolId, chainId, fromBlock: Number(fromBlock), toBlock: Number(toBlock), found, coversFullHistory: coversFullHistory() };
+        } catch (error) {
+            console.error(`[Liquidations] Error scanning ${protocolId} on chain ${chainId}:`, error);
+            return {
+                protocolId,
+                chainId,
+                fromBlock: fromBlock !== null ? Number(fromBlock) : null,
+                toBlock: toBlock !== null ? Number(toBlock) : null,
+                found: 0,
+                coversFullHistory: coversFullHistory(),
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }));
+
+    history.lastScannedAt = Date.now();
+    memory.liquidationHistory = history;
+    return results;
+}
+
+/**
+ * Totals over the stored liquidations; unpriced ones are counted but left out of the USD sums
+ */
+export function summarizeLiquidations(history: LiquidationHistory | undefined): LiquidationSummary {
+    const events = history?.events ?? [];
+    const priced = events.filter((event) => event.pricing !== "unpriced");
+    const sum = (values: Array<number | null>) => values.reduce<number>((total, value) => total + (value ?? 0), 0);
+    const timestamps = events.map((event) => event.timestamp).filter((timestamp): timestamp is number => timestamp !== null);
+
+    return {
+        count: events.length,
+        selfLiquidations: events.filter((event) => event.selfLiquidation).length,
+        unpriced: events.length - priced.length,
+        collateralSeizedUsd: sum(priced.filter((event) => !event.selfLiquidation).map((event) => event.collateralSeizedUsd)),
+        debtCoveredUsd: sum(priced.map((event) => event.debtCoveredUsd)),
+        bonusPaidUsd: sum(priced.map((event) => event.bonusUsd)),
+        firstAt: timestamps.length > 0 ? Math.min(...timestamps) : null,
+        lastAt: timestamps.length > 0 ? Math.max(...timestamps) : null,
+        byProtocol: events.reduce<Record<string, number>>((counts, event) => {
+            counts[event.protocolId] = (counts[event.protocolId] ?? 0) + 1;
+            return counts;
+        }, {}),
+    };
+}
@@ -0,0 +1,533 @@
+/**
+ * Liquity protocol integration utilities
+ * Fetches troves from Liquity V1 (ETH / LUSD) and Liquity V2 (multi-collateral / BOLD) on Ethereum Mainnet
+ */
+
+import { createPublicClient, http, formatUnits, getAbiItem, getAddress, isAddressEqual, zeroAddress, type Address } from "viem";
+import { mainnet } from "viem/chains";
+import type { LiquityTroveState, Position } from "../types/memory.js";
+import { NETWORKS } from "./config.js";
+import { isContractRevert } from "./chains.js";
+import { createLiquityPriceFeedSource, PriceUnavailableError, resolvePrices, type PriceQuote } from "./prices.js";
+import { createUnpricedPosition, type ProtocolAdapter } from "./protocols.js";
+import { calculateHealthFactor, calculateLiquidationPrice } from "./risk.js";
+import { getLogsInChunks } from "./logs.js";
+import {
+    ERC20_ABI,
+    LIQUITY_PRICE_FEED_ABI,
+    LIQUITY_V1_TROVE_MANAGER_ABI,
+    LIQUITY_V2_BOLD_ABI,
+    LIQUITY_V2_COLLATERAL_REGISTRY_ABI,
+    LIQUITY_V2_TROVE_MANAGER_ABI,
+    LIQUITY_V2_TROVE_NFT_ABI,
+} from "./contracts.js";
+
+/**
+ * A Liquity V2 collateral branch
+ */
+export interface LiquityV2Branch {
+    name: string;
+    troveManager: Address;
+    priceFeed: Address | null; // Null when the TroveManager doesn't expose it; troves are then valued through the provider chain
+    collToken: Address;
+    mcr: number; // e.g. 1.1 for 110%
+    deploymentBlock?: bigint; // Scan trove NFT transfers from here; without it only configured trove IDs are checked
+}
+
+/**
+ * Parse LIQUITY_V2_BRANCHES: a JSON array of
+ * { name, troveManager, priceFeed, collToken, mcr, deploymentBlock? }
+ */
+function parseV2Branches(value: string | undefined): LiquityV2Branch[] {
+    if (!value) return [];
+
+    try {
+        const branches = JSON.parse(value) as Array<Record<string, unknown>>;
+        return branches.map((branch) => ({
+            name: String(branch.name),
+            troveManager: getAddress(String(branch.troveManager)),
+            priceFeed: branch.priceFeed ? getAddress(String(branch.priceFeed)) : null,
+            collToken: getAddress(String(branch.collToken)),
+            mcr: Number(branch.mcr || getV2CollateralParams(String(branch.collToken))?.mcr || 1.1),
+            deploymentBlock: branch.deploymentBlock !== undefined ? BigInt(String(branch.deploymentBlock)) : undefined,
+        }));
+    } catch (error) {
+        console.error("[Liquity] Invalid LIQUITY_V2_BRANCHES, ignoring V2 branches:", error);
+        return [];
+    }
+}
+
+/**
+ * Mainnet V2 branches by collateral token. Each branch liquidates below its own MCR; its CCR
+ * only restricts borrowing (V2 has no recovery mode), so it isn't a liquidation threshold here
+ */
+const LIQUITY_V2_COLLATERALS: Record<string, { name: string; mcr: number }> = {
+    "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2": { name: "WETH", mcr: 1.1 },
+    "0x7f39c581f595b53c5cb19bd0b3f8da6c935e2ca0": { name: "wstETH", mcr: 1.2 },
+    "0xae78736cd615f374d3085123a210448e74fc6393": { name: "rETH", mcr: 1.2 },
+};
+
+function getV2CollateralParams(collToken: string): { name: string; mcr: number } | undefined {
+    return LIQUITY_V2_COLLATERALS[collToken.toLowerCase()];
+}
+
+const LIQUITY_CONFIG = {
+    v1: {
+        troveManager: getAddress("0xA39739EF8b0231DbFA0DcdA07d7e29faAbCf4bb2"),
+        priceFeed: getAddress("0x4c517D4e2C851CA76d7eC94B805269Df0f2201De"),
+        lusd: getAddress("0x5f98805A4E8be255a32880FDeC7F6728C6568bA0"),
+    },
+    v2: {
+        bold: getAddress(process.env.LIQUITY_V2_BOLD_ADDRESS || "0x6440f144b7e50D6a8439336510312d2F54beB01D"),
+        // Branches are read from BOLD's CollateralRegistry unless LIQUITY_V2_BRANCHES overrides them
+        branches: parseV2Branches(process.env.LIQUITY_V2_BRANCHES),
+        // Trove NFT transfers are scanned from here (before the mainnet deployment)
+        deploymentBlock: 21_500_000n,
+    },
+};
+
+// Branches read from the CollateralRegistry, shared by concurrent callers; retried after a failure
+let v2Branches: Promise<LiquityV2Branch[]> | null = null;
+
+// V1 troves hold native ETH; this is the conventional placeholder address for it
+const NATIVE_ETH = getAddress("0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE");
+
+// Trove status values (V1 and V2 share the numbering for these)
+const TROVE_STATUS_ACTIVE = 1n;
+const TROVE_STATUS_ZOMBIE = 4n; // V2 only: below minimum debt after a redemption, still liquidatable
+
+// Trove IDs found in each wallet's TroveNFT transfers per branch, and the last block scanned
+const troveHistory = new Map<string, { troveIds: Set<bigint>; scannedToBlock: bigint }>();
+
+/**
+ * Create a viem public client for Ethereum mainnet
+ */
+function getClient() {
+    return createPublicClient({
+        chain: mainnet,
+        transport: http(NETWORKS.MAINNET.rpcUrl),
+        // Aggregate the per-trove reads into multicalls
+        batch: { multicall: true },
+    });
+}
+
+/**
+ * Build a trove position from its collateral and debt
+ * In V1 recovery mode the effective threshold is the CCR, so the position's LT follows it
+ */
+async function buildTrovePosition(
+    client: ReturnType<typeof getClient>,
+    params: {
+        id: string;
+        protocolId: string;
+        priceFeed: Address | null;
+        collateral: { address: Address; symbol: string; decimals: number };
+        debtToken: { address: Address; symbol: string };
+        coll: bigint;
+        debt: bigint;
+        blockNumber: bigint;
+        state: Omit<LiquityTroveState, "collateralRatio" | "price" | "liquidatableInRecoveryMode">;
+    }
+): Promise<Position> {
+    const { collateral, debtToken, state } = params;
+
+    const collateralAmount = formatUnits(params.coll, collateral.decimals);
+    const debtAmount = formatUnits(params.debt, 18);
+    const effectiveRatio = state.recoveryMode && state.criticalCollateralRatio !== null
+        ? state.criticalCollateralRatio
+        : state.minimumCollateralRatio;
+    const liquidationThreshold = 1 / effectiveRatio;
+
+    // Price through the provider chain with the branch's PriceFeed as the protocol step
+    const priceFeedSource = params.priceFeed
+        ? createLiquityPriceFeedSource(client, params.priceFeed, collateral.address, params.blockNumber)
+        : undefined;
+    let quotes: PriceQuote[];
+    try {
+        quotes = await resolvePrices([
+            { symbol: collateral.symbol, address: collateral.address },
+            { symbol: debtToken.symbol, address: debtToken.address },
+        ], {
+            client,
+            chainId: mainnet.id,
+            blockNumber: params.blockNumber,
+            protocol: priceFeedSource,
+        });
+    } catch (error) {
+        if (!(error instanceof PriceUnavailableError)) throw error;
+        console.warn(`[Liquity] ${params.id}: ${error.message}`);
+        return createUnpricedPosition({
+            id: params.id,
+            protocolId: params.protocolId,
+            chainId: mainnet.id,
+            collateralAsset: collateral.symbol,
+            debtAsset: debtToken.symbol,
+            collateralAmount,
+            debtAmount,
+            liquidationThreshold,
+        }, error);
+    }
+    const [collateralQuote, debtQuote] = quotes;
+
+    const collateralValue = parseFloat(collateralAmount) * collateralQuote.price;
+    const debtValue = parseFloat(debtAmount) * debtQuote.price;
+
+    // The ICR is on the TCR / CCR's basis: the PriceFeed price, debt at par. The provider quotes
+    // only value the trove in USD
+    const [feedQuote] = priceFeedSource ? await priceFeedSource.getPrices([{ symbol: collateral.symbol, address: collateral.address }]) : [];
+    const price = feedQuote?.price ?? collateralQuote.price;
+    const collateralRatio = parseFloat(debtAmount) > 0
+        ? (parseFloat(collateralAmount) * price) / parseFloat(debtAmount)
+        : Infinity;
+
+    return {
+        id: params.id,
+        protocolId: params.protocolId,
+        chainId: mainnet.id,
+        collateralAsset: collateral.symbol,
+        debtAsset: debtToken.symbol,
+        collateralAmount,
+        debtAmount,
+        collateralValue,
+        debtValue,
+        liquidationThreshold,
+        collateralLegs: [{
+            asset: collateral.symbol,
+            address: collateral.address,
+            amount: collateralAmount,
+            decimals: collateral.decimals,
+            price: collateralQuote.price,
+            value: collateralValue,
+            liquidationThreshold,
+            priceSource: collateralQuote.source,
+            priceBlock: collateralQuote.blockNumber,
+        }],
+        debtLegs: [{
+            asset: debtToken.symbol,
+            address: debtToken.address,
+            amount: debtAmount,
+            decimals: 18,
+            price: debtQuote.price,
+            value: debtValue,
+            liquidationThreshold: 0,
+            priceSource: debtQuote.source,
+            priceBlock: debtQuote.blockNumber,
+        }],
+        liquity: {
+            ...state,
+            collateralRatio,
+            price,
+            liquidatableInRecoveryMode: state.criticalCollateralRatio !== null && collateralRatio < state.criticalCollateralRatio,
+        },
+    };
+}
+
+/**
+ * Fetch the wallet's Liquity V1 trove (at most one per address)
+ */
+export async function fetchLiquityV1Positions(
+    walletAddress: string
+): Promise<Position[]> {
+    const client = getClient();
+    const { troveManager, priceFeed, lusd } = LIQUITY_CONFIG.v1;
+
+    try {
+        console.log(`[Liquity] Fetching V1 trove for ${walletAddress}`);
+
+        // Normalize wallet address to checksummed format
+        const normalizedWallet = getAddress(walletAddress);
+
+        // Pin every read to one block so balances and prices are consistent
+        const blockNumber = await client.getBlockNumber();
+
+        const status = await client.readContract({
+            address: troveManager,
+            abi: LIQUITY_V1_TROVE_MANAGER_ABI,
+            functionName: "getTroveStatus",
+            args: [normalizedWallet],
+            blockNumber,
+        });
+
+        if (status !== TROVE_STATUS_ACTIVE) {
+            console.log("[Liquity] No active V1 trove");
+            return [];
+        }
+
+        const [[debt, coll], price, mcr, ccr] = await Promise.all([
+            // Includes pending redistribution rewards
+            client.readContract({ address: troveManager, abi: LIQUITY_V1_TROVE_MANAGER_ABI, functionName: "getEntireDebtAndColl", args: [normalizedWallet], blockNumber }),
+            client.readContract({ address: priceFeed, abi: LIQUITY_PRICE_FEED_ABI, functionName: "lastGoodPrice", blockNumber }),
+            client.readContract({ address: troveManager, abi: LIQUITY_V1_TROVE_MANAGER_ABI, functionName: "MCR", blockNumber }),
+            client.readContract({ address: troveManager, abi: LIQUITY_V1_TROVE_MANAGER_ABI, functionName: "CCR", blockNumber }),
+        ]);
+
+        // System-wide state at the same price: recovery mode starts when TCR < CCR
+        const [tcr, recoveryMode] = await Promise.all([
+            client.readContract({ address: troveManager, abi: LIQUITY_V1_TROVE_MANAGER_ABI, functionName: "getTCR", args: [price], blockNumber }),
+            client.readContract({ address: troveManager, abi: LIQUITY_V1_TROVE_MANAGER_ABI, functionName: "checkRecoveryMode", args: [price], blockNumber }),
+        ]);
+
+        const position = await buildTrovePosition(client, {
+            id: `${walletAddress}-liquity-v1-trove`,
+            protocolId: "liquity-v1",
+            priceFeed,
+            collateral: { address: NATIVE_ETH, symbol: "ETH", decimals: 18 },
+            debtToken: { address: lusd, symbol: "LUSD" },
+            coll,
+            debt,
+            blockNumber,
+            state: {
+                version: "v1",
+                troveId: normalizedWallet,
+                branch: "ETH",
+                minimumCollateralRatio: Number(formatUnits(mcr, 18)),
+                criticalCollateralRatio: Number(formatUnits(ccr, 18)),
+                totalCollateralRatio: Number(formatUnits(tcr, 18)),
+                recoveryMode,
+            },
+        });
+
+        console.log(`[Liquity] Found V1 trove: ${position.collateralAmount} ETH / ${position.debtAmount} LUSD, ICR=${(position.liquity!.collateralRatio * 100).toFixed(1)}%, TCR=${(position.liquity!.totalCollateralRatio! * 100).toFixed(1)}%${recoveryMode ? " (RECOVERY MODE)" : ""}`);
+        return [position];
+    } catch (error) {
+        console.error("[Liquity] Error fetching V1 trove from contracts:", error);
+        throw error;
+    }
+}
+
+/**
+ * Find trove IDs the wallet has received on a V2 branch
+ * Scans TroveNFT Transfer logs to the wallet, incrementally per wallet and branch
+ */
+async function findV2TroveIds(
+    client: ReturnType<typeof getClient>,
+    branch: LiquityV2Branch,
+    troveNFT: Address,
+    user: Address,
+    toBlock: bigint
+): Promise<bigint[]> {
+    if (branch.deploymentBlock === undefined) return [];
+
+    const key = `${branch.troveManager}-${user}`.toLowerCase();
+    const history = troveHistory.get(key) ?? { troveIds: new Set<bigint>(), scannedToBlock: branch.deploymentBlock - 1n };
+
+    if (history.scannedToBlock < toBlock) {
+        const logs = await getLogsInChunks(history.scannedToBlock + 1n, toBlock, (fromBlock, chunkEnd) =>
+            client.getLogs({
+                address: troveNFT,
+                event: getAbiItem({ abi: LIQUITY_V2_TROVE_NFT_ABI, name: "Transfer" }),
+                args: { to: user },
+                fromBlock,
+                toBlock: chunkEnd,
+            })
+        );
+
+        for (const log of logs) {
+            if (log.args.tokenId !== undefined) history.troveIds.add(log.args.tokenId);
+        }
+        history.scannedToBlock = toBlock;
+        troveHistory.set(key, history);
+    }
+
+    return [...history.troveIds];
+}
+
+/**
+ * Read the V2 branches from BOLD's CollateralRegistry (or LIQUITY_V2_BRANCHES when set)
+ */
+async function getV2Branches(client: ReturnType<typeof getClient>): Promise<LiquityV2Branch[]> {
+    if (LIQUITY_CONFIG.v2.branches.length > 0) {
+        return LIQUITY_CONFIG.v2.branches;
+    }
+
+    v2Branches ??= (async () => {
+        const registry = await client.readContract({ address: LIQUITY_CONFIG.v2.bold, abi: LIQUITY_V2_BOLD_ABI, functionName: "collateralRegistryAddress" });
+        const count = await client.readContract({ address: registry, abi: LIQUITY_V2_COLLATERAL_REGISTRY_ABI, functionName: "totalCollaterals" });
+
+        return await Promise.all(Array.from({ length: Number(count) }, async (_, index) => {
+            const [collToken, troveManager] = await Promise.all([
+                client.readContract({ address: registry, abi: LIQUITY_V2_COLLATERAL_REGISTRY_ABI, functionName: "getToken", args: [BigInt(index)] }),
+                client.readContract({ address: registry, abi: LIQUITY_V2_COLLATERAL_REGISTRY_ABI, functionName: "getTroveManager", args: [BigInt(index)] }),
+            ]);
+            const priceFeed = await client.readContract({ address: troveManager, abi: LIQUITY_V2_TROVE_MANAGER_ABI, functionName: "priceFeed" })
+                .catch((error) => {
+                    if (isContractRevert(error)) return null;
+                    throw error;
+                });
+            const known = getV2CollateralParams(collToken);
+            if (!known) {
+                console.warn(`[Liquity] Unknown V2 collateral ${collToken}, assuming a 110% MCR`);
+            }
+
+            return {
+                name: known?.name ?? collToken,
+                troveManager,
+                priceFeed,
+                collToken,
+                mcr: known?.mcr ?? 1.1,
+                deploymentBlock: LIQUITY_CONFIG.v2.deploymentBlock,
+            };
+        }));
+    })().catch((error) => {
+        v2Branches = null;
+        throw error;
+    });
+
+    return await v2Branches;
+}
+
+const describeV2Branch = (branch: LiquityV2Branch) => `Liquity V2 ${branch.name} (${branch.troveManager})`;
+
+/**
+ * Fetch the wallet's Liquity V2 troves across the mainnet branches (or LIQUITY_V2_BRANCHES)
+ * Troves are NFTs, so ownership is checked with ownerOf; extra trove IDs can be passed as marketIds
+ */
+export async function fetchLiquityV2Positions(
+    walletAddress: string,
+    troveIds: string[] = []
+): Promise<{ positions: Position[]; marketsScanned: string[] }> {
+    const positions: Position[] = [];
+    const client = getClient();
+
+    try {
+        console.log(`[Liquity] Fetching V2 troves for ${walletAddress}`);
+        const branches = await getV2Branches(client);
+
+        // Normalize wallet address to checksummed format
+        const normalizedWallet = getAddress(walletAddress);
+
+        // Pin every read to one block so balances and prices are consistent
+        const blockNumber = await client.getBlockNumber();
+
+        // A failed history scan or trove read fails the whole fetch, so the stored positions are kept (fetchAllPositions)
+        for (const branch of branches) {
+            const troveNFT = await client.readContract({
+                address: branch.troveManager,
+                abi: LIQUITY_V2_TROVE_MANAGER_ABI,
+                functionName: "troveNFT",
+                blockNumber,
+            });
+
+            const historyIds = await findV2TroveIds(client, branch, troveNFT, normalizedWallet, blockNumber);
+            const candidates = [...new Set([...troveIds.map((id) => BigInt(id)), ...historyIds])];
+
+            const [symbol, decimals] = await Promise.all([
+                client.readContract({ address: branch.collToken, abi: ERC20_ABI, functionName: "symbol" }).catch(() => branch.name),
+                client.readContract({ address: branch.collToken, abi: ERC20_ABI, functionName: "decimals" }).catch(() => 18),
+            ]);
+
+            for (const troveId of candidates) {
+                const [owner, status] = await Promise.all([
+                    // ownerOf reverts once the trove is closed and its NFT burned
+                    client.readContract({ address: troveNFT, abi: LIQUITY_V2_TROVE_NFT_ABI, functionName: "ownerOf", args: [troveId], blockNumber }).catch((error) => {
+                        if (isContractRevert(error)) return zeroAddress;
+                        throw error;
+                    }),
+                    client.readContract({ address: branch.troveManager, abi: LIQUITY_V2_TROVE_MANAGER_ABI, functionName: "getTroveStatus", args: [troveId], blockNumber }),
+                ]);
+
+                // Transferred away, closed, or a trove ID from another branch
+                if (!isAddressEqual(owner, normalizedWallet)) continue;
+                if (BigInt(status) !== TROVE_STATUS_ACTIVE && BigInt(status) !== TROVE_STATUS_ZOMBIE) continue;
+
+                const trove = await client.readContract({
+                    address: branch.troveManager,
+                    abi: LIQUITY_V2_TROVE_MANAGER_ABI,
+                    functionName: "getLatestTroveData",
+                    args: [troveId],
+                    blockNumber,
+                });
+
+                // V2 has no recovery mode: each branch liquidates below its MCR (and shuts down instead of switching thresholds)
+                const position = await buildTrovePosition(client, {
+                    id: `${walletAddress}-liquity-v2-${branch.name}-${troveId}`,
+                    protocolId: "liquity-v2",
+                    priceFeed: branch.priceFeed,
+                    collateral: { address: branch.collToken, symbol, decimals: Number(decimals) },
+                    debtToken: { address: LIQUITY_CONFIG.v2.bold, symbol: "BOLD" },
+                    coll: trove.entireColl,
+                    debt: trove.entireDebt,
+                    blockNumber,
+                    state: {
+                        version: "v2",
+                        troveId: troveId.toString(),
+                        branch: branch.name,
+                        minimumCollateralRatio: branch.mcr,
+                        criticalCollateralRatio: null,
+                        totalCollateralRatio: null,
+                        recoveryMode: false,
+                    },
+                });
+
+                console.log(`[Liquity] Found V2 ${branch.name} trove ${troveId}: ${position.collateralAmount} ${symbol} / ${position.debtAmount} BOLD, ICR=${(position.liquity!.collateralRatio * 100).toFixed(1)}%`);
+                positions.push(position);
+            }
+        }
+
+        console.log(`[Liquity] Created ${positions.length} V2 position(s)`);
+        return { positions, marketsScanned: branches.map(describeV2Branch) };
+    } catch (error) {
+        console.error("[Liquity] Error fetching V2 troves from contracts:", error);
+        throw error;
+    }
+}
+
+/**
+ * ICR over the ratio the trove is liquidated below (MCR, or the CCR in V1 recovery mode)
+ */
+function calculateTroveHealthFactor(position: Position): number {
+    if (!position.liquity) return calculateHealthFactor(position);
+    return position.liquity.collateralRatio * position.liquidationThreshold;
+}
+
+/**
+ * PriceFeed price at which the ICR reaches the liquidation ratio, next to the current PriceFeed price
+ */
+function calculateTroveLiquidationPrice(position: Position): { liqPrice: number; currentPrice: number } {
+    if (!position.liquity) return calculateLiquidationPrice(position);
+
+    const amount = parseFloat(position.collateralAmount);
+    const liqPrice = amount > 0 && position.liquidationThreshold > 0
+        ? parseFloat(position.debtAmount) / (amount * position.liquidationThreshold)
+        : 0;
+    return { liqPrice, currentPrice: position.liquity.price };
+}
+
+/**
+ * Liquity V1 adapter: one ETH trove per address
+ * Health factor = ICR / MCR (ICR / CCR while the system is in recovery mode)
+ */
+export const liquityV1Adapter: ProtocolAdapter = {
+    id: "liquity-v1",
+    name: "Liquity V1",
+    supportedChains: [mainnet.id],
+    async discoverMarkets() {
+        return [`Liquity V1 ETH (${LIQUITY_CONFIG.v1.troveManager})`];
+    },
+    async fetchPositions(walletAddress) {
+        return {
+            positions: await fetchLiquityV1Positions(walletAddress),
+            marketsScanned: await liquityV1Adapter.discoverMarkets(),
+        };
+    },
+    getHealthFactor: calculateTroveHealthFactor,
+    getLiquidationPrice: calculateTroveLiquidationPrice,
+};
+
+/**
+ * Liquity V2 adapter: troves on each configured collateral branch
+ * Health factor = ICR / branch MCR
+ */
+export const liquityV2Adapter: ProtocolAdapter = {
+    id: "liquity-v2",
+    name: "Liquity V2",
+    supportedChains: [mainnet.id],
+    async discoverMarkets() {
+        return (await getV2Branches(getClient())).map(describeV2Branch);
+    },
+    async fetchPositions(walletAddress, options) {
+        return await fetchLiquityV2Positions(walletAddress, options?.marketIds);
+    },
+    getHealthFactor: calculateTroveHealthFactor,
+    getLiquidationPrice: calculateTroveLiquidationPrice,
+};
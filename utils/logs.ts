@@ -0,0 +1,44 @@
+/**
+ * Event log utilities
+ * RPC providers cap the block range of eth_getLogs, so long ranges are fetched in chunks
+ */
+
+/**
+ * Log scanning configuration
+ */
+export const LOG_CONFIG = {
+    chunkSize: BigInt(process.env.LOG_CHUNK_SIZE || 100_000),
+    minChunkSize: 1_000n,
+} as const;
+
+/**
+ * Fetch logs over [fromBlock, toBlock] in chunks
+ * The chunk is halved and retried when the provider rejects a range (too many results or blocks)
+ */
+export async function getLogsInChunks<T>(
+    fromBlock: bigint,
+    toBlock: bigint,
+    fetchChunk: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>,
+    chunkSize: bigint = LOG_CONFIG.chunkSize
+): Promise<T[]> {
+    const logs: T[] = [];
+    let start = fromBlock;
+    let size = chunkSize;
+
+    while (start <= toBlock) {
+        const end = start + size - 1n < toBlock ? start + size - 1n : toBlock;
+
+        try {
+            logs.push(...await fetchChunk(start, end));
+            start = end + 1n;
+        } catch (error) {
+            if (size <= LOG_CONFIG.minChunkSize) {
+                throw error;
+            }
+            size = size / 2n;
+            console.log(`[Logs] Range ${start}-${end} rejected, retrying with chunks of ${size} blocks`);
+        }
+    }
+
+    return logs;
+}
@@ -0,0 +1,362 @@
+/**
+ * Maker (MCD) vault integration utilities
+ * Fetches vaults owned by a wallet or its DSProxy through the CDP Manager on Ethereum Mainnet
+ */
+
+import { createPublicClient, http, formatUnits, getAddress, hexToString, numberToHex, zeroAddress, type Address, type Hex } from "viem";
+import { mainnet } from "viem/chains";
+import type { Position } from "../types/memory.js";
+import { NETWORKS } from "./config.js";
+import { isContractRevert } from "./chains.js";
+import { createMakerSpotSource, PriceUnavailableError, resolvePrices, type PriceQuote } from "./prices.js";
+import { createUnpricedPosition, type ProtocolAdapter } from "./protocols.js";
+import { calculateHealthFactor, calculateLiquidationPrice } from "./risk.js";
+import {
+    ERC20_ABI,
+    MAKER_GET_CDPS_ABI,
+    MAKER_ILK_REGISTRY_ABI,
+    MAKER_OSM_ABI,
+    MAKER_PROXY_REGISTRY_ABI,
+    MAKER_SPOTTER_ABI,
+    MAKER_VAT_ABI,
+} from "./contracts.js";
+
+// Maker core contracts on Ethereum Mainnet (properly checksummed)
+const MAKER_CDP_MANAGER = getAddress("0x5ef30b9986345249bc32d8928B7ee64DE9435E39");
+const MAKER_GET_CDPS = getAddress("0x36a724Bd100c39f0Ea4D3A20F7097eE01A8Ff573");
+const MAKER_PROXY_REGISTRY = getAddress("0x4678f0a6958e4D2Bc4F1BAF7Bc52E8F3564f3fE4");
+const MAKER_VAT = getAddress("0x35D1b3F3D7966A1DFe207aa4514C12a259A0492B");
+const MAKER_SPOTTER = getAddress("0x65C79fcB50Ca1594B025960e539eD7A9a6D434A3");
+const MAKER_ILK_REGISTRY = getAddress("0x5a464C28D19848f44199D003BeF5ecc87d090F87");
+const DAI = getAddress("0x6B175474E89094C44Da98b954EedeAC495271d0F");
+
+// Vat units: ink/art are wads, rate is a ray, art × rate is a rad
+const WAD_DECIMALS = 18;
+const RAY_DECIMALS = 27;
+const RAD_DECIMALS = 45;
+
+// OSM storage slot of the queued price (struct Feed { uint128 val; uint128 has; } nxt)
+const OSM_NXT_SLOT = 4;
+const UINT128_MASK = (1n << 128n) - 1n;
+
+/**
+ * Create a viem public client for Ethereum mainnet
+ */
+function getClient() {
+    return createPublicClient({
+        chain: mainnet,
+        transport: http(NETWORKS.MAINNET.rpcUrl),
+        // Aggregate the per-vault reads into multicalls
+        batch: { multicall: true },
+    });
+}
+
+/**
+ * Decode a bytes32 ilk, e.g. 0x4554482d41... -> "ETH-A"
+ */
+function decodeIlk(ilk: Hex): string {
+    return hexToString(ilk, { size: 32 }).replace(/\0/g, "");
+}
+
+/**
+ * Get the collateral token of an ilk with its symbol and decimals
+ * Falls back to the ilk's prefix (e.g. "ETH" for "ETH-A") when the registry has no entry
+ */
+async function getIlkToken(
+    ilk: Hex,
+    client: ReturnType<typeof getClient>
+): Promise<{ address: Address; symbol: string; decimals: number }> {
+    const fallbackSymbol = decodeIlk(ilk).split("-")[0];
+    const gem = await client
+        .readContract({ address: MAKER_ILK_REGISTRY, abi: MAKER_ILK_REGISTRY_ABI, functionName: "gem", args: [ilk] })
+        .catch(() => zeroAddress);
+
+    if (gem === zeroAddress) {
+        return { address: gem, symbol: fallbackSymbol, decimals: WAD_DECIMALS };
+    }
+
+    const [symbol, decimals] = await Promise.all([
+        client.readContract({ address: gem, abi: ERC20_ABI, functionName: "symbol" }).catch(() => fallbackSymbol),
+        client.readContract({ address: gem, abi: ERC20_ABI, functionName: "decimals" }).catch(() => WAD_DECIMALS),
+    ]);
+    return { address: gem, symbol, decimals: Number(decimals) };
+}
+
+/**
+ * Read the OSM's queued price and when it takes effect
+ * Returns null when the ilk's pip is not an OSM (e.g. a fixed-price feed)
+ */
+async function readOsmNextPrice(
+    client: ReturnType<typeof getClient>,
+    pip: Address,
+    blockNumber: bigint
+): Promise<{ price: number; effectiveAt: number } | null> {
+    try {
+        const [hop, zzz, nxt] = await Promise.all([
+            client.readContract({ address: pip, abi: MAKER_OSM_ABI, functionName: "hop", blockNumber }),
+            client.readContract({ address: pip, abi: MAKER_OSM_ABI, functionName: "zzz", blockNumber }),
+            client.getStorageAt({ address: pip, slot: numberToHex(OSM_NXT_SLOT, { size: 32 }), blockNumber }),
+        ]);
+
+        const raw = BigInt(nxt ?? 0);
+        const has = raw >> 128n;
+        if (has === 0n) {
+            return null;
+        }
+
+        return {
+            price: Number(formatUnits(raw & UINT128_MASK, WAD_DECIMALS)),
+            effectiveAt: Number(zzz) + hop,
+        };
+    } catch (error) {
+        // Only a fixed-price pip reverts on the OSM reads
+        if (isContractRevert(error)) return null;
+        throw error;
+    }
+}
+
+/**
+ * Find the wallet's vaults in the CDP Manager, both owned directly and through its DSProxy
+ */
+async function findVaults(
+    client: ReturnType<typeof getClient>,
+    user: Address,
+    blockNumber: bigint
+): Promise<Array<{ cdpId: bigint; urn: Address; ilk: Hex; owner: Address; viaProxy: boolean }>> {
+    const proxy = await client.readContract({
+        address: MAKER_PROXY_REGISTRY,
+        abi: MAKER_PROXY_REGISTRY_ABI,
+        functionName: "proxies",
+        args: [user],
+        blockNumber,
+    });
+
+    const owners = proxy === zeroAddress ? [user] : [user, proxy];
+    const results = await Promise.all(
+        owners.map((owner) =>
+            client.readContract({
+                address: MAKER_GET_CDPS,
+                abi: MAKER_GET_CDPS_ABI,
+                functionName: "getCdpsAsc",
+                args: [MAKER_CDP_MANAGER, owner],
+                blockNumber,
+            })
+        )
+    );
+
+    return results.flatMap(([ids, urns, ilks], index) =>
+        ids.map((cdpId, i) => ({
+            cdpId,
+            urn: urns[i],
+            ilk: ilks[i],
+            owner: owners[index],
+            viaProxy: owners[index] !== user,
+        }))
+    );
+}
+
+/**
+ * Read one vault from the Vat
+ * Returns null when the vault has no debt
+ */
+async function fetchVaultPosition(
+    client: ReturnType<typeof getClient>,
+    vault: Awaited<ReturnType<typeof findVaults>>[number],
+    walletAddress: string,
+    blockNumber: bigint
+): Promise<Position | null> {
+    const [[ink, art], [, rate], [pip, mat]] = await Promise.all([
+        client.readContract({ address: MAKER_VAT, abi: MAKER_VAT_ABI, functionName: "urns", args: [vault.ilk, vault.urn], blockNumber }),
+        client.readContract({ address: MAKER_VAT, abi: MAKER_VAT_ABI, functionName: "ilks", args: [vault.ilk], blockNumber }),
+        client.readContract({ address: MAKER_SPOTTER, abi: MAKER_SPOTTER_ABI, functionName: "ilks", args: [vault.ilk], blockNumber }),
+    ]);
+
+    if (art === 0n) {
+        return null;
+    }
+
+    const ilkName = decodeIlk(vault.ilk);
+    const token = await getIlkToken(vault.ilk, client);
+
+    // Liquidatable when ink × spot < art × rate, i.e. collateral value / mat < debt
+    const liquidationRatio = Number(formatUnits(mat, RAY_DECIMALS));
+    const liquidationThreshold = liquidationRatio > 0 ? 1 / liquidationRatio : 0;
+
+    // The Vat normalises ink to 18 decimals for every collateral type
+    const collateralAmount = formatUnits(ink, WAD_DECIMALS);
+    const debtAmount = formatUnits(art * rate, RAD_DECIMALS);
+
+    // Price through the provider chain with the Vat's own price (spot × mat × par) as the protocol step;
+    // Dai debt is accounted at par there
+    const spotSource = createMakerSpotSource(client, MAKER_VAT, MAKER_SPOTTER, { [token.address.toLowerCase()]: vault.ilk }, blockNumber);
+    let collateralQuote: PriceQuote, debtQuote: PriceQuote;
+    try {
+        [collateralQuote, debtQuote] = await resolvePrices([
+            { symbol: token.symbol, address: token.address },
+            { symbol: "DAI", address: DAI },
+        ], { client, chainId: mainnet.id, blockNumber, protocol: spotSource });
+    } catch (error) {
+        if (!(error instanceof PriceUnavailableError)) throw error;
+        console.warn(`[Maker] Vault #${vault.cdpId}: ${error.message}`);
+        return createUnpricedPosition({
+            id: `${walletAddress}-maker-${vault.cdpId}`,
+            protocolId: "maker",
+            chainId: mainnet.id,
+            collateralAsset: token.symbol,
+            debtAsset: "DAI",
+            collateralAmount,
+            debtAmount,
+            liquidationThreshold,
+        }, error);
+    }
+
+    // The Vat price is what the vault is liquidated at, whichever provider valued it
+    const [vatQuote] = await spotSource.getPrices([{ symbol: token.symbol, address: token.address }]);
+    const vatPrice = vatQuote?.price ?? collateralQuote.price;
+
+    // The provider quotes value the vault in USD; the health factor is the Vat's check, Dai at par
+    const collateralValue = parseFloat(collateralAmount) * collateralQuote.price;
+    const debtValue = parseFloat(debtAmount) * debtQuote.price;
+    const healthFactor = parseFloat(debtAmount) > 0
+        ? (parseFloat(collateralAmount) * vatPrice * liquidationThreshold) / parseFloat(debtAmount)
+        : Infinity;
+
+    const next = await readOsmNextPrice(client, pip, blockNumber);
+    // Dai debt at par: the next OSM price against the Vat's own accounting
+    const nextHealthFactor = next && parseFloat(debtAmount) > 0
+        ? (parseFloat(collateralAmount) * next.price * liquidationThreshold) / parseFloat(debtAmount)
+        : null;
+
+    console.log(`[Maker] Found vault #${vault.cdpId} (${ilkName}${vault.viaProxy ? ", via DSProxy" : ""}): ${collateralAmount} ${token.symbol} / ${debtAmount} DAI, HF=${healthFactor.toFixed(4)}${nextHealthFactor !== null ? `, next HF=${nextHealthFactor.toFixed(4)}` : ""}`);
+
+    return {
+        id: `${walletAddress}-maker-${vault.cdpId}`,
+        protocolId: "maker",
+        chainId: mainnet.id,
+        collateralAsset: token.symbol,
+        debtAsset: "DAI",
+        collateralAmount,
+        debtAmount,
+        collateralValue,
+        debtValue,
+        liquidationThreshold,
+        collateralLegs: [{
+            asset: token.symbol,
+            address: token.address,
+            amount: collateralAmount,
+            decimals: token.decimals,
+            price: collateralQuote.price,
+            value: collateralValue,
+            liquidationThreshold,
+            priceSource: collateralQuote.source,
+            priceBlock: collateralQuote.blockNumber,
+        }],
+        debtLegs: [{
+            asset: "DAI",
+            address: DAI,
+            amount: debtAmount,
+            decimals: WAD_DECIMALS,
+            price: debtQuote.price,
+            value: debtValue,
+            liquidationThreshold: 0,
+            priceSource: debtQuote.source,
+            priceBlock: debtQuote.blockNumber,
+        }],
+        maker: {
+            cdpId: Number(vault.cdpId),
+            ilk: ilkName,
+            urn: vault.urn,
+            owner: vault.owner,
+            viaProxy: vault.viaProxy,
+            liquidationRatio,
+            rate: Number(formatUnits(rate, RAY_DECIMALS)),
+            currentPrice: vatPrice,
+            nextPrice: next?.price ?? null,
+            nextPriceAt: next?.effectiveAt ?? null,
+            nextHealthFactor,
+        },
+    };
+}
+
+/**
+ * Fetch the wallet's Maker vaults with debt
+ */
+export async function fetchMakerPositions(
+    walletAddress: string
+): Promise<{ positions: Position[]; marketsScanned: string[] }> {
+    const positions: Position[] = [];
+    const client = getClient();
+
+    try {
+        console.log(`[Maker] Fetching vaults for ${walletAddress}`);
+
+        // Normalize wallet address to checksummed format
+        const normalizedWallet = getAddress(walletAddress);
+
+        // Pin every read to one block so balances and prices are consistent
+        const blockNumber = await client.getBlockNumber();
+
+        const vaults = await findVaults(client, normalizedWallet, blockNumber);
+
+        // A vault that can't be read fails the whole fetch, so the stored positions are kept (fetchAllPositions)
+        for (const vault of vaults) {
+            const position = await fetchVaultPosition(client, vault, walletAddress, blockNumber);
+            if (position) {
+                positions.push(position);
+            }
+        }
+
+        console.log(`[Maker] Created ${positions.length} position(s) from ${vaults.length} vault(s)`);
+        return {
+            positions,
+            marketsScanned: vaults.map((vault) => `Vault #${vault.cdpId} (${decodeIlk(vault.ilk)})`),
+        };
+    } catch (error) {
+        console.error("[Maker] Error fetching Maker vaults from contracts:", error);
+        throw error;
+    }
+}
+
+/**
+ * The Vat's safety check at its current price, with Dai debt at par: (ink × spot) / (art × rate)
+ */
+function calculateVaultHealthFactor(position: Position): number {
+    if (!position.maker) return calculateHealthFactor(position);
+
+    const debt = parseFloat(position.debtAmount);
+    if (debt <= 0) return Infinity;
+    return (parseFloat(position.collateralAmount) * position.maker.currentPrice * position.liquidationThreshold) / debt;
+}
+
+/**
+ * Vat price at which the vault becomes unsafe, next to the Vat's current price
+ */
+function calculateVaultLiquidationPrice(position: Position): { liqPrice: number; currentPrice: number } {
+    if (!position.maker) return calculateLiquidationPrice(position);
+
+    const amount = parseFloat(position.collateralAmount);
+    const liqPrice = amount > 0 && position.liquidationThreshold > 0
+        ? parseFloat(position.debtAmount) / (amount * position.liquidationThreshold)
+        : 0;
+    return { liqPrice, currentPrice: position.maker.currentPrice };
+}
+
+/**
+ * Maker adapter: one position per vault
+ * The health factor is the Vat's safety check at the current OSM price: (ink × spot) / (art × rate);
+ * the OSM's queued price is kept in position.maker so alerts can fire one hop ahead
+ */
+export const makerAdapter: ProtocolAdapter = {
+    id: "maker",
+    name: "Maker",
+    supportedChains: [mainnet.id],
+    async discoverMarkets() {
+        // Vaults are per wallet: found through the CDP Manager for the wallet and its DSProxy
+        return [`Maker CDP Manager (${MAKER_CDP_MANAGER})`];
+    },
+    async fetchPositions(walletAddress) {
+        return await fetchMakerPositions(walletAddress);
+    },
+    getHealthFactor: calculateVaultHealthFactor,
+    getLiquidationPrice: calculateVaultLiquidationPrice,
+};
@@ -0,0 +1,120 @@
+/**
+ * Context memory defaults and schema migrations
+ * Stored memories carry the schema version they were written with and are migrated forward on load
+ */
+
+import type { PortfolioMemory, PositionMemory } from "../types/memory.js";
+
+// Bump together with a new entry in POSITION_MIGRATIONS whenever the stored PositionMemory changes shape
+export const MEMORY_SCHEMA_VERSION = 1;
+
+const DEFAULT_ALERT_THRESHOLD = 15;
+
+// A stored memory as read back, before it's known to match the current schema
+type StoredMemoryRecord = Record<string, unknown>;
+
+interface MemoryMigration {
+    version: number; // Schema version this migration produces
+    description: string;
+    migrate(memory: StoredMemoryRecord): void; // Updates the stored object in place
+}
+
+/**
+ * Applied in order to memories stored with an older version; version 1 is the first persisted schema
+ */
+const POSITION_MIGRATIONS: MemoryMigration[] = [];
+
+/**
+ * Current schema version and migrations per context type (the prefix of a context id)
+ */
+const MEMORY_SCHEMAS: Record<string, { version: number; migrations: MemoryMigration[] }> = {
+    "liquidation-monitor": { version: MEMORY_SCHEMA_VERSION, migrations: POSITION_MIGRATIONS },
+    "liquidation-portfolio": { version: 1, migrations: [] },
+};
+
+/**
+ * Thrown when stored memory was written by a newer schema than this build understands
+ */
+export class UnsupportedSchemaVersionError extends Error {
+    constructor(
+        public readonly contextType: string,
+        public readonly version: number,
+        public readonly supportedVersion: number
+    ) {
+        super(`Stored ${contextType} memory has schema version ${version}; this build supports up to ${supportedVersion}`);
+        this.name = "UnsupportedSchemaVersionError";
+    }
+}
+
+/**
+ * Fresh monitoring state, e.g. after the wallet changes
+ */
+export function createMonitoringState(alertThreshold: number = DEFAULT_ALERT_THRESHOLD): PositionMemory["monitoringState"] {
+    return {
+        healthFactors: [],
+        liquidationPrices: [],
+        alertThreshold,
+        alertThresholdHit: false,
+        lastChecked: 0,
+        alerts: [],
+        history: [],
+    };
+}
+
+/**
+ * Empty memory for a wallet that hasn't been configured yet
+ */
+export function createPositionMemory(wallet: string = ""): PositionMemory {
+    return {
+        wallet,
+        protocolIds: [],
+        positions: [],
+        monitoringState: createMonitoringState(),
+        checkedAt: 0,
+        lastUpdated: Date.now(),
+    };
+}
+
+/**
+ * Empty portfolio
+ */
+export function createPortfolioMemory(name: string = ""): PortfolioMemory {
+    return {
+        name,
+        wallets: [],
+        protocolIds: [],
+        alertThreshold: DEFAULT_ALERT_THRESHOLD,
+        createdAt: Date.now(),
+        lastUpdated: Date.now(),
+    };
+}
+
+/**
+ * Schema version new records of a context are written with
+ */
+export function getMemorySchemaVersion(contextId: string): number {
+    return MEMORY_SCHEMAS[contextId.split(":")[0]!]?.version ?? 1;
+}
+
+/**
+ * Bring a context's memory stored with an older schema version up to the current one
+ */
+export function migrateMemory<T>(contextId: string, memory: unknown, fromVersion: number): T {
+    const contextType = contextId.split(":")[0]!;
+    const schema = MEMORY_SCHEMAS[contextType] ?? { version: 1, migrations: [] };
+
+    if (fromVersion > schema.version) {
+        throw new UnsupportedSchemaVersionError(contextType, fromVersion, schema.version);
+    }
+
+    const migrated: unknown = structuredClone(memory);
+    if (typeof migrated !== "object" || migrated === null || Array.isArray(migrated)) {
+        throw new TypeError(`Stored ${contextType} memory is not an object`);
+    }
+    for (const migration of schema.migrations) {
+        if (migration.version <= fromVersion) continue;
+        console.log(`[Storage] Migrating ${contextId} to schema v${migration.version}: ${migration.description}`);
+        migration.migrate(migrated as StoredMemoryRecord);
+    }
+    return migrated as T;
+}
@@ -0,0 +1,294 @@
+/**
+ * Deterministic monitoring pipeline
+ * Shared by the monitoring actions and the watch scheduler, so a wallet can be re-checked
+ * without going through the LLM
+ */
+
+import type { AlertSeverity, Position, PositionMemory } from "../types/memory.js";
+import { isAlerting, updateAlertStates, type AlertEvent } from "./alerts.js";
+import { NETWORKS } from "./config.js";
+import { recordHealthSamples } from "./history.js";
+import { fetchAllPositions, getPositionHealthFactor, getPositionLiquidationPrice, type FailedFetch } from "./protocols.js";
+
+/**
+ * Results of one health / liquidation price / buffer / alert pass, in position order
+ */
+export interface MonitoringCheckResult {
+    healthFactors: number[];
+    liquidationPrices: number[];
+    bufferPercents: number[];
+    alertThresholdHit: boolean;
+    alertEvents: AlertEvent[];
+    threshold: number;
+}
+
+/**
+ * A priced position's buffer in the latest checks
+ */
+export interface PositionRisk {
+    positionId: string;
+    bufferPercent: number; // From the lower of the current and next health factor
+    healthFactor: number;
+    nextHealthFactor?: number; // Maker: health factor at the next OSM price
+    recoveryModeRisk?: boolean; // Liquity V1: liquidatable if recovery mode starts
+}
+
+/**
+ * A position whose alert state is warning or worse
+ */
+export interface AtRiskPosition extends PositionRisk {
+    severity: AlertSeverity;
+}
+
+/**
+ * A protocol on one chain, the smallest set of positions that can be re-fetched on its own
+ */
+export interface RefreshScope {
+    protocolId: string;
+    chainId: number;
+}
+
+/**
+ * Whether a position belongs to one of the protocol / chain scopes
+ */
+export function inScopes(position: Position, scopes: RefreshScope[]): boolean {
+    return scopes.some((scope) => scope.protocolId === position.protocolId && scope.chainId === position.chainId);
+}
+
+/**
+ * The position fields kept in memory
+ */
+function toStoredPosition(pos: Position): Position {
+    return {
+        id: pos.id,
+        protocolId: pos.protocolId,
+        chainId: pos.chainId,
+        collateralAsset: pos.collateralAsset,
+        debtAsset: pos.debtAsset,
+        collateralAmount: pos.collateralAmount,
+        debtAmount: pos.debtAmount,
+        collateralValue: pos.collateralValue,
+        debtValue: pos.debtValue,
+        liquidationThreshold: pos.liquidationThreshold,
+        collateralLegs: pos.collateralLegs,
+        debtLegs: pos.debtLegs,
+        llamma: pos.llamma,
+        comet: pos.comet,
+        maker: pos.maker,
+        liquity: pos.liquity,
+        unpriced: pos.unpriced,
+    };
+}
+
+/**
+ * Re-discover the wallet's positions and store them in memory
+ * Overrides replace the configured wallet, protocols, chains or markets for this run only.
+ * The stored positions of protocols / chains whose fetch failed are kept, so an RPC outage
+ * doesn't look like the wallet closed them
+ */
+export async function refreshPositions(
+    memory: PositionMemory,
+    overrides: {
+        wallet?: string;
+        protocolIds?: string[];
+        chainIds?: number[];
+        marketIds?: Record<string, string[]>;
+    } = {}
+): Promise<{ positions: Position[]; marketsScanned: Record<string, string[]>; failed: FailedFetch[] }> {
+    const wallet = overrides.wallet || memory.wallet;
+
+    // Fetch positions from all configured protocols on every configured chain
+    const { positions: fetchedPositions, marketsScanned, failed } = await fetchAllPositions(
+        overrides.protocolIds || memory.protocolIds,
+        wallet,
+        overrides.marketIds || memory.marketIds,
+        overrides.chainIds || memory.chainIds || [NETWORKS.MAINNET.chainId]
+    );
+
+    // Stored positions only stand in for the same wallet's
+    const kept = wallet.toLowerCase() === memory.wallet.toLowerCase()
+        ? memory.positions.filter((position) => inScopes(position, failed))
+        : [];
+
+    memory.positions = [...fetchedPositions.map(toStoredPosition), ...kept];
+    memory.lastUpdated = Date.now();
+
+    return { positions: memory.positions, marketsScanned, failed };
+}
+
+/**
+ * Re-fetch only the positions in the given protocol / chain scopes and replace them in memory
+ * Scopes whose fetch failed keep their stored positions. Returns the refreshed positions
+ */
+export async function refreshScopedPositions(memory: PositionMemory, scopes: RefreshScope[]): Promise<Position[]> {
+    const results = await Promise.all(scopes.map((scope) =>
+        fetchAllPositions([scope.protocolId], memory.wallet, memory.marketIds, [scope.chainId])
+    ));
+    const refreshed = results.flatMap((result) => result.positions.map(toStoredPosition));
+    const fetchedScopes = scopes.filter((_, index) => results[index]!.failed.length === 0);
+
+    memory.positions = [...memory.positions.filter((position) => !inScopes(position, fetchedScopes)), ...refreshed];
+    memory.lastUpdated = Date.now();
+
+    return refreshed;
+}
+
+/**
+ * Run the health factor, liquidation price, buffer and alert checks over the stored positions
+ * Updates the monitoring state in memory. History samples are only recorded for sampledPositionIds
+ * when given (e.g. the positions an event re-check refreshed)
+ */
+export function runMonitoringChecks(
+    memory: PositionMemory,
+    threshold: number = memory.monitoringState.alertThreshold,
+    sampledPositionIds?: string[]
+): MonitoringCheckResult {
+    // Step 1: Check health factors
+    const healthFactors = memory.positions.map((position) => {
+        const healthFactor = getPositionHealthFactor(position);
+
+        const hfEntry = {
+            positionId: position.id,
+            healthFactor,
+            timestamp: Date.now(),
+        };
+
+        // Update in memory
+        const existingIndex = memory.monitoringState.healthFactors.findIndex(
+            (hf) => hf.positionId === position.id
+        );
+        if (existingIndex >= 0) {
+            memory.monitoringState.healthFactors[existingIndex] = hfEntry;
+        } else {
+            memory.monitoringState.healthFactors.push(hfEntry);
+        }
+
+        return healthFactor;
+    });
+
+    // Step 2: Calculate liquidation prices
+    const liquidationPrices = memory.positions.map((position) => {
+        const { liqPrice, currentPrice } = getPositionLiquidationPrice(position);
+
+        const lpEntry = {
+            positionId: position.id,
+            liqPrice,
+            currentPrice,
+        };
+
+        // Update in memory
+        const existingIndex = memory.monitoringState.liquidationPrices.findIndex(
+            (lp) => lp.positionId === position.id
+        );
+        if (existingIndex >= 0) {
+            memory.monitoringState.liquidationPrices[existingIndex] = lpEntry;
+        } else {
+            memory.monitoringState.liquidationPrices.push(lpEntry);
+        }
+
+        return liqPrice;
+    });
+
+    // Step 3: Calculate buffer percentages
+    const bufferPercents = healthFactors.map((hf, index) => {
+        const bufferPercent = hf > 0 && !isFinite(hf)
+            ? Infinity
+            : (hf - 1.0) * 100;
+        return Math.max(0, bufferPercent);
+    });
+
+    // Step 4: Record history for trend analysis (unpriced positions have no meaningful sample)
+    const now = Date.now();
+    recordHealthSamples(memory, memory.positions.flatMap((position, index) =>
+        position.unpriced || (sampledPositionIds && !sampledPositionIds.includes(position.id)) ? [] : [{
+            positionId: position.id,
+            timestamp: now,
+            healthFactor: healthFactors[index]!,
+            bufferPercent: bufferPercents[index]!,
+            collateralPrice: memory.monitoringState.liquidationPrices.find((lp) => lp.positionId === position.id)?.currentPrice ?? 0,
+            debtValue: position.debtValue,
+        }]
+    ));
+
+    // Step 5: Update alert severities (the threshold is hit at warning or worse)
+    const { atRiskPositions, events: alertEvents } = evaluateAlerts(memory, threshold);
+    const alertThresholdHit = atRiskPositions.length > 0;
+
+    memory.monitoringState.lastChecked = Date.now();
+    memory.checkedAt = Date.now();
+    memory.lastUpdated = Date.now();
+
+    return { healthFactors, liquidationPrices, bufferPercents, alertThresholdHit, alertEvents, threshold };
+}
+
+/**
+ * Buffers of the positions with a latest health factor
+ * Unpriced positions are listed separately and never count as at risk
+ */
+export function assessPositions(memory: PositionMemory): { risks: PositionRisk[]; unpricedPositions: string[] } {
+    const risks: PositionRisk[] = [];
+    const unpricedPositions: string[] = [];
+
+    memory.monitoringState.healthFactors.forEach((hf) => {
+        const position = memory.positions.find(p => p.id === hf.positionId);
+        if (!position) return;
+
+        // An unpriced position has no meaningful buffer; report it instead of alerting on it
+        if (position.unpriced) {
+            unpricedPositions.push(position.id);
+            return;
+        }
+
+        risks.push(getPositionRisk(position, hf.healthFactor));
+    });
+
+    return { risks, unpricedPositions };
+}
+
+/**
+ * Buffer of a priced position at a given health factor
+ */
+export function getPositionRisk(position: Position, healthFactor: number): PositionRisk {
+    // Maker vaults: the OSM's queued price becomes the Vat's price after one hop, so alert on it too
+    const nextHealthFactor = position.maker?.nextHealthFactor ?? undefined;
+    const effectiveHealthFactor = nextHealthFactor !== undefined
+        ? Math.min(healthFactor, nextHealthFactor)
+        : healthFactor;
+
+    // Liquity V1 troves: safe now, but liquidatable if the system enters recovery mode (ICR < CCR)
+    const recoveryModeRisk = !!position.liquity &&
+        !position.liquity.recoveryMode &&
+        position.liquity.liquidatableInRecoveryMode;
+
+    return {
+        positionId: position.id,
+        // Calculate buffer from health factor
+        bufferPercent: (effectiveHealthFactor - 1.0) * 100,
+        healthFactor,
+        ...(nextHealthFactor !== undefined && { nextHealthFactor }),
+        ...(recoveryModeRisk && { recoveryModeRisk }),
+    };
+}
+
+/**
+ * Update each position's alert severity from its latest buffer and collect the positions at
+ * warning or worse. Returns the alert events (triggers, escalations, repeats, recoveries) to notify
+ */
+export function evaluateAlerts(
+    memory: PositionMemory,
+    threshold: number = memory.monitoringState.alertThreshold
+): { atRiskPositions: AtRiskPosition[]; unpricedPositions: string[]; events: AlertEvent[] } {
+    const { risks, unpricedPositions } = assessPositions(memory);
+    const events = updateAlertStates(memory, risks, threshold);
+
+    const alerts = memory.monitoringState.alerts || [];
+    const atRiskPositions = risks.flatMap((risk) => {
+        const state = alerts.find((alert) => alert.positionId === risk.positionId);
+        return state && isAlerting(state.severity) ? [{ ...risk, severity: state.severity }] : [];
+    });
+
+    memory.monitoringState.alertThresholdHit = atRiskPositions.length > 0;
+    memory.monitoringState.alertThreshold = threshold;
+
+    return { atRiskPositions, unpricedPositions, events };
+}
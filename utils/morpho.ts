@@ -0,0 +1,266 @@
+/**
+ * Morpho Blue protocol integration utilities
+ * Fetches isolated borrow positions from Morpho Blue on Ethereum Mainnet using direct contract calls
+ */
+
+import { createPublicClient, http, formatUnits, getAbiItem, getAddress, type Address, type Hex } from "viem";
+import { mainnet } from "viem/chains";
+import type { Position } from "../types/memory.js";
+import { NETWORKS } from "./config.js";
+import { createMorphoOracleSource, PriceUnavailableError, resolvePrices, type PriceQuote } from "./prices.js";
+import { createUnpricedPosition, type ProtocolAdapter } from "./protocols.js";
+import { calculateHealthFactor, calculateLiquidationPrice } from "./risk.js";
+import { getLogsInChunks } from "./logs.js";
+import { ERC20_ABI, MORPHO_BLUE_ABI } from "./contracts.js";
+
+// Morpho Blue singleton on Ethereum Mainnet (properly checksummed)
+const MORPHO_BLUE = getAddress("0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb");
+const MORPHO_BLUE_DEPLOYMENT_BLOCK = 18883124n;
+
+// Share accounting constants from Morpho's SharesMathLib
+const VIRTUAL_SHARES = 10n ** 6n;
+const VIRTUAL_ASSETS = 1n;
+
+// LLTV is scaled to 1e18
+const WAD_DECIMALS = 18;
+
+// Market IDs found in each wallet's event history, and the last block scanned for it
+const marketHistory = new Map<string, { marketIds: Set<Hex>; scannedToBlock: bigint }>();
+
+/**
+ * Create a viem public client for Ethereum mainnet
+ */
+function getClient() {
+    return createPublicClient({
+        chain: mainnet,
+        transport: http(NETWORKS.MAINNET.rpcUrl),
+        // Aggregate the per-market reads into multicalls
+        batch: { multicall: true },
+    });
+}
+
+/**
+ * Get token symbol and decimals from contract
+ */
+async function getTokenInfo(
+    assetAddress: Address,
+    client: ReturnType<typeof getClient>
+): Promise<{ address: Address; symbol: string; decimals: number }> {
+    const [symbol, decimals] = await Promise.all([
+        client.readContract({ address: assetAddress, abi: ERC20_ABI, functionName: "symbol" }).catch(() => "UNKNOWN"),
+        client.readContract({ address: assetAddress, abi: ERC20_ABI, functionName: "decimals" }).catch(() => 18),
+    ]);
+    return { address: assetAddress, symbol, decimals: Number(decimals) };
+}
+
+/**
+ * Borrow shares -> assets, rounding up like Morpho's toAssetsUp
+ * Interest accrued since the market's lastUpdate is not included
+ */
+function toAssetsUp(shares: bigint, totalAssets: bigint, totalShares: bigint): bigint {
+    const numerator = shares * (totalAssets + VIRTUAL_ASSETS);
+    const denominator = totalShares + VIRTUAL_SHARES;
+    return (numerator + denominator - 1n) / denominator;
+}
+
+/**
+ * Find the markets a wallet has supplied collateral to or borrowed from
+ * Scans SupplyCollateral / Borrow logs for onBehalf = wallet, incrementally per wallet
+ */
+async function findWalletMarkets(
+    client: ReturnType<typeof getClient>,
+    user: Address,
+    toBlock: bigint
+): Promise<Hex[]> {
+    const key = user.toLowerCase();
+    const history = marketHistory.get(key) ?? { marketIds: new Set<Hex>(), scannedToBlock: MORPHO_BLUE_DEPLOYMENT_BLOCK - 1n };
+
+    if (history.scannedToBlock < toBlock) {
+        const logs = await getLogsInChunks(history.scannedToBlock + 1n, toBlock, async (fromBlock, chunkEnd) => {
+            const [supplies, borrows] = await Promise.all([
+                client.getLogs({
+                    address: MORPHO_BLUE,
+                    event: getAbiItem({ abi: MORPHO_BLUE_ABI, name: "SupplyCollateral" }),
+                    args: { onBehalf: user },
+                    fromBlock,
+                    toBlock: chunkEnd,
+                }),
+                client.getLogs({
+                    address: MORPHO_BLUE,
+                    event: getAbiItem({ abi: MORPHO_BLUE_ABI, name: "Borrow" }),
+                    args: { onBehalf: user },
+                    fromBlock,
+                    toBlock: chunkEnd,
+                }),
+            ]);
+            return [...supplies, ...borrows];
+        });
+
+        for (const log of logs) {
+            if (log.args.id) history.marketIds.add(log.args.id);
+        }
+        history.scannedToBlock = toBlock;
+        marketHistory.set(key, history);
+    }
+
+    return [...history.marketIds];
+}
+
+/**
+ * Read one Morpho Blue market for the user
+ * Returns null when the account has no borrow in this market
+ */
+async function fetchMarketPosition(
+    client: ReturnType<typeof getClient>,
+    marketId: Hex,
+    walletAddress: string,
+    user: Address,
+    blockNumber: bigint
+): Promise<Position | null> {
+    const [[, borrowShares, collateral], [, , totalBorrowAssets, totalBorrowShares], [loanToken, collateralToken, oracle, , lltv]] = await Promise.all([
+        client.readContract({ address: MORPHO_BLUE, abi: MORPHO_BLUE_ABI, functionName: "position", args: [marketId, user], blockNumber }),
+        client.readContract({ address: MORPHO_BLUE, abi: MORPHO_BLUE_ABI, functionName: "market", args: [marketId], blockNumber }),
+        client.readContract({ address: MORPHO_BLUE, abi: MORPHO_BLUE_ABI, functionName: "idToMarketParams", args: [marketId], blockNumber }),
+    ]);
+
+    if (borrowShares === 0n) {
+        return null;
+    }
+
+    const [loan, collateralInfo] = await Promise.all([
+        getTokenInfo(loanToken, client),
+        getTokenInfo(collateralToken, client),
+    ]);
+
+    const borrowAssets = toAssetsUp(borrowShares, totalBorrowAssets, totalBorrowShares);
+
+    // Price through the provider chain with the market oracle as the protocol step; the oracle prices
+    // collateral in the loan token, so the loan token's USD price converts both legs
+    let collateralQuote: PriceQuote, debtQuote: PriceQuote;
+    try {
+        const [loanUsd] = await resolvePrices([{ symbol: loan.symbol, address: loan.address }], { client, chainId: mainnet.id, blockNumber });
+        [collateralQuote, debtQuote] = await resolvePrices([
+            { symbol: collateralInfo.symbol, address: collateralInfo.address },
+            { symbol: loan.symbol, address: loan.address },
+        ], {
+            client,
+            chainId: mainnet.id,
+            blockNumber,
+            protocol: createMorphoOracleSource(client, oracle, loan, collateralInfo.decimals, loanUsd.price, blockNumber),
+        });
+    } catch (error) {
+        if (!(error instanceof PriceUnavailableError)) throw error;
+        console.warn(`[Morpho] Market ${marketId}: ${error.message}`);
+        return createUnpricedPosition({
+            id: `${walletAddress}-morpho-blue-${marketId}`,
+            protocolId: "morpho-blue",
+            chainId: mainnet.id,
+            collateralAsset: collateralInfo.symbol,
+            debtAsset: loan.symbol,
+            collateralAmount: formatUnits(collateral, collateralInfo.decimals),
+            debtAmount: formatUnits(borrowAssets, loan.decimals),
+            liquidationThreshold: Number(formatUnits(lltv, WAD_DECIMALS)),
+        }, error);
+    }
+
+    const liquidationThreshold = Number(formatUnits(lltv, WAD_DECIMALS));
+    const collateralAmount = formatUnits(collateral, collateralInfo.decimals);
+    const debtAmount = formatUnits(borrowAssets, loan.decimals);
+    const collateralValue = parseFloat(collateralAmount) * collateralQuote.price;
+    const debtValue = parseFloat(debtAmount) * debtQuote.price;
+
+    console.log(`[Morpho] Found position in market ${marketId}: ${collateralAmount} ${collateralInfo.symbol} / ${debtAmount} ${loan.symbol}, LLTV=${liquidationThreshold}`);
+
+    return {
+        id: `${walletAddress}-morpho-blue-${marketId}`,
+        protocolId: "morpho-blue",
+        chainId: mainnet.id,
+        collateralAsset: collateralInfo.symbol,
+        debtAsset: loan.symbol,
+        collateralAmount,
+        debtAmount,
+        collateralValue,
+        debtValue,
+        liquidationThreshold,
+        collateralLegs: [{
+            asset: collateralInfo.symbol,
+            address: collateralInfo.address,
+            amount: collateralAmount,
+            decimals: collateralInfo.decimals,
+            price: collateralQuote.price,
+            value: collateralValue,
+            liquidationThreshold,
+            priceSource: collateralQuote.source,
+            priceBlock: collateralQuote.blockNumber,
+        }],
+        debtLegs: [{
+            asset: loan.symbol,
+            address: loan.address,
+            amount: debtAmount,
+            decimals: loan.decimals,
+            price: debtQuote.price,
+            value: debtValue,
+            liquidationThreshold: 0,
+            priceSource: debtQuote.source,
+            priceBlock: debtQuote.blockNumber,
+        }],
+    };
+}
+
+/**
+ * Fetch user positions from Morpho Blue
+ * Checks the given market IDs plus any market found in the wallet's SupplyCollateral / Borrow history
+ */
+export async function fetchMorphoPositions(
+    walletAddress: string,
+    marketIds: string[] = []
+): Promise<{ positions: Position[]; marketsScanned: string[] }> {
+    const positions: Position[] = [];
+    const client = getClient();
+
+    try {
+        console.log(`[Morpho] Fetching positions for ${walletAddress}`);
+
+        // Normalize wallet address to checksummed format
+        const normalizedWallet = getAddress(walletAddress);
+
+        // Pin every read to one block so balances and prices are consistent
+        const blockNumber = await client.getBlockNumber();
+
+        // A failed history scan or market read fails the whole fetch, so the stored positions are kept (fetchAllPositions)
+        const historyMarketIds = await findWalletMarkets(client, normalizedWallet, blockNumber);
+        const markets = [...new Set([...marketIds.map((id) => id.toLowerCase() as Hex), ...historyMarketIds])];
+
+        for (const marketId of markets) {
+            const position = await fetchMarketPosition(client, marketId, walletAddress, normalizedWallet, blockNumber);
+            if (position) {
+                positions.push(position);
+            }
+        }
+
+        console.log(`[Morpho] Created ${positions.length} position(s) from ${markets.length} market(s)`);
+        return { positions, marketsScanned: markets };
+    } catch (error) {
+        console.error("[Morpho] Error fetching Morpho positions from contracts:", error);
+        throw error;
+    }
+}
+
+/**
+ * Morpho Blue adapter: one isolated position per market, liquidatable when
+ * collateral × oracle price × LLTV < borrowed assets (the generic formula with LT = LLTV)
+ */
+export const morphoAdapter: ProtocolAdapter = {
+    id: "morpho-blue",
+    name: "Morpho Blue",
+    supportedChains: [mainnet.id],
+    async discoverMarkets() {
+        // Markets are per wallet: configured IDs plus the wallet's event history
+        return [`Morpho Blue (${MORPHO_BLUE})`];
+    },
+    async fetchPositions(walletAddress, options) {
+        return await fetchMorphoPositions(walletAddress, options?.marketIds);
+    },
+    getHealthFactor: calculateHealthFactor,
+    getLiquidationPrice: calculateLiquidationPrice,
+};
@@ -0,0 +1,358 @@
+/**
+ * Outbound alert notifications
+ * Channels register here like protocol adapters; each wallet lists its own destinations.
+ * Every channel's endpoint is configurable so it can be pointed at a local HTTP / SMTP stand-in.
+ */
+
+import type { AlertSeverity, NotificationDestination, PositionMemory } from "../types/memory.js";
+import { severityRank, type AlertEvent, type AlertEventKind } from "./alerts.js";
+import { ALERT_CONFIG, NOTIFICATION_CONFIG } from "./config.js";
+import { getNetwork } from "./chains.js";
+import { sendMail } from "./smtp.js";
+
+export type NotificationChannelId = NotificationDestination["channel"];
+
+/**
+ * One position's alert event, with the figures the message templates use
+ */
+export interface AlertPosition {
+    wallet?: string; // Set in portfolio roll-ups, which span wallets
+    event: AlertEventKind;
+    severity: AlertSeverity | null; // null once recovered
+    previousSeverity: AlertSeverity | null;
+    positionId: string;
+    protocolId: string;
+    chainId: number;
+    collateralAsset: string;
+    debtAsset: string;
+    healthFactor: number;
+    nextHealthFactor?: number;
+    bufferPercent: number;
+    liqPrice: number | null;
+    currentPrice: number | null;
+    recoveryModeRisk?: boolean;
+}
+
+/**
+ * Alert payload sent to every destination (the generic webhook receives it as JSON)
+ */
+export interface AlertNotification {
+    wallet: string;
+    portfolio?: string; // Roll-up of several wallets' alerts
+    threshold: number;
+    positions: AlertPosition[];
+    timestamp: number;
+    test: boolean; // Sent by sendTestNotification
+}
+
+/**
+ * A delivery mechanism for alerts
+ */
+export interface NotificationChannel<TChannel extends NotificationChannelId = NotificationChannelId> {
+    id: TChannel;
+    send(destination: Extract<NotificationDestination, { channel: TChannel }>, alert: AlertNotification): Promise<void>;
+}
+
+export interface NotificationResult {
+    channel: NotificationChannelId;
+    success: boolean;
+    error?: string;
+}
+
+/**
+ * Thrown when a channel can't deliver a notification
+ */
+export class NotificationError extends Error {
+    constructor(
+        public readonly channel: NotificationChannelId,
+        message: string
+    ) {
+        super(`[${channel}] ${message}`);
+        this.name = "NotificationError";
+    }
+}
+
+const channels = new Map<NotificationChannelId, NotificationChannel<any>>();
+
+/**
+ * Register a notification channel
+ */
+export function registerNotificationChannel<TChannel extends NotificationChannelId>(channel: NotificationChannel<TChannel>): void {
+    if (channels.has(channel.id)) {
+        throw new Error(`Notification channel already registered: ${channel.id}`);
+    }
+    channels.set(channel.id, channel);
+}
+
+export function getNotificationChannelIds(): NotificationChannelId[] {
+    return [...channels.keys()];
+}
+
+const formatUsd = (value: number | null) =>
+    value !== null && Number.isFinite(value)
+        ? `$${value.toLocaleString("en-US", { maximumFractionDigits: 2 })}`
+        : "n/a";
+
+const SEVERITY_LABELS: Record<AlertSeverity, string> = {
+    info: "ℹ️ INFO",
+    warning: "⚠️ WARNING",
+    critical: "🚨 CRITICAL",
+    liquidatable: "💀 LIQUIDATABLE",
+};
+
+const EVENT_LABELS: Record<AlertEventKind, string> = {
+    triggered: "new",
+    escalated: "escalated",
+    repeated: "still at risk",
+    recovered: "recovered",
+};
+
+/**
+ * Subject line for an alert: the worst severity, or a recovery notice when every position recovered
+ */
+export function renderAlertSubject(alert: AlertNotification): string {
+    const prefix = alert.test ? "[TEST] " : "";
+    const worst = alert.positions
+        .filter((position) => position.event !== "recovered")
+        .map((position) => position.severity)
+        .reduce<AlertSeverity | null>((a, b) => (severityRank(b) > severityRank(a) ? b : a), null);
+
+    const owner = alert.portfolio ? `portfolio ${alert.portfolio}` : alert.wallet;
+
+    return worst
+        ? `${prefix}${SEVERITY_LABELS[worst]} Liquidation risk: ${alert.positions.length} position(s) for ${owner}`
+        : `${prefix}✅ Recovered: ${alert.positions.length} position(s) for ${owner}`;
+}
+
+function renderPositionHeading(position: AlertPosition): string {
+    if (position.event === "recovered") {
+        return `✅ RECOVERED from ${position.previousSeverity}`;
+    }
+    const label = SEVERITY_LABELS[position.severity!];
+    return position.event === "escalated"
+        ? `${label} (escalated from ${position.previousSeverity})`
+        : `${label} (${EVENT_LABELS[position.event]})`;
+}
+
+/**
+ * Plain-text alert body: wallet, then one block per position with severity, health factor, buffer and liquidation price
+ */
+export function renderAlertMessage(alert: AlertNotification): string {
+    const header = [
+        renderAlertSubject(alert),
+        `Buffer threshold: ${alert.threshold}%`,
+    ];
+
+    const positions = alert.positions.map((position) => {
+        const chain = getNetwork(position.chainId)?.name ?? `chain ${position.chainId}`;
+        const lines = [
+            `${renderPositionHeading(position)}: ${position.protocolId} on ${chain}: ${position.collateralAsset}/${position.debtAsset} (${position.positionId})`,
+            ...(position.wallet ? [`  Wallet: ${position.wallet}`] : []),
+            `  Health factor: ${position.healthFactor.toFixed(3)}${position.nextHealthFactor !== undefined ? ` (next OSM: ${position.nextHealthFactor.toFixed(3)})` : ""}`,
+            `  Buffer: ${position.bufferPercent.toFixed(2)}%`,
+            `  Liquidation price: ${formatUsd(position.liqPrice)} (current ${formatUsd(position.currentPrice)})`,
+        ];
+        if (position.recoveryModeRisk) {
+            lines.push("  Liquidatable if Liquity enters recovery mode");
+        }
+        return lines.join("\n");
+    });
+
+    return [...header, "", ...positions, "", new Date(alert.timestamp).toISOString()].join("\n");
+}
+
+/**
+ * Alert for a set of alert events on the wallet's positions
+ */
+export function buildAlertNotification(
+    memory: PositionMemory,
+    events: AlertEvent[],
+    threshold: number = memory.monitoringState.alertThreshold
+): AlertNotification {
+    return {
+        wallet: memory.wallet,
+        threshold,
+        timestamp: Date.now(),
+        test: false,
+        positions: events.flatMap((event) => {
+            const position = memory.positions.find((pos) => pos.id === event.positionId);
+            if (!position) return [];
+            const lp = memory.monitoringState.liquidationPrices.find((entry) => entry.positionId === event.positionId);
+            return [{
+                event: event.kind,
+                severity: event.severity,
+                previousSeverity: event.previousSeverity,
+                positionId: event.positionId,
+                protocolId: position.protocolId,
+                chainId: position.chainId,
+                collateralAsset: position.collateralAsset,
+                debtAsset: position.debtAsset,
+                healthFactor: event.healthFactor,
+                nextHealthFactor: event.nextHealthFactor,
+                bufferPercent: event.bufferPercent,
+                liqPrice: lp?.liqPrice ?? null,
+                currentPrice: lp?.currentPrice ?? null,
+                recoveryModeRisk: event.recoveryModeRisk,
+            }];
+        }),
+    };
+}
+
+async function postJson(channel: NotificationChannelId, url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...headers },
+            body: JSON.stringify(body),
+            signal: AbortSignal.timeout(NOTIFICATION_CONFIG.timeoutMs),
+        });
+    } catch (error) {
+        throw new NotificationError(channel, error instanceof Error ? error.message : String(error));
+    }
+
+    if (!response.ok) {
+        const text = await response.text().catch(() => "");
+        throw new NotificationError(channel, `HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ""}`);
+    }
+}
+
+/**
+ * Generic JSON webhook: the alert payload plus the rendered message
+ */
+export const webhookChannel: NotificationChannel<"webhook"> = {
+    id: "webhook",
+    async send(destination, alert) {
+        await postJson("webhook", destination.url, { ...alert, message: renderAlertMessage(alert) }, destination.headers);
+    },
+};
+
+/**
+ * Telegram bot sendMessage (plain text, so the message needs no escaping)
+ */
+export const telegramChannel: NotificationChannel<"telegram"> = {
+    id: "telegram",
+    async send(destination, alert) {
+        const botToken = destination.botToken || NOTIFICATION_CONFIG.telegram.botToken;
+        if (!botToken) {
+            throw new NotificationError("telegram", "No bot token: set TELEGRAM_BOT_TOKEN or pass botToken");
+        }
+        await postJson("telegram", `${NOTIFICATION_CONFIG.telegram.apiUrl}/bot${botToken}/sendMessage`, {
+            chat_id: destination.chatId,
+            text: renderAlertMessage(alert),
+            disable_web_page_preview: true,
+        });
+    },
+};
+
+// Discord rejects webhook messages longer than this
+const DISCORD_MAX_LENGTH = 2000;
+
+/**
+ * Discord incoming webhook
+ */
+export const discordChannel: NotificationChannel<"discord"> = {
+    id: "discord",
+    async send(destination, alert) {
+        const message = renderAlertMessage(alert);
+        await postJson("discord", destination.webhookUrl, {
+            content: message.length > DISCORD_MAX_LENGTH ? `${message.slice(0, DISCORD_MAX_LENGTH - 1)}…` : message,
+        });
+    },
+};
+
+/**
+ * Slack incoming webhook
+ */
+export const slackChannel: NotificationChannel<"slack"> = {
+    id: "slack",
+    async send(destination, alert) {
+        await postJson("slack", destination.webhookUrl, { text: renderAlertMessage(alert) });
+    },
+};
+
+/**
+ * Email through the SMTP server in NOTIFICATION_CONFIG.smtp
+ */
+export const emailChannel: NotificationChannel<"email"> = {
+    id: "email",
+    async send(destination, alert) {
+        const { smtp } = NOTIFICATION_CONFIG;
+        if (!smtp.host) {
+            throw new NotificationError("email", "No SMTP server: set SMTP_HOST");
+        }
+        try {
+            await sendMail(
+                { ...smtp, timeoutMs: NOTIFICATION_CONFIG.timeoutMs },
+                {
+                    from: smtp.from,
+                    to: [destination.to],
+                    subject: renderAlertSubject(alert),
+                    text: renderAlertMessage(alert),
+                }
+            );
+        } catch (error) {
+            throw new NotificationError("email", error instanceof Error ? error.message : String(error));
+        }
+    },
+};
+
+registerNotificationChannel(webhookChannel);
+registerNotificationChannel(telegramChannel);
+registerNotificationChannel(discordChannel);
+registerNotificationChannel(slackChannel);
+registerNotificationChannel(emailChannel);
+
+/**
+ * Deliver an alert to every destination; one failing channel doesn't stop the others
+ */
+export async function sendNotifications(
+    destinations: NotificationDestination[],
+    alert: AlertNotification
+): Promise<NotificationResult[]> {
+    return await Promise.all(
+        destinations.map(async (destination): Promise<NotificationResult> => {
+            const channel = channels.get(destination.channel);
+            try {
+                if (!channel) {
+                    throw new NotificationError(destination.channel, "Unknown notification channel");
+                }
+                await channel.send(destination, alert);
+                return { channel: destination.channel, success: true };
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                console.error(`[Notifications] Failed to send ${destination.channel} notification for ${alert.wallet}: ${message}`);
+                return { channel: destination.channel, success: false, error: message };
+            }
+        })
+    );
+}
+
+/**
+ * Alert events at or above ALERT_CONFIG.notifyMinSeverity
+ * Recoveries count at the severity they recovered from
+ */
+export function getNotifiableEvents(events: AlertEvent[]): AlertEvent[] {
+    const minRank = severityRank(ALERT_CONFIG.notifyMinSeverity);
+    return events.filter((event) =>
+        severityRank(event.kind === "recovered" ? event.previousSeverity : event.severity) >= minRank
+    );
+}
+
+/**
+ * Send the notifiable alert events to the wallet's destinations
+ * Returns null when nothing was sent
+ */
+export async function notifyAlertEvents(
+    memory: PositionMemory,
+    events: AlertEvent[],
+    threshold: number = memory.monitoringState.alertThreshold
+): Promise<NotificationResult[] | null> {
+    const notifiable = getNotifiableEvents(events);
+
+    if (notifiable.length === 0 || !memory.notifications || memory.notifications.length === 0) {
+        return null;
+    }
+
+    return await sendNotifications(memory.notifications, buildAlertNotification(memory, notifiable, threshold));
+}
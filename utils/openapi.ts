@@ -0,0 +1,263 @@
+/**
+ * OpenAPI 3.1 description of the local HTTP API (utils/api.ts)
+ */
+
+import { API_CONFIG } from "./config.js";
+
+const severity = { type: ["string", "null"], enum: ["info", "warning", "critical", "liquidatable", null] };
+const nullableNumber = { type: ["number", "null"] };
+
+const walletParameter = {
+    name: "wallet",
+    in: "path",
+    required: true,
+    description: "Monitored wallet address",
+    schema: { type: "string", pattern: "^0x[a-fA-F0-9]{40}$" },
+};
+
+const errorResponse = (description: string) => ({
+    description,
+    content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+});
+
+const jsonResponse = (description: string, schema: Record<string, unknown>) => ({
+    description,
+    content: { "application/json": { schema } },
+});
+
+const walletErrors = {
+    "400": errorResponse("Invalid wallet address or parameters"),
+    "401": errorResponse("Missing or invalid bearer token"),
+    "404": errorResponse("Wallet is not monitored"),
+};
+
+const schemas = {
+    Error: {
+        type: "object",
+        required: ["success", "error"],
+        properties: {
+            success: { type: "boolean", const: false },
+            error: { type: "string" },
+        },
+    },
+    Wallet: {
+        type: "object",
+        properties: {
+            wallet: { type: "string" },
+            protocolIds: { type: "array", items: { type: "string" } },
+            chainIds: { type: "array", items: { type: "integer" } },
+            positionCount: { type: "integer" },
+            alertThreshold: { type: "number", description: "Buffer percentage below which positions alert" },
+            alertThresholdHit: { type: "boolean" },
+            activeAlerts: { type: "integer", description: "Positions at warning or worse" },
+            minBufferPercent: { ...nullableNumber, description: "Smallest buffer across priced positions" },
+            lastChecked: { ...nullableNumber, description: "Last check (ms since epoch)" },
+            watch: {
+                type: ["object", "null"],
+                description: "Background watch status; null when the wallet isn't watched",
+                additionalProperties: true,
+            },
+        },
+    },
+    Position: {
+        type: "object",
+        description: "Latest check of a position; metrics are null until checked and for positions without debt or a price",
+        properties: {
+            positionId: { type: "string" },
+            protocolId: { type: "string" },
+            chainId: { type: "integer" },
+            collateralAsset: { type: "string" },
+            debtAsset: { type: "string" },
+            collateralAmount: { type: "string" },
+            debtAmount: { type: "string" },
+            collateralValue: { type: "number" },
+            debtValue: { type: "number" },
+            healthFactor: nullableNumber,
+            liquidationPrice: nullableNumber,
+            currentPrice: nullableNumber,
+            bufferPercent: nullableNumber,
+            alertSeverity: severity,
+            checkedAt: nullableNumber,
+            nextHealthFactor: { type: "number", description: "Maker: health factor at the next OSM price" },
+            unpriced: { type: "boolean" },
+            unpricedSymbols: { type: "array", items: { type: "string" } },
+        },
+    },
+    AlertState: {
+        type: "object",
+        properties: {
+            positionId: { type: "string" },
+            severity,
+            since: { type: "number" },
+            lastAlertAt: { type: "number" },
+            bufferPercent: { type: "number" },
+        },
+    },
+    AlertEvent: {
+        type: "object",
+        properties: {
+            positionId: { type: "string" },
+            kind: { type: "string", enum: ["triggered", "escalated", "repeated", "recovered"] },
+            severity,
+            previousSeverity: severity,
+            bufferPercent: { type: "number" },
+            healthFactor: { type: "number" },
+        },
+    },
+    AlertLogEntry: {
+        allOf: [
+            { $ref: "#/components/schemas/AlertEvent" },
+            {
+                type: "object",
+                properties: {
+                    timestamp: { type: "number" },
+                    threshold: { type: "number" },
+                },
+            },
+        ],
+    },
+};
+
+const walletDetail = {
+    allOf: [
+        { $ref: "#/components/schemas/Wallet" },
+        {
+            type: "object",
+            properties: {
+                success: { type: "boolean" },
+                positions: { type: "array", items: { $ref: "#/components/schemas/Position" } },
+            },
+        },
+    ],
+};
+
+const alertEvents = { type: "array", items: { $ref: "#/components/schemas/AlertEvent" } };
+
+/**
+ * The OpenAPI document served at /openapi.json
+ */
+export function buildOpenApiDocument(): Record<string, unknown> {
+    return {
+        openapi: "3.1.0",
+        info: {
+            title: "Liquidation Monitor API",
+            version: "0.1.0",
+            description: "Monitoring data and controls for the wallets the agent watches. Runs the same checks as the agent's actions, without the LLM.",
+        },
+        servers: [{ url: `http://${API_CONFIG.host}:${API_CONFIG.port}` }],
+        security: [{ bearerAuth: [] }],
+        paths: {
+            "/openapi.json": {
+                get: {
+                    summary: "This document",
+                    security: [],
+                    responses: { "200": jsonResponse("OpenAPI document", { type: "object" }) },
+                },
+            },
+            "/wallets": {
+                get: {
+                    summary: "List monitored wallets",
+                    responses: {
+                        "200": jsonResponse("Monitored wallets", {
+                            type: "object",
+                            properties: {
+                                success: { type: "boolean" },
+                                wallets: { type: "array", items: { $ref: "#/components/schemas/Wallet" } },
+                            },
+                        }),
+                        "401": errorResponse("Missing or invalid bearer token"),
+                    },
+                },
+            },
+            "/wallets/{wallet}": {
+                get: {
+                    summary: "Positions with their latest health factor, liquidation price and buffer",
+                    parameters: [walletParameter],
+                    responses: {
+                        "200": jsonResponse("Wallet and positions", walletDetail),
+                        ...walletErrors,
+                    },
+                },
+            },
+            "/wallets/{wallet}/check": {
+                post: {
+                    summary: "Re-discover positions and re-run the monitoring checks now",
+                    description: "Sends notifications for any resulting alert events, like a background watch run.",
+                    parameters: [walletParameter],
+                    responses: {
+                        "200": jsonResponse("Wallet and positions after the check", {
+                            allOf: [walletDetail, { type: "object", properties: { alertEvents } }],
+                        }),
+                        ...walletErrors,
+                        "409": errorResponse("Monitoring not initialized for the wallet, or a check of it is already running"),
+                    },
+                },
+            },
+            "/wallets/{wallet}/threshold": {
+                put: {
+                    summary: "Change the wallet's alert threshold",
+                    description: "Re-tiers the latest checks against the new threshold and notifies any resulting alert events.",
+                    parameters: [walletParameter],
+                    requestBody: {
+                        required: true,
+                        content: {
+                            "application/json": {
+                                schema: {
+                                    type: "object",
+                                    required: ["alertThreshold"],
+                                    properties: {
+                                        alertThreshold: { type: "number", minimum: 0, maximum: 100, description: "Buffer percentage" },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    responses: {
+                        "200": jsonResponse("Wallet with the new threshold", {
+                            allOf: [
+                                { $ref: "#/components/schemas/Wallet" },
+                                { type: "object", properties: { success: { type: "boolean" }, alertEvents } },
+                            ],
+                        }),
+                        ...walletErrors,
+                        "413": errorResponse("Request body too large"),
+                    },
+                },
+            },
+            "/wallets/{wallet}/alerts": {
+                get: {
+                    summary: "Active alerts and alert history",
+                    parameters: [
+                        walletParameter,
+                        {
+                            name: "limit",
+                            in: "query",
+                            description: "History entries to return, most recent first",
+                            schema: { type: "integer", minimum: 1, default: 50 },
+                        },
+                    ],
+                    responses: {
+                        "200": jsonResponse("Alerts", {
+                            type: "object",
+                            properties: {
+                                success: { type: "boolean" },
+                                wallet: { type: "string" },
+                                alertThreshold: { type: "number" },
+                                alertThresholdHit: { type: "boolean" },
+                                activeAlerts: { type: "array", items: { $ref: "#/components/schemas/AlertState" } },
+                                history: { type: "array", items: { $ref: "#/components/schemas/AlertLogEntry" } },
+                            },
+                        }),
+                        ...walletErrors,
+                    },
+                },
+            },
+        },
+        components: {
+            securitySchemes: {
+                bearerAuth: { type: "http", scheme: "bearer", description: "API_TOKEN" },
+            },
+            schemas,
+        },
+    };
+}
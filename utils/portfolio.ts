@@ -0,0 +1,216 @@
+/**
+ * Portfolios: named groups of wallets monitored together
+ * Aggregates the wallets' latest checks and rolls their alerts up into one message per portfolio
+ */
+
+import type { AlertSeverity, PortfolioMemory, PositionMemory } from "../types/memory.js";
+import type { AlertEvent } from "./alerts.js";
+import { PORTFOLIO_CONFIG } from "./config.js";
+import { analyzeHealthTrend, getHealthHistory, type HealthTrend } from "./history.js";
+import { assessPositions } from "./monitoring.js";
+import { buildAlertNotification, getNotifiableEvents, sendNotifications, type AlertPosition } from "./notifications.js";
+
+export interface PortfolioWalletSummary {
+    wallet: string;
+    configured: boolean; // Has protocols to scan
+    positions: number;
+    unpricedPositions: number;
+    collateralValue: number;
+    debtValue: number;
+    minBufferPercent: number | null;
+    alertThresholdHit: boolean;
+    lastChecked: number | null;
+}
+
+export interface RankedPosition {
+    wallet: string;
+    positionId: string;
+    protocolId: string;
+    chainId: number;
+    collateralAsset: string;
+    debtAsset: string;
+    collateralValue: number;
+    debtValue: number;
+    healthFactor: number;
+    nextHealthFactor?: number;
+    bufferPercent: number;
+    severity: AlertSeverity | null;
+    trend: HealthTrend;
+}
+
+export interface PortfolioSummary {
+    name: string;
+    wallets: number;
+    positions: number;
+    unpricedPositions: number;
+    totalCollateralValue: number;
+    totalDebtValue: number;
+    weightedHealthFactor: number | null; // Debt-weighted across priced positions with debt
+    alertThresholdHit: boolean;
+    alertCounts: Record<AlertSeverity, number>;
+    riskiestPositions: RankedPosition[]; // Smallest buffer first
+    walletSummaries: PortfolioWalletSummary[];
+    oldestCheck: number | null; // Least recently checked wallet
+}
+
+/**
+ * Aggregate the latest checks of a portfolio's wallets
+ * Wallets without stored memory count as unconfigured
+ */
+export function summarizePortfolio(
+    portfolio: PortfolioMemory,
+    wallets: Array<{ wallet: string; memory: PositionMemory | null }>,
+    limit: number = PORTFOLIO_CONFIG.summaryLimit
+): PortfolioSummary {
+    const ranked: RankedPosition[] = [];
+    const alertCounts: Record<AlertSeverity, number> = { info: 0, warning: 0, critical: 0, liquidatable: 0 };
+    let weightedHealth = 0;
+    let weightedDebt = 0;
+
+    const walletSummaries = wallets.map(({ wallet, memory }): PortfolioWalletSummary => {
+        if (!memory) {
+            return {
+                wallet,
+                configured: false,
+                positions: 0,
+                unpricedPositions: 0,
+                collateralValue: 0,
+                debtValue: 0,
+                minBufferPercent: null,
+                alertThresholdHit: false,
+                lastChecked: null,
+            };
+        }
+
+        const { risks, unpricedPositions } = assessPositions(memory);
+        const alerts = memory.monitoringState.alerts || [];
+        alerts.forEach((alert) => alertCounts[alert.severity]++);
+
+        for (const risk of risks) {
+            const position = memory.positions.find((pos) => pos.id === risk.positionId)!;
+            if (position.debtValue > 0 && Number.isFinite(risk.healthFactor)) {
+                weightedHealth += risk.healthFactor * position.debtValue;
+                weightedDebt += position.debtValue;
+            }
+            if (!Number.isFinite(risk.bufferPercent)) continue;
+
+            ranked.push({
+                wallet: memory.wallet,
+                positionId: position.id,
+                protocolId: position.protocolId,
+                chainId: position.chainId,
+                collateralAsset: position.collateralAsset,
+                debtAsset: position.debtAsset,
+                collateralValue: position.collateralValue,
+                debtValue: position.debtValue,
+                healthFactor: risk.healthFactor,
+                ...(risk.nextHealthFactor !== undefined && { nextHealthFactor: risk.nextHealthFactor }),
+                bufferPercent: risk.bufferPercent,
+                severity: alerts.find((alert) => alert.positionId === position.id)?.severity ?? null,
+                trend: analyzeHealthTrend(getHealthHistory(memory, position.id), memory.monitoringState.alertThreshold).trend,
+            });
+        }
+
+        // Unpriced positions carry zero values, so they don't distort the totals
+        const buffers = risks.map((risk) => risk.bufferPercent).filter((buffer) => Number.isFinite(buffer));
+        return {
+            wallet: memory.wallet || wallet,
+            configured: memory.protocolIds.length > 0,
+            positions: memory.positions.length,
+            unpricedPositions: unpricedPositions.length,
+            collateralValue: memory.positions.reduce((sum, pos) => sum + pos.collateralValue, 0),
+            debtValue: memory.positions.reduce((sum, pos) => sum + pos.debtValue, 0),
+            minBufferPercent: buffers.length > 0 ? Math.min(...buffers) : null,
+            alertThresholdHit: memory.monitoringState.alertThresholdHit,
+            lastChecked: memory.monitoringState.lastChecked || null,
+        };
+    });
+
+    const checks = walletSummaries.map((summary) => summary.lastChecked).filter((checked): checked is number => checked !== null);
+
+    return {
+        name: portfolio.name,
+        wallets: walletSummaries.length,
+        positions: walletSummaries.reduce((sum, summary) => sum + summary.positions, 0),
+        unpricedPositions: walletSummaries.reduce((sum, summary) => sum + summary.unpricedPositions, 0),
+        totalCollateralValue: walletSummaries.reduce((sum, summary) => sum + summary.collateralValue, 0),
+        totalDebtValue: walletSummaries.reduce((sum, summary) => sum + summary.debtValue, 0),
+        weightedHealthFactor: weightedDebt > 0 ? weightedHealth / weightedDebt : null,
+        alertThresholdHit: walletSummaries.some((summary) => summary.alertThresholdHit),
+        alertCounts,
+        riskiestPositions: ranked.sort((a, b) => a.bufferPercent - b.bufferPercent).slice(0, limit),
+        walletSummaries,
+        oldestCheck: checks.length > 0 ? Math.min(...checks) : null,
+    };
+}
+
+// Loaded portfolios by lowercase name; kept current by the portfolio context's load and save
+const portfolios = new Map<string, PortfolioMemory>();
+
+interface PendingRollup {
+    positions: AlertPosition[];
+    timer: ReturnType<typeof setTimeout>;
+}
+
+const pendingRollups = new Map<string, PendingRollup>();
+
+export function registerPortfolio(portfolio: PortfolioMemory): void {
+    portfolios.set(portfolio.name.toLowerCase(), portfolio);
+}
+
+export function getPortfolio(name: string): PortfolioMemory | null {
+    return portfolios.get(name.toLowerCase()) ?? null;
+}
+
+export function getPortfolios(): PortfolioMemory[] {
+    return [...portfolios.values()];
+}
+
+async function flushRollup(key: string): Promise<void> {
+    const pending = pendingRollups.get(key);
+    pendingRollups.delete(key);
+    const portfolio = portfolios.get(key);
+    if (!pending || !portfolio?.notifications?.length) return;
+
+    await sendNotifications(portfolio.notifications, {
+        wallet: pending.positions[0]!.wallet!,
+        portfolio: portfolio.name,
+        threshold: portfolio.alertThreshold,
+        positions: pending.positions,
+        timestamp: Date.now(),
+        test: false,
+    });
+}
+
+/**
+ * Queue a wallet's notifiable alert events for every portfolio it belongs to
+ * Events arriving within PORTFOLIO_CONFIG.alertRollupSeconds of the first go out as one message
+ */
+export function queuePortfolioAlerts(memory: PositionMemory, events: AlertEvent[]): void {
+    const notifiable = getNotifiableEvents(events);
+    if (notifiable.length === 0) return;
+
+    const wallet = memory.wallet.toLowerCase();
+    const positions = buildAlertNotification(memory, notifiable).positions
+        .map((position) => ({ ...position, wallet: memory.wallet }));
+
+    for (const [key, portfolio] of portfolios) {
+        if (!portfolio.notifications?.length || !portfolio.wallets.includes(wallet)) continue;
+
+        const pending = pendingRollups.get(key);
+        if (pending) {
+            // Keep only the latest event per position
+            pending.positions = [
+                ...pending.positions.filter((queued) => !positions.some((position) => position.positionId === queued.positionId)),
+                ...positions,
+            ];
+            continue;
+        }
+
+        const timer = setTimeout(() => {
+            flushRollup(key).catch((error) => console.error(`[Portfolio] Failed to send alerts for ${portfolio.name}:`, error));
+        }, PORTFOLIO_CONFIG.alertRollupSeconds * 1000);
+        timer.unref?.();
+        pendingRollups.set(key, { positions, timer });
+    }
+}
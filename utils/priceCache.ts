@@ -0,0 +1,82 @@
+/**
+ * Shared price cache
+ * Entries live for PRICE_CONFIG.cacheTtlSeconds and concurrent lookups of the same key share one
+ * request, so wallets and protocols priced in the same cycle don't each hit the provider
+ */
+
+import { PRICE_CONFIG } from "./config.js";
+
+interface CacheEntry {
+    value: unknown;
+    expiresAt: number;
+}
+
+// Prune expired entries once the cache grows past this
+const PRUNE_SIZE = 1000;
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+function store(key: string, value: unknown, ttlMs: number): void {
+    if (entries.size >= PRUNE_SIZE) {
+        const now = Date.now();
+        for (const [cachedKey, entry] of entries) {
+            if (entry.expiresAt <= now) entries.delete(cachedKey);
+        }
+    }
+    entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+}
+
+/**
+ * Look keys up in the cache and fetch every miss in one batched call
+ * fetchMissing only receives keys that are neither cached nor already being fetched; keys it
+ * leaves out of its result are returned as undefined and not cached. Rejects if a fetch it
+ * depends on rejects.
+ */
+export async function getCachedBatch<T>(
+    keys: string[],
+    fetchMissing: (keys: string[]) => Promise<Record<string, T>>,
+    ttlMs: number = PRICE_CONFIG.cacheTtlSeconds * 1000
+): Promise<Record<string, T | undefined>> {
+    const result: Record<string, T | undefined> = {};
+    const waiting: Array<Promise<void>> = [];
+    const missing: string[] = [];
+    const now = Date.now();
+
+    for (const key of new Set(keys)) {
+        const entry = entries.get(key);
+        if (entry && entry.expiresAt > now) {
+            result[key] = entry.value as T;
+            continue;
+        }
+
+        const pending = inFlight.get(key);
+        if (pending) {
+            waiting.push(pending.then((value) => { result[key] = value as T | undefined; }));
+            continue;
+        }
+
+        missing.push(key);
+    }
+
+    if (missing.length > 0) {
+        const batch = fetchMissing(missing);
+        for (const key of missing) {
+            const promise = batch.then((values) => values[key]);
+            inFlight.set(key, promise);
+            waiting.push(promise.then((value) => { result[key] = value; }));
+        }
+
+        batch
+            .then((values) => {
+                for (const key of missing) {
+                    if (values[key] !== undefined) store(key, values[key], ttlMs);
+                }
+            })
+            .catch(() => undefined) // Surfaced to the callers through `waiting`
+            .finally(() => missing.forEach((key) => inFlight.delete(key)));
+    }
+
+    await Promise.all(waiting);
+    return result;
+}
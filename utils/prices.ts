@@ -1,8 +1,94 @@
 /**
  * Price oracle utilities for fetching token prices
  * Shared across all protocol integrations
+ *
+ * Positions are priced through an ordered chain of providers (PRICE_CONFIG.providerOrder):
+ * Chainlink aggregators, then the protocol's own oracle, then CoinGecko. A provider that fails,
+ * has no price or returns a stale one falls through to the next; if none can price a token
+ * resolvePrices throws PriceUnavailableError rather than returning 0.
  */
 
+import { formatUnits, getAddress, type Address, type Hex, type PublicClient } from "viem";
+import { NETWORKS, PRICE_CONFIG } from "./config.js";
+import { getCachedBatch } from "./priceCache.js";
+import {
+    AAVE_PRICE_ORACLE_ABI,
+    CHAINLINK_AGGREGATOR_ABI,
+    COMET_ABI,
+    CURVE_AMM_ABI,
+    LIQUITY_PRICE_FEED_ABI,
+    MAKER_SPOTTER_ABI,
+    MAKER_VAT_ABI,
+    MORPHO_ORACLE_ABI,
+} from "./contracts.js";
+
+export type PriceSourceId =
+    | "chainlink"
+    | "aave-oracle"
+    | "curve-oracle"
+    | "comet-oracle"
+    | "morpho-oracle"
+    | "maker-spot"
+    | "liquity-pricefeed"
+    | "coingecko";
+
+/**
+ * A USD price together with where and when it was read
+ */
+export interface PriceQuote {
+    symbol: string;
+    price: number;
+    source: PriceSourceId;
+    blockNumber: number | null; // null for off-chain sources
+    timestamp: number; // When the quote was read (ms)
+    updatedAt: number; // When the source last updated the price (ms)
+    stale: boolean; // updatedAt is older than the source's maximum age
+}
+
+export interface PriceRequest {
+    symbol: string;
+    address: Address;
+}
+
+/**
+ * A source that can price a batch of tokens
+ * Returns one entry per request, null where the source has no price for that token
+ */
+export interface PriceSource {
+    id: PriceSourceId;
+    getPrices(requests: PriceRequest[]): Promise<Array<PriceQuote | null>>;
+}
+
+/**
+ * Thrown when no provider in the chain can price one or more tokens
+ * Positions holding such a token are marked unpriced instead of being valued at 0
+ */
+export class PriceUnavailableError extends Error {
+    constructor(
+        public readonly symbols: string[],
+        public readonly reasons: Record<string, string[]> // Symbol -> why each provider failed
+    ) {
+        super(`No price available for ${symbols.join(", ")}: ${symbols.map((symbol) => `${symbol} (${(reasons[symbol] || []).join("; ")})`).join(", ")}`);
+        this.name = "PriceUnavailableError";
+    }
+}
+
+/**
+ * Quote for an on-chain read pinned to a block: current as of that block, so never stale
+ */
+function blockQuote(request: PriceRequest, price: number, source: PriceSourceId, blockNumber: bigint): PriceQuote {
+    const now = Date.now();
+    return {
+        symbol: request.symbol,
+        price,
+        source,
+        blockNumber: Number(blockNumber),
+        timestamp: now,
+        updatedAt: now,
+        stale: false,
+    };
+}
+
 /**
  * Map common token symbols to CoinGecko IDs
  */
@@ -17,44 +103,15 @@ export const TOKEN_MAP: Record<string, string> = {
     AAVE: "aave",
     CRV: "curve-dao-token",
     crvUSD: "crvusd",
-    "crvUSD": "crvusd",
 };
 
 /**
- * Fetch price for a token from CoinGecko
- */
-export async function getTokenPrice(tokenSymbol: string): Promise<number> {
-    try {
-        const tokenId = TOKEN_MAP[tokenSymbol] || tokenSymbol.toLowerCase();
-
-        // Using CoinGecko API (free tier)
-        const response = await fetch(
-            `https://api.coingecko.com/api/v3/simple/price?ids=${tokenId}&vs_currencies=usd`,
-            {
-                headers: {
-                    "Accept": "application/json",
-                },
-            }
-        );
-
-        if (!response.ok) {
-            console.error(`CoinGecko API error: ${response.status}`);
-            return 0;
-        }
-
-        const data = await response.json();
-        return data[tokenId]?.usd || 0;
-    } catch (error) {
-        console.error(`Error fetching price for ${tokenSymbol}:`, error);
-        return 0;
-    }
-}
-
-/**
- * Fetch prices for multiple tokens at once
+ * Fetch prices and their last update time from CoinGecko
+ * Symbols CoinGecko doesn't return are left out rather than priced at 0
  */
-export async function getTokenPrices(tokenSymbols: string[]): Promise<Record<string, number>> {
-    const prices: Record<string, number> = {};
+async function requestCoinGeckoPrices(tokenSymbols: string[]): Promise<Record<string, { price: number; updatedAt: number }>> {
+    const prices: Record<string, { price: number; updatedAt: number }> = {};
+    if (tokenSymbols.length === 0) return prices;
 
     // Batch fetch from CoinGecko
     const tokenIds = tokenSymbols.map(symbol => TOKEN_MAP[symbol] || symbol.toLowerCase());
@@ -62,7 +119,7 @@ export async function getTokenPrices(tokenSymbols: string[]): Promise<Record<str
 
     try {
         const response = await fetch(
-            `https://api.coingecko.com/api/v3/simple/price?ids=${uniqueTokenIds.join(",")}&vs_currencies=usd`,
+            `https://api.coingecko.com/api/v3/simple/price?ids=${uniqueTokenIds.join(",")}&vs_currencies=usd&include_last_updated_at=true`,
             {
                 headers: {
                     "Accept": "application/json",
@@ -79,8 +136,13 @@ export async function getTokenPrices(tokenSymbols: string[]): Promise<Record<str
 
         // Map back to original symbols
         for (const symbol of tokenSymbols) {
-            const tokenId = TOKEN_MAP[symbol] || symbol.toLowerCase();
-            prices[symbol] = data[tokenId]?.usd || 0;
+            const entry = data[TOKEN_MAP[symbol] || symbol.toLowerCase()];
+            if (entry?.usd > 0) {
+                prices[symbol] = {
+                    price: entry.usd,
+                    updatedAt: entry.last_updated_at ? entry.last_updated_at * 1000 : Date.now(),
+                };
+            }
         }
 
         return prices;
@@ -90,3 +152,451 @@ export async function getTokenPrices(tokenSymbols: string[]): Promise<Record<str
     }
 }
 
+/**
+ * CoinGecko prices through the shared cache: cached symbols are reused and the rest are
+ * fetched in a single request
+ */
+async function fetchCoinGeckoPrices(tokenSymbols: string[]): Promise<Record<string, { price: number; updatedAt: number }>> {
+    const cached = await getCachedBatch(
+        tokenSymbols.map((symbol) => `coingecko:${symbol}`),
+        async (keys) => {
+            const prices = await requestCoinGeckoPrices(keys.map((key) => key.slice("coingecko:".length)));
+            return Object.fromEntries(Object.entries(prices).map(([symbol, entry]) => [`coingecko:${symbol}`, entry]));
+        }
+    );
+
+    const prices: Record<string, { price: number; updatedAt: number }> = {};
+    for (const symbol of tokenSymbols) {
+        const entry = cached[`coingecko:${symbol}`];
+        if (entry) prices[symbol] = entry;
+    }
+    return prices;
+}
+
+/**
+ * Fetch price for a token from CoinGecko
+ * Throws PriceUnavailableError when CoinGecko has no price for it
+ */
+export async function getTokenPrice(tokenSymbol: string): Promise<number> {
+    const prices = await fetchCoinGeckoPrices([tokenSymbol]);
+    if (!prices[tokenSymbol]) {
+        throw new PriceUnavailableError([tokenSymbol], { [tokenSymbol]: ["coingecko: no price"] });
+    }
+    return prices[tokenSymbol].price;
+}
+
+/**
+ * Fetch prices for multiple tokens at once
+ * Tokens without a price are missing from the result
+ */
+export async function getTokenPrices(tokenSymbols: string[]): Promise<Record<string, number>> {
+    const prices = await fetchCoinGeckoPrices(tokenSymbols);
+    return Object.fromEntries(Object.entries(prices).map(([symbol, { price }]) => [symbol, price]));
+}
+
+/**
+ * Chainlink USD aggregators per chain, by token symbol
+ * heartbeat is the feed's maximum update interval in seconds; L2 heartbeats are conservative
+ */
+export const CHAINLINK_USD_FEEDS: Record<number, Record<string, { feed: Address; heartbeat: number }>> = {
+    [NETWORKS.MAINNET.chainId]: {
+        ETH: { feed: getAddress("0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419"), heartbeat: 3600 },
+        WETH: { feed: getAddress("0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419"), heartbeat: 3600 },
+        // WBTC is priced at BTC/USD (no WBTC/USD feed)
+        WBTC: { feed: getAddress("0xF4030086522a5bEEa4988F8cA5B36dbC97BeE88c"), heartbeat: 3600 },
+        USDC: { feed: getAddress("0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6"), heartbeat: 86400 },
+        USDT: { feed: getAddress("0x3E7d1eAB13ad0104d2750B8863b489D65364e32D"), heartbeat: 86400 },
+        DAI: { feed: getAddress("0xAed0c38402a5d19df6E4c03F4E2DceD6e29c1ee9"), heartbeat: 3600 },
+        LINK: { feed: getAddress("0x2c1d072e956AFFC0D435Cb7AC38EF18d24d9127c"), heartbeat: 3600 },
+        AAVE: { feed: getAddress("0x547a514d5e3769680Ce22B2361c10Ea13619e8a9"), heartbeat: 3600 },
+        CRV: { feed: getAddress("0xCd627aA160A6fA45Eb793D19Ef54f5062F20f33f"), heartbeat: 86400 },
+        stETH: { feed: getAddress("0xCfE54B5cD566aB89272946F602D76Ea879CAb4a8"), heartbeat: 3600 },
+    },
+    [NETWORKS.ARBITRUM.chainId]: {
+        ETH: { feed: getAddress("0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612"), heartbeat: 86400 },
+        WETH: { feed: getAddress("0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612"), heartbeat: 86400 },
+        USDC: { feed: getAddress("0x50834F3163758fcC1Df9973b6e91f0F0F0434aD3"), heartbeat: 86400 },
+    },
+    [NETWORKS.OPTIMISM.chainId]: {
+        ETH: { feed: getAddress("0x13e3Ee699D1909E989722E753853AE30b17e08c5"), heartbeat: 86400 },
+        WETH: { feed: getAddress("0x13e3Ee699D1909E989722E753853AE30b17e08c5"), heartbeat: 86400 },
+    },
+    [NETWORKS.BASE.chainId]: {
+        ETH: { feed: getAddress("0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70"), heartbeat: 86400 },
+        WETH: { feed: getAddress("0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70"), heartbeat: 86400 },
+    },
+    [NETWORKS.POLYGON.chainId]: {
+        ETH: { feed: getAddress("0xF9680D99D6C9589e2a93a78A04A279e509205945"), heartbeat: 86400 },
+        WETH: { feed: getAddress("0xF9680D99D6C9589e2a93a78A04A279e509205945"), heartbeat: 86400 },
+        WMATIC: { feed: getAddress("0xAB594600376Ec9fD91F8e885dADF0CE036862dE0"), heartbeat: 86400 },
+    },
+};
+
+/**
+ * Chainlink source: reads latestRoundData from the USD aggregator for each symbol on the chain
+ * A round older than the feed's heartbeat (plus PRICE_CONFIG.chainlinkGraceSeconds) is stale
+ */
+export function createChainlinkSource(
+    client: PublicClient,
+    chainId: number,
+    blockNumber?: bigint
+): PriceSource {
+    const feeds = CHAINLINK_USD_FEEDS[chainId] || {};
+
+    return {
+        id: "chainlink",
+        async getPrices(requests) {
+            // Rounds are cached per block, so positions read at the same block share one read per feed
+            const blockKey = blockNumber !== undefined ? blockNumber.toString() : "latest";
+            const keyOf = (symbol: string) => `chainlink:${chainId}:${symbol}:${blockKey}`;
+            const priced = requests.filter((request) => feeds[request.symbol]);
+
+            const rounds = await getCachedBatch(priced.map((request) => keyOf(request.symbol)), async (keys) => {
+                const missing = priced.filter((request, index, all) =>
+                    keys.includes(keyOf(request.symbol)) && all.findIndex((other) => other.symbol === request.symbol) === index
+                );
+                const results = await Promise.all(
+                    missing.map(async (request) => {
+                        const { feed } = feeds[request.symbol];
+                        const [[, answer, , updatedAt], decimals] = await Promise.all([
+                            client.readContract({ address: feed, abi: CHAINLINK_AGGREGATOR_ABI, functionName: "latestRoundData", blockNumber }),
+                            client.readContract({ address: feed, abi: CHAINLINK_AGGREGATOR_ABI, functionName: "decimals", blockNumber }),
+                        ]);
+                        return [keyOf(request.symbol), answer > 0n
+                            ? { price: Number(formatUnits(answer, decimals)), updatedAt: Number(updatedAt) * 1000 }
+                            : undefined] as const;
+                    })
+                );
+                return Object.fromEntries(results.filter(([, round]) => round !== undefined)) as Record<string, { price: number; updatedAt: number }>;
+            });
+
+            const now = Date.now();
+            return requests.map((request) => {
+                const round = feeds[request.symbol] ? rounds[keyOf(request.symbol)] : undefined;
+                if (!round) return null;
+                return {
+                    symbol: request.symbol,
+                    price: round.price,
+                    source: "chainlink" as const,
+                    blockNumber: blockNumber !== undefined ? Number(blockNumber) : null,
+                    timestamp: now,
+                    updatedAt: round.updatedAt,
+                    stale: now - round.updatedAt > (feeds[request.symbol].heartbeat + PRICE_CONFIG.chainlinkGraceSeconds) * 1000,
+                };
+            });
+        },
+    };
+}
+
+/**
+ * Aave V3 oracle source: prices assets in the pool's base currency (USD, 8 decimals on Ethereum)
+ * All reads are pinned to one block so a position is valued consistently
+ */
+export function createAaveOracleSource(
+    client: PublicClient,
+    oracleAddress: Address,
+    blockNumber: bigint
+): PriceSource {
+    return {
+        id: "aave-oracle",
+        async getPrices(requests) {
+            if (requests.length === 0) return [];
+
+            const [baseUnit, rawPrices] = await Promise.all([
+                client.readContract({
+                    address: oracleAddress,
+                    abi: AAVE_PRICE_ORACLE_ABI,
+                    functionName: "BASE_CURRENCY_UNIT",
+                    blockNumber,
+                }),
+                client.readContract({
+                    address: oracleAddress,
+                    abi: AAVE_PRICE_ORACLE_ABI,
+                    functionName: "getAssetsPrices",
+                    args: [requests.map((request) => request.address)],
+                    blockNumber,
+                }),
+            ]);
+
+            const baseDecimals = baseUnit.toString().length - 1;
+            return requests.map((request, index) => blockQuote(request, Number(formatUnits(rawPrices[index], baseDecimals)), "aave-oracle", blockNumber));
+        },
+    };
+}
+
+/**
+ * Curve LLAMMA oracle source for one market
+ * The AMM's price_oracle() is the collateral price in the borrowed token, which is the unit
+ * the controller measures health in; borrowedTokenUsd (1 for crvUSD) converts it to USD.
+ */
+export function createCurveOracleSource(
+    client: PublicClient,
+    ammAddress: Address,
+    borrowedToken: Address,
+    borrowedTokenUsd: number,
+    blockNumber: bigint
+): PriceSource {
+    return {
+        id: "curve-oracle",
+        async getPrices(requests) {
+            if (requests.length === 0) return [];
+
+            const oraclePrice = await client.readContract({
+                address: ammAddress,
+                abi: CURVE_AMM_ABI,
+                functionName: "price_oracle",
+                blockNumber,
+            });
+
+            return requests.map((request) => blockQuote(
+                request,
+                request.address.toLowerCase() === borrowedToken.toLowerCase()
+                    ? borrowedTokenUsd
+                    : Number(formatUnits(oraclePrice, 18)) * borrowedTokenUsd,
+                "curve-oracle",
+                blockNumber
+            ));
+        },
+    };
+}
+
+/**
+ * Compound V3 (Comet) source: prices each asset through the feed configured in the Comet market
+ * Feeds are 8-decimal prices in the market's numeraire (USD, or ETH for the WETH market);
+ * numeraireUsd converts them to USD.
+ */
+export function createCometOracleSource(
+    client: PublicClient,
+    cometAddress: Address,
+    priceFeeds: Record<string, Address>, // Lowercased asset address -> Comet price feed
+    numeraireUsd: number,
+    blockNumber: bigint
+): PriceSource {
+    return {
+        id: "comet-oracle",
+        async getPrices(requests) {
+            const rawPrices = await Promise.all(
+                requests.map((request) =>
+                    client.readContract({
+                        address: cometAddress,
+                        abi: COMET_ABI,
+                        functionName: "getPrice",
+                        args: [priceFeeds[request.address.toLowerCase()]],
+                        blockNumber,
+                    })
+                )
+            );
+
+            return requests.map((request, index) => blockQuote(request, Number(formatUnits(rawPrices[index], 8)) * numeraireUsd, "comet-oracle", blockNumber));
+        },
+    };
+}
+
+/**
+ * Morpho Blue market oracle source
+ * The oracle prices 1 collateral unit in loan units scaled by 1e36; loanTokenUsd converts to USD
+ * and the loan token itself is priced at loanTokenUsd.
+ */
+export function createMorphoOracleSource(
+    client: PublicClient,
+    oracleAddress: Address,
+    loanToken: { address: Address; decimals: number },
+    collateralDecimals: number,
+    loanTokenUsd: number,
+    blockNumber: bigint
+): PriceSource {
+    return {
+        id: "morpho-oracle",
+        async getPrices(requests) {
+            if (requests.length === 0) return [];
+
+            const rawPrice = await client.readContract({
+                address: oracleAddress,
+                abi: MORPHO_ORACLE_ABI,
+                functionName: "price",
+                blockNumber,
+            });
+            // Human-readable loan tokens per collateral token
+            const collateralInLoan = Number(formatUnits(rawPrice, 36 + loanToken.decimals - collateralDecimals));
+
+            return requests.map((request) => blockQuote(
+                request,
+                request.address.toLowerCase() === loanToken.address.toLowerCase()
+                    ? loanTokenUsd
+                    : collateralInLoan * loanTokenUsd,
+                "morpho-oracle",
+                blockNumber
+            ));
+        },
+    };
+}
+
+/**
+ * Maker Vat / Spotter source
+ * The Vat stores spot = price / (par × mat) per collateral type, so the price it liquidates at is
+ * spot × mat × par. Requests are mapped to their ilk; Dai is priced at 1 (the Vat accounts debt at par).
+ */
+export function createMakerSpotSource(
+    client: PublicClient,
+    vatAddress: Address,
+    spotterAddress: Address,
+    ilks: Record<string, Hex>, // Lowercased collateral address -> ilk
+    blockNumber: bigint
+): PriceSource {
+    return {
+        id: "maker-spot",
+        async getPrices(requests) {
+            const par = await client.readContract({ address: spotterAddress, abi: MAKER_SPOTTER_ABI, functionName: "par", blockNumber });
+
+            const prices = await Promise.all(
+                requests.map(async (request) => {
+                    const ilk = ilks[request.address.toLowerCase()];
+                    if (!ilk) return 1;
+
+                    const [[, , spot], [, mat]] = await Promise.all([
+                        client.readContract({ address: vatAddress, abi: MAKER_VAT_ABI, functionName: "ilks", args: [ilk], blockNumber }),
+                        client.readContract({ address: spotterAddress, abi: MAKER_SPOTTER_ABI, functionName: "ilks", args: [ilk], blockNumber }),
+                    ]);
+                    return Number(formatUnits(spot, 27)) * Number(formatUnits(mat, 27)) * Number(formatUnits(par, 27));
+                })
+            );
+
+            return requests.map((request, index) => blockQuote(request, prices[index], "maker-spot", blockNumber));
+        },
+    };
+}
+
+/**
+ * Liquity PriceFeed source
+ * lastGoodPrice is the collateral price the system last used (18 decimals, USD);
+ * the stablecoin debt token is priced at 1, as the protocol does when computing collateral ratios.
+ */
+export function createLiquityPriceFeedSource(
+    client: PublicClient,
+    priceFeedAddress: Address,
+    collateralAddress: Address,
+    blockNumber: bigint
+): PriceSource {
+    return {
+        id: "liquity-pricefeed",
+        async getPrices(requests) {
+            const lastGoodPrice = await client.readContract({
+                address: priceFeedAddress,
+                abi: LIQUITY_PRICE_FEED_ABI,
+                functionName: "lastGoodPrice",
+                blockNumber,
+            });
+            const collateralPrice = Number(formatUnits(lastGoodPrice, 18));
+
+            return requests.map((request) => blockQuote(request, request.address.toLowerCase() === collateralAddress.toLowerCase() ? collateralPrice : 1, "liquity-pricefeed", blockNumber));
+        },
+    };
+}
+
+/**
+ * CoinGecko source (off-chain, no block)
+ * A price CoinGecko hasn't refreshed within PRICE_CONFIG.maxPriceAgeSeconds is stale
+ */
+export const coingeckoSource: PriceSource = {
+    id: "coingecko",
+    async getPrices(requests) {
+        const prices = await fetchCoinGeckoPrices([...new Set(requests.map((request) => request.symbol))]);
+        const now = Date.now();
+        return requests.map((request) => {
+            const entry = prices[request.symbol];
+            if (!entry) return null;
+            return {
+                symbol: request.symbol,
+                price: entry.price,
+                source: "coingecko" as const,
+                blockNumber: null,
+                timestamp: now,
+                updatedAt: entry.updatedAt,
+                stale: now - entry.updatedAt > PRICE_CONFIG.maxPriceAgeSeconds * 1000,
+            };
+        });
+    },
+};
+
+export interface ResolvePricesOptions {
+    client: PublicClient;
+    chainId: number;
+    blockNumber?: bigint;
+    protocol?: PriceSource; // The protocol's own oracle, used for the "protocol" step
+}
+
+/**
+ * Price requests through the provider chain in PRICE_CONFIG.providerOrder
+ * Each request takes the first fresh, positive quote; returns quotes in request order
+ * Throws PriceUnavailableError naming every token no provider could price
+ */
+export async function resolvePrices(requests: PriceRequest[], options: ResolvePricesOptions): Promise<PriceQuote[]> {
+    const providers: Record<string, PriceSource | undefined> = {
+        chainlink: createChainlinkSource(options.client, options.chainId, options.blockNumber),
+        protocol: options.protocol,
+        coingecko: coingeckoSource,
+    };
+
+    const resolved: Array<PriceQuote | null> = requests.map(() => null);
+    const reasons: Record<string, string[]> = {};
+
+    for (const providerId of PRICE_CONFIG.providerOrder) {
+        const provider = providers[providerId];
+        const pending = requests.map((_, index) => index).filter((index) => !resolved[index]);
+        if (!provider || pending.length === 0) continue;
+
+        let quotes: Array<PriceQuote | null>;
+        try {
+            quotes = await provider.getPrices(pending.map((index) => requests[index]));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            for (const index of pending) {
+                (reasons[requests[index].symbol] ||= []).push(`${provider.id}: ${message}`);
+            }
+            continue;
+        }
+
+        pending.forEach((index, i) => {
+            const quote = quotes[i];
+            const symbol = requests[index].symbol;
+            if (!quote || !Number.isFinite(quote.price) || quote.price <= 0) {
+                (reasons[symbol] ||= []).push(`${provider.id}: no price`);
+            } else if (quote.stale) {
+                (reasons[symbol] ||= []).push(`${provider.id}: stale since ${new Date(quote.updatedAt).toISOString()}`);
+            } else {
+                resolved[index] = quote;
+            }
+        });
+    }
+
+    const missing = [...new Set(requests.filter((_, index) => !resolved[index]).map((request) => request.symbol))];
+    if (missing.length > 0) {
+        throw new PriceUnavailableError(missing, reasons);
+    }
+
+    return resolved as PriceQuote[];
+}
+
+/**
+ * Fetch CoinGecko reference prices for quotes when cross-checking is enabled
+ * Returns an empty map when disabled; logs quotes that deviate from the reference
+ */
+export async function getReferencePrices(quotes: Array<{ symbol: string; price: number; source: string }>): Promise<Record<string, number>> {
+    if (!PRICE_CONFIG.coingeckoCrossCheck || quotes.length === 0) {
+        return {};
+    }
+
+    const references = await getTokenPrices([...new Set(quotes.map((quote) => quote.symbol))]);
+
+    for (const quote of quotes) {
+        const reference = references[quote.symbol];
+        if (!reference || !quote.price) continue;
+
+        const deviation = Math.abs(quote.price - reference) / reference;
+        if (deviation > PRICE_CONFIG.crossCheckDeviation) {
+            console.warn(`[Prices] ${quote.symbol} ${quote.source} price ${quote.price} deviates ${(deviation * 100).toFixed(2)}% from CoinGecko ${reference}`);
+        }
+    }
+
+    return references;
+}
@@ -1,23 +1,128 @@
 /**
  * Unified protocol integration interface
- * Routes to appropriate protocol fetchers
+ * Protocol adapters register here and positions are routed to them by protocol ID
  */
 
-import type { PositionMemory } from "../types/memory.js";
-import { fetchAavePositions } from "./aave.js";
-import { fetchCurvePositions } from "./curve.js";
-import type { ProtocolId } from "./config.js";
+import type { Position } from "../types/memory.js";
+import { NETWORKS } from "./config.js";
+import { getNetwork } from "./chains.js";
+import { getReferencePrices, type PriceUnavailableError } from "./prices.js";
+import { calculateHealthFactor, calculateLiquidationPrice } from "./risk.js";
 
-export interface ProtocolPosition {
-    id: string;
-    protocolId: string;
-    collateralAsset: string;
-    debtAsset: string;
-    collateralAmount: string;
-    debtAmount: string;
-    collateralValue: number;
-    debtValue: number;
-    liquidationThreshold: number;
+export type ProtocolId = string;
+
+/**
+ * Positions found on a protocol and the markets that were checked
+ */
+export interface ProtocolFetchResult {
+    positions: Position[];
+    marketsScanned: string[];
+}
+
+/**
+ * Options passed to an adapter's position fetch
+ */
+export interface ProtocolFetchOptions {
+    // Markets to check instead of (or in addition to) the adapter's own discovery
+    marketIds?: string[];
+    // Chain to read from (one of the adapter's supportedChains); mainnet when omitted
+    chainId?: number;
+}
+
+/**
+ * A lending protocol integration
+ */
+export interface ProtocolAdapter {
+    id: ProtocolId;
+    name: string;
+    supportedChains: number[];
+    // Markets / pools the adapter checks for positions on a chain (mainnet when omitted)
+    discoverMarkets(chainId?: number): Promise<string[]>;
+    fetchPositions(walletAddress: string, options?: ProtocolFetchOptions): Promise<ProtocolFetchResult>;
+    // Health factor in the protocol's own semantics (liquidatable below 1.0)
+    getHealthFactor(position: Position): number;
+    getLiquidationPrice(position: Position): { liqPrice: number; currentPrice: number };
+}
+
+/**
+ * Thrown when protocol IDs don't match any registered adapter
+ */
+export class UnsupportedProtocolError extends Error {
+    constructor(
+        public readonly protocolIds: string[],
+        public readonly supportedProtocolIds: string[]
+    ) {
+        super(`Unsupported protocol(s): ${protocolIds.join(", ")}. Supported protocols: ${supportedProtocolIds.join(", ")}`);
+        this.name = "UnsupportedProtocolError";
+    }
+}
+
+const adapters = new Map<ProtocolId, ProtocolAdapter>();
+
+/**
+ * Register a protocol adapter
+ */
+export function registerProtocolAdapter(adapter: ProtocolAdapter): void {
+    if (adapters.has(adapter.id)) {
+        throw new Error(`Protocol adapter already registered: ${adapter.id}`);
+    }
+    adapters.set(adapter.id, adapter);
+}
+
+export function getProtocolAdapter(protocolId: ProtocolId): ProtocolAdapter | undefined {
+    return adapters.get(protocolId);
+}
+
+export function getSupportedProtocolIds(): ProtocolId[] {
+    return [...adapters.keys()];
+}
+
+/**
+ * Throw UnsupportedProtocolError if any ID has no registered adapter
+ */
+export function validateProtocolIds(protocolIds: string[]): ProtocolId[] {
+    const unsupported = protocolIds.filter((id) => !adapters.has(id));
+    if (unsupported.length > 0) {
+        throw new UnsupportedProtocolError(unsupported, getSupportedProtocolIds());
+    }
+    return protocolIds;
+}
+
+/**
+ * Position whose tokens couldn't be priced
+ * Values are zeroed and the position is flagged so it is reported as unpriced, not as at risk
+ */
+export function createUnpricedPosition(
+    position: Omit<Position, "collateralValue" | "debtValue" | "unpriced">,
+    error: PriceUnavailableError
+): Position {
+    return {
+        ...position,
+        collateralValue: 0,
+        debtValue: 0,
+        unpriced: { symbols: error.symbols, reason: error.message },
+    };
+}
+
+/**
+ * Health factor for a position, using its protocol's adapter
+ * Falls back to the generic formula for manually added positions on unknown protocols
+ * NaN for unpriced positions
+ */
+export function getPositionHealthFactor(position: Position): number {
+    if (position.unpriced) return NaN;
+    const adapter = adapters.get(position.protocolId);
+    return adapter ? adapter.getHealthFactor(position) : calculateHealthFactor(position);
+}
+
+/**
+ * Liquidation price for a position, using its protocol's adapter
+ * NaN for unpriced positions
+ */
+export function getPositionLiquidationPrice(position: Position): { liqPrice: number; currentPrice: number } {
+    if (position.unpriced) return { liqPrice: NaN, currentPrice: NaN };
+    const adapter = adapters.get(position.protocolId);
+    return adapter ? adapter.getLiquidationPrice(position) : calculateLiquidationPrice(position);
 }
 
 /**
@@ -25,47 +130,82 @@ export interface ProtocolPosition {
  */
 export async function fetchPositionsFromProtocol(
     protocolId: ProtocolId,
-    walletAddress: string
-): Promise<ProtocolPosition[]> {
-    switch (protocolId) {
-        case "aave-v3":
-            return await fetchAavePositions(walletAddress);
-
-        case "curve":
-            return await fetchCurvePositions(walletAddress);
-
-        default:
-            console.warn(`Unknown protocol: ${protocolId}`);
-            return [];
+    walletAddress: string,
+    options?: ProtocolFetchOptions
+): Promise<ProtocolFetchResult> {
+    const adapter = adapters.get(protocolId);
+    if (!adapter) {
+        throw new UnsupportedProtocolError([protocolId], getSupportedProtocolIds());
     }
+    return await adapter.fetchPositions(walletAddress, options);
 }
 
 /**
- * Fetch positions from multiple protocols
+ * A (protocol, chain) pair whose fetch failed; its positions are unknown, not absent
+ */
+export interface FailedFetch {
+    protocolId: string;
+    chainId: number;
+    error: string;
+}
+
+/**
+ * Fetch positions from multiple protocols across chains
+ * Every (protocol, chain) pair the adapter supports is fetched in parallel; markets are
+ * reported per protocol, prefixed with the network name. Prices go through the shared cache,
+ * and the CoinGecko cross-check runs once for every leg of the cycle. Pairs that fail are
+ * returned in failed rather than as an empty result.
  */
 export async function fetchAllPositions(
     protocolIds: ProtocolId[],
-    walletAddress: string
-): Promise<ProtocolPosition[]> {
-    const allPositions: ProtocolPosition[] = [];
-
-    // Fetch from all protocols in parallel
-    const fetchPromises = protocolIds.map(protocolId =>
-        fetchPositionsFromProtocol(protocolId, walletAddress)
-            .then(positions => positions)
+    walletAddress: string,
+    marketIds: Record<string, string[]> = {},
+    chainIds: number[] = [NETWORKS.MAINNET.chainId]
+): Promise<{ positions: Position[]; marketsScanned: Record<string, string[]>; failed: FailedFetch[] }> {
+    validateProtocolIds(protocolIds);
+
+    const allPositions: Position[] = [];
+    const marketsScanned: Record<string, string[]> = {};
+    const failed: FailedFetch[] = [];
+
+    const targets = protocolIds.flatMap(protocolId =>
+        chainIds
+            .filter(chainId => adapters.get(protocolId)!.supportedChains.includes(chainId))
+            .map(chainId => ({ protocolId, chainId }))
+    );
+
+    // Fetch from all protocols and chains in parallel
+    const fetchPromises = targets.map(({ protocolId, chainId }) =>
+        fetchPositionsFromProtocol(protocolId, walletAddress, { marketIds: marketIds[protocolId], chainId })
+            .then(result => result)
             .catch(error => {
-                console.error(`Error fetching from ${protocolId}:`, error);
-                return [];
+                console.error(`Error fetching from ${protocolId} on chain ${chainId}:`, error);
+                failed.push({ protocolId, chainId, error: error instanceof Error ? error.message : String(error) });
+                return { positions: [], marketsScanned: [] };
             })
     );
 
     const results = await Promise.all(fetchPromises);
 
     // Flatten results
-    for (const positions of results) {
-        allPositions.push(...positions);
-    }
+    protocolIds.forEach(protocolId => {
+        marketsScanned[protocolId] = [];
+    });
+    results.forEach((result, index) => {
+        const { protocolId, chainId } = targets[index];
+        const networkName = getNetwork(chainId)?.name ?? `Chain ${chainId}`;
+        allPositions.push(...result.positions);
+        marketsScanned[protocolId].push(...result.marketsScanned.map(market => `${networkName}: ${market}`));
+    });
 
-    return allPositions;
-}
+    // One batched reference lookup for all the symbols the adapters priced
+    const legs = allPositions.flatMap(position => [...(position.collateralLegs || []), ...(position.debtLegs || [])]);
+    const referencePrices = await getReferencePrices(
+        legs.map(leg => ({ symbol: leg.asset, price: leg.price, source: leg.priceSource }))
+    );
+    legs.forEach(leg => {
+        leg.referencePrice = referencePrices[leg.asset];
+    });
 
+    return { positions: allPositions, marketsScanned, failed };
+}
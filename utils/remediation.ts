@@ -0,0 +1,175 @@
+/**
+ * Remediation planning
+ * Works out how much collateral to add or debt to repay to bring a position back to a target
+ * health factor, using each collateral asset's own liquidation threshold
+ */
+
+import type { Position, PositionLeg } from "../types/memory.js";
+import { getPositionRisk } from "./monitoring.js";
+import { getPositionHealthFactor } from "./protocols.js";
+
+export type RemediationStepKind = "add-collateral" | "repay-debt";
+
+export interface RemediationStep {
+    kind: RemediationStepKind;
+    asset: string;
+    address: string; // Token contract ("" for manually added positions)
+    decimals: number;
+    amount: number; // Token units, rounded up
+    valueUsd: number;
+}
+
+export interface RemediationOption {
+    kind: RemediationStepKind | "mixed";
+    steps: RemediationStep[];
+    capitalUsd: number; // Total value of the steps; options are ranked by this
+    resultingHealthFactor: number;
+}
+
+export interface RemediationPlan {
+    positionId: string;
+    healthFactor: number; // Effective: the lower of the current and next health factor
+    targetHealthFactor: number;
+    alreadyAtTarget: boolean;
+    options: RemediationOption[]; // Cheapest first
+    notes: string[]; // Options that were left out and why
+}
+
+// Liquity troves can't be repaid below the minimum debt (V1: 1,800 LUSD net + 200 LUSD gas compensation)
+const LIQUITY_MIN_DEBT = 2000;
+
+/**
+ * An asset a position can add or repay
+ */
+interface RemediationAsset {
+    asset: string;
+    address: string;
+    price: number;
+    liquidationThreshold: number;
+    decimals: number;
+    maxValueUsd: number; // Debt only: the most that can be repaid in this asset
+}
+
+const roundUp = (value: number, decimals: number) => {
+    const factor = 10 ** Math.min(decimals, 8);
+    return Math.ceil(value * factor - 1e-9) / factor;
+};
+
+function toStep(kind: RemediationStepKind, asset: RemediationAsset, valueUsd: number): RemediationStep {
+    const amount = asset.price > 0 ? roundUp(valueUsd / asset.price, asset.decimals) : 0;
+    return { kind, asset: asset.asset, address: asset.address, decimals: asset.decimals, amount, valueUsd: amount * asset.price };
+}
+
+function collateralAssets(position: Position): RemediationAsset[] {
+    if (position.collateralLegs?.length) {
+        return position.collateralLegs
+            .filter((leg) => leg.liquidationThreshold > 0 && leg.price > 0)
+            .map((leg) => ({ asset: leg.asset, address: leg.address, price: leg.price, liquidationThreshold: leg.liquidationThreshold, maxValueUsd: Infinity, decimals: leg.decimals }));
+    }
+    const amount = parseFloat(position.collateralAmount);
+    return amount > 0 && position.liquidationThreshold > 0
+        ? [{ asset: position.collateralAsset, address: "", price: position.collateralValue / amount, liquidationThreshold: position.liquidationThreshold, maxValueUsd: Infinity, decimals: 18 }]
+        : [];
+}
+
+function debtAssets(position: Position): RemediationAsset[] {
+    const minDebtUsd = position.liquity ? LIQUITY_MIN_DEBT * (position.debtValue / parseFloat(position.debtAmount)) : 0;
+    const repayable = (leg: Pick<PositionLeg, "value">) => Math.max(0, leg.value - minDebtUsd);
+
+    if (position.debtLegs?.length) {
+        return position.debtLegs
+            .filter((leg) => leg.price > 0)
+            .map((leg) => ({ asset: leg.asset, address: leg.address, price: leg.price, liquidationThreshold: 0, maxValueUsd: repayable(leg), decimals: leg.decimals }));
+    }
+    const amount = parseFloat(position.debtAmount);
+    return amount > 0
+        ? [{ asset: position.debtAsset, address: "", price: position.debtValue / amount, liquidationThreshold: 0, maxValueUsd: repayable({ value: position.debtValue }), decimals: 18 }]
+        : [];
+}
+
+/**
+ * Plan the collateral top-ups, repayments and mixed options that bring a position to the target
+ * health factor. The protocol's own health factor is kept as the starting point, so its
+ * adjustments (Maker's next OSM price, Compound's liquidatable flag, LLAMMA health) carry over
+ */
+export function planRemediation(position: Position, targetHealthFactor: number): RemediationPlan {
+    const healthFactor = getPositionHealthFactor(position);
+    const risk = getPositionRisk(position, healthFactor);
+    const effective = 1 + risk.bufferPercent / 100;
+    const notes: string[] = [];
+
+    const plan = (options: RemediationOption[]): RemediationPlan => ({
+        positionId: position.id,
+        healthFactor: effective,
+        targetHealthFactor,
+        alreadyAtTarget: effective >= targetHealthFactor,
+        options: options.sort((a, b) => a.capitalUsd - b.capitalUsd),
+        notes,
+    });
+
+    const debt = position.debtValue;
+    if (debt <= 0 || effective >= targetHealthFactor) {
+        return plan([]);
+    }
+
+    // Weighted collateral implied by the protocol's health factor; new collateral counts at the
+    // same discount (e.g. Maker's lower next price)
+    const weighted = effective * debt;
+    const collateralDiscount = Number.isFinite(healthFactor) && healthFactor > 0 ? Math.min(1, effective / healthFactor) : 1;
+    const shortfall = targetHealthFactor * debt - weighted;
+
+    const resulting = (addedWeighted: number, repaid: number) => (weighted + addedWeighted) / (debt - repaid);
+    const options: RemediationOption[] = [];
+
+    const collateral = collateralAssets(position);
+    const debts = debtAssets(position);
+
+    // Add collateral: (W + X × LT) / D = T
+    for (const asset of collateral) {
+        const weight = asset.liquidationThreshold * collateralDiscount;
+        const step = toStep("add-collateral", asset, shortfall / weight);
+        options.push({ kind: "add-collateral", steps: [step], capitalUsd: step.valueUsd, resultingHealthFactor: resulting(step.valueUsd * weight, 0) });
+    }
+
+    // Repay debt: W / (D - R) = T
+    const repayNeeded = debt - weighted / targetHealthFactor;
+    for (const asset of debts) {
+        if (repayNeeded > asset.maxValueUsd) {
+            notes.push(position.liquity
+                ? `Repaying ${asset.asset} alone can't reach the target without going below Liquity's ${LIQUITY_MIN_DEBT} minimum debt`
+                : `Repaying ${asset.asset} alone can't reach the target: only $${asset.maxValueUsd.toFixed(2)} is owed in it`);
+            continue;
+        }
+        const step = toStep("repay-debt", asset, repayNeeded);
+        options.push({ kind: "repay-debt", steps: [step], capitalUsd: step.valueUsd, resultingHealthFactor: resulting(0, step.valueUsd) });
+    }
+
+    // Mixed: equal USD into the collateral with the highest threshold and the largest debt, or as
+    // much repayment as the debt allows with the rest as collateral. (W + LT × C/2) / (D - C/2) = T
+    const bestCollateral = collateral.reduce<RemediationAsset | undefined>((a, b) => (!a || b.liquidationThreshold > a.liquidationThreshold ? b : a), undefined);
+    const largestDebt = debts.reduce<RemediationAsset | undefined>((a, b) => (!a || b.maxValueUsd > a.maxValueUsd ? b : a), undefined);
+    if (bestCollateral && largestDebt && largestDebt.maxValueUsd > 0) {
+        const weight = bestCollateral.liquidationThreshold * collateralDiscount;
+        const half = shortfall / (weight + targetHealthFactor);
+        const repay = Math.min(half, largestDebt.maxValueUsd);
+        const topUp = (targetHealthFactor * (debt - repay) - weighted) / weight;
+
+        const repayStep = toStep("repay-debt", largestDebt, repay);
+        const topUpStep = toStep("add-collateral", bestCollateral, topUp);
+        options.push({
+            kind: "mixed",
+            steps: [repayStep, topUpStep],
+            capitalUsd: repayStep.valueUsd + topUpStep.valueUsd,
+            resultingHealthFactor: resulting(topUpStep.valueUsd * weight, repayStep.valueUsd),
+        });
+    }
+
+    if (collateral.length === 0) {
+        notes.push("No collateral asset with a liquidation threshold to top up");
+    }
+    if (position.llamma) {
+        notes.push("Curve LLAMMA health also depends on the position's bands; amounts are estimates from the current health");
+    }
+
+    return plan(options);
+}
@@ -0,0 +1,75 @@
+/**
+ * Generic position risk math, used by protocol adapters without a native health model
+ * Works on the consolidated position fields, or on the per-asset legs when a protocol provides them
+ */
+
+import type { Position, PositionLeg } from "../types/memory.js";
+
+/**
+ * Collateral leg whose price movement matters most (largest USD value)
+ */
+export function getPrimaryCollateralLeg(position: Position): PositionLeg | undefined {
+    const legs = position.collateralLegs || [];
+    return legs.reduce<PositionLeg | undefined>(
+        (largest, leg) => (!largest || leg.value > largest.value ? leg : largest),
+        undefined
+    );
+}
+
+/**
+ * Health Factor = Σ(Collateral Value × Liquidation Threshold) / Total Debt Value
+ */
+export function calculateHealthFactor(position: Position): number {
+    if (position.debtValue <= 0) {
+        return Infinity; // No debt = infinite health
+    }
+
+    if (position.collateralLegs && position.collateralLegs.length > 0) {
+        const weightedCollateral = position.collateralLegs.reduce(
+            (sum, leg) => sum + leg.value * leg.liquidationThreshold,
+            0
+        );
+        return weightedCollateral / position.debtValue;
+    }
+
+    return (position.collateralValue * position.liquidationThreshold) / position.debtValue;
+}
+
+/**
+ * Liquidation price of the (primary) collateral asset, all other prices held constant
+ *
+ * Single collateral: liqPrice = debtValue / (collateralAmount × liquidationThreshold)
+ * With legs: solve Σ(other collateral × LT) + amount × P × LT = other debt + same-asset debt × P
+ */
+export function calculateLiquidationPrice(position: Position): { liqPrice: number; currentPrice: number } {
+    const primary = getPrimaryCollateralLeg(position);
+
+    if (!primary) {
+        const collateralAmount = parseFloat(position.collateralAmount);
+        const currentPrice = collateralAmount > 0
+            ? position.collateralValue / collateralAmount
+            : 0;
+        const liqPrice = collateralAmount > 0 && position.liquidationThreshold > 0
+            ? position.debtValue / (collateralAmount * position.liquidationThreshold)
+            : 0;
+        return { liqPrice, currentPrice };
+    }
+
+    const amount = parseFloat(primary.amount);
+    const otherCollateral = (position.collateralLegs || [])
+        .filter((leg) => leg !== primary)
+        .reduce((sum, leg) => sum + leg.value * leg.liquidationThreshold, 0);
+
+    // Debt denominated in the same asset moves with its price (e.g. borrowing WETH against WETH)
+    const sameAssetDebt = (position.debtLegs || [])
+        .filter((leg) => leg.address.toLowerCase() === primary.address.toLowerCase())
+        .reduce((sum, leg) => sum + parseFloat(leg.amount), 0);
+    const otherDebt = position.debtValue - sameAssetDebt * primary.price;
+
+    const denominator = amount * primary.liquidationThreshold - sameAssetDebt;
+    const liqPrice = denominator > 0
+        ? Math.max(0, (otherDebt - otherCollateral) / denominator)
+        : 0;
+
+    return { liqPrice, currentPrice: primary.price };
+}
@@ -0,0 +1,336 @@
+/**
+ * Price shock scenarios
+ * Reprices stored positions under per-asset shocks and re-runs the health factor, liquidation
+ * price and buffer math used by monitorPositions, without touching the monitoring state
+ */
+
+import type { AlertSeverity, Position } from "../types/memory.js";
+import { getAlertSeverity, isAlerting } from "./alerts.js";
+import { getPositionRisk } from "./monitoring.js";
+import { getPositionHealthFactor, getPositionLiquidationPrice } from "./protocols.js";
+import { getPrimaryCollateralLeg } from "./risk.js";
+
+/**
+ * A price change for one asset, an asset family (e.g. "ETH" also moves WETH and stETH) or a group
+ */
+export interface PriceShock {
+    asset: string;
+    changePercent: number; // -30 = price falls 30%
+}
+
+/**
+ * A position's risk at one set of prices
+ */
+export interface ScenarioPositionState {
+    healthFactor: number;
+    nextHealthFactor?: number;
+    bufferPercent: number;
+    liqPrice: number;
+    currentPrice: number;
+    collateralValue: number;
+    debtValue: number;
+    severity: AlertSeverity | null;
+    breachesThreshold: boolean; // Warning or worse
+    liquidatable: boolean;
+}
+
+/**
+ * The scenario scaled down (or up) to the point where a position first fails
+ */
+export interface ShockLevel {
+    scale: number; // 1 = the scenario as given
+    shocks: PriceShock[];
+}
+
+export interface ScenarioPositionResult {
+    positionId: string;
+    protocolId: string;
+    chainId: number;
+    collateralAsset: string;
+    debtAsset: string;
+    approximate: boolean; // Protocol state that can't be repriced offline was replaced by the generic formula
+    current: ScenarioPositionState;
+    shocked: ScenarioPositionState;
+    firstBreach: ShockLevel | null; // null: doesn't breach the threshold within ±100% prices
+    firstLiquidation: ShockLevel | null;
+}
+
+// Tokens that track another asset's price: shocking the underlying moves them too
+const UNDERLYING_ASSETS: Record<string, string> = {
+    WETH: "ETH",
+    STETH: "ETH",
+    WSTETH: "STETH",
+    RETH: "ETH",
+    CBETH: "ETH",
+    WEETH: "ETH",
+    EZETH: "ETH",
+    OSETH: "ETH",
+    WBTC: "BTC",
+    CBBTC: "BTC",
+    TBTC: "BTC",
+};
+
+const ASSET_GROUPS: Record<string, string[]> = {
+    STABLES: ["USDC", "USDT", "DAI", "USDS", "LUSD", "BOLD", "CRVUSD", "GHO", "FRAX", "USDE", "PYUSD", "SDAI", "SUSDE"],
+    LSTS: ["STETH", "WSTETH", "RETH", "CBETH", "WEETH", "EZETH", "OSETH"],
+};
+
+/**
+ * Named scenarios, in the same text form simulateScenario accepts
+ */
+export const SCENARIO_PRESETS: Record<string, string> = {
+    "eth-crash": "ETH -40%",
+    "btc-crash": "BTC -40%",
+    "lst-depeg": "LSTs depeg 5%",
+    "stables-depeg": "stables depeg 3%",
+    "black-thursday": "ETH -43%, BTC -40%",
+    "steth-crisis": "ETH -30%, stETH depeg 5%",
+};
+
+/**
+ * Thrown when a scenario can't be parsed
+ */
+export class InvalidScenarioError extends Error {
+    constructor(public readonly scenario: string, reason: string) {
+        super(`Invalid scenario "${scenario}": ${reason}. Use e.g. "ETH -30%, stETH depeg 5%" or a preset: ${Object.keys(SCENARIO_PRESETS).join(", ")}`);
+        this.name = "InvalidScenarioError";
+    }
+}
+
+const NEGATIVE_WORDS = /^(depegs?|drops?|falls?|down|crash(es)?)$/i;
+const POSITIVE_WORDS = /^(rises?|up|pumps?)$/i;
+
+/**
+ * Parse a preset name or text like "ETH -40%", "stETH depeg 5%" or "stables depeg 3% and BTC -20%"
+ */
+export function parseScenario(scenario: string): PriceShock[] {
+    const text = SCENARIO_PRESETS[scenario.trim().toLowerCase()] ?? scenario;
+
+    const shocks = text.split(/,|;|\band\b/i).map((part) => part.trim()).filter(Boolean).map((part) => {
+        const match = part.match(/^(.+?)\s+(?:(\w+)\s+)?([+-]?\d+(?:\.\d+)?)\s*%$/);
+        if (!match) {
+            throw new InvalidScenarioError(scenario, `can't read "${part}"`);
+        }
+
+        const [, asset, word, value] = match;
+        let changePercent = Number(value);
+        if (word && NEGATIVE_WORDS.test(word)) {
+            changePercent = -Math.abs(changePercent);
+        } else if (word && POSITIVE_WORDS.test(word)) {
+            changePercent = Math.abs(changePercent);
+        } else if (word) {
+            throw new InvalidScenarioError(scenario, `unknown word "${word}" in "${part}"`);
+        }
+
+        return { asset: asset!.trim(), changePercent };
+    });
+
+    if (shocks.length === 0) {
+        throw new InvalidScenarioError(scenario, "no shocks given");
+    }
+    return shocks;
+}
+
+const normalizeAsset = (asset: string) => {
+    const symbol = asset.toUpperCase();
+    return symbol === "LST" ? "LSTS" : symbol === "STABLECOINS" || symbol === "STABLE" ? "STABLES" : symbol;
+};
+
+/**
+ * The token and the assets it tracks, upper-cased, e.g. wstETH → [WSTETH, STETH, ETH]
+ */
+export function getTrackedAssets(symbol: string): string[] {
+    const tracked = [normalizeAsset(symbol)];
+    while (UNDERLYING_ASSETS[tracked[tracked.length - 1]!]) {
+        tracked.push(UNDERLYING_ASSETS[tracked[tracked.length - 1]!]!);
+    }
+    return tracked;
+}
+
+/**
+ * Price multiplier for a token under a set of shocks
+ * Shocks on the token itself, the assets it tracks and any group it belongs to compound,
+ * so "ETH -30%, stETH depeg 5%" moves stETH by 0.7 × 0.95
+ */
+export function getShockMultiplier(symbol: string, shocks: PriceShock[]): number {
+    const token = normalizeAsset(symbol);
+    const tracked = getTrackedAssets(symbol);
+
+    return shocks.reduce((multiplier, shock) => {
+        const target = normalizeAsset(shock.asset);
+        const applies = tracked.includes(target) || ASSET_GROUPS[target]?.includes(token);
+        return applies ? multiplier * Math.max(0, 1 + shock.changePercent / 100) : multiplier;
+    }, 1);
+}
+
+/**
+ * Whether a shock moves any of the positions' tokens
+ */
+export function shockMatchesPositions(shock: PriceShock, positions: Position[]): boolean {
+    return positions.some((position) => {
+        const symbols = [
+            position.collateralAsset,
+            position.debtAsset,
+            ...(position.collateralLegs || []).map((leg) => leg.asset),
+            ...(position.debtLegs || []).map((leg) => leg.asset),
+        ];
+        return symbols.some((symbol) => getShockMultiplier(symbol, [shock]) !== 1);
+    });
+}
+
+/**
+ * Whether a position's protocol state can only be approximated under shocked prices
+ * Curve LLAMMA health depends on band conversions read from the controller
+ */
+function isApproximate(position: Position): boolean {
+    return !!position.llamma;
+}
+
+/**
+ * Copy of a position with its prices moved by the shocks
+ * Maker and Liquity value their own stablecoin debt at par, so only their collateral moves
+ */
+export function applyPriceShocks(position: Position, shocks: PriceShock[]): Position {
+    const shocked = structuredClone(position);
+    const debtAtPar = !!position.maker || !!position.liquity;
+
+    const reprice = (legs: Position["collateralLegs"], atPar: boolean): number =>
+        (legs || []).reduce((change, leg) => {
+            const multiplier = atPar ? 1 : getShockMultiplier(leg.asset, shocks);
+            const value = leg.value * multiplier;
+            const delta = value - leg.value;
+            leg.price *= multiplier;
+            leg.value = value;
+            return change + delta;
+        }, 0);
+
+    if (shocked.collateralLegs?.length) {
+        shocked.collateralValue += reprice(shocked.collateralLegs, false);
+    } else {
+        shocked.collateralValue *= getShockMultiplier(position.collateralAsset, shocks);
+    }
+    if (shocked.debtLegs?.length) {
+        shocked.debtValue += reprice(shocked.debtLegs, debtAtPar);
+    } else if (!debtAtPar) {
+        shocked.debtValue *= getShockMultiplier(position.debtAsset, shocks);
+    }
+
+    const collateralMultiplier = getShockMultiplier(getPrimaryCollateralLeg(position)?.asset ?? position.collateralAsset, shocks);
+
+    if (shocked.maker) {
+        shocked.maker.currentPrice *= collateralMultiplier;
+        if (shocked.maker.nextPrice !== null) shocked.maker.nextPrice *= collateralMultiplier;
+        if (shocked.maker.nextHealthFactor !== null) shocked.maker.nextHealthFactor *= collateralMultiplier;
+    }
+
+    if (shocked.liquity) {
+        const liquity = shocked.liquity;
+        liquity.collateralRatio *= collateralMultiplier;
+        liquity.price *= collateralMultiplier;
+        // V1 has a single ETH branch, so the whole system's collateral moves with the trove's
+        if (liquity.totalCollateralRatio !== null) {
+            liquity.totalCollateralRatio *= collateralMultiplier;
+            liquity.recoveryMode = liquity.criticalCollateralRatio !== null &&
+                liquity.totalCollateralRatio < liquity.criticalCollateralRatio;
+        }
+        liquity.liquidatableInRecoveryMode = liquity.criticalCollateralRatio !== null &&
+            liquity.collateralRatio < liquity.criticalCollateralRatio;
+    }
+
+    if (isApproximate(shocked)) {
+        delete shocked.llamma;
+    }
+
+    return shocked;
+}
+
+/**
+ * Health factor, liquidation price, buffer and severity of a position, as monitorPositions computes them
+ */
+export function evaluatePosition(position: Position, threshold: number): ScenarioPositionState {
+    const healthFactor = getPositionHealthFactor(position);
+    const { liqPrice, currentPrice } = getPositionLiquidationPrice(position);
+    const risk = getPositionRisk(position, healthFactor);
+    const severity = getAlertSeverity(risk, threshold);
+
+    // In Liquity V1 recovery mode any trove below the CCR can be liquidated
+    const liquity = position.liquity;
+    const liquidatableInRecovery = !!liquity?.recoveryMode && liquity.liquidatableInRecoveryMode;
+
+    return {
+        healthFactor,
+        ...(risk.nextHealthFactor !== undefined && { nextHealthFactor: risk.nextHealthFactor }),
+        bufferPercent: risk.bufferPercent,
+        liqPrice,
+        currentPrice,
+        collateralValue: position.collateralValue,
+        debtValue: position.debtValue,
+        severity,
+        breachesThreshold: isAlerting(severity),
+        liquidatable: risk.bufferPercent < 0 || liquidatableInRecovery,
+    };
+}
+
+const scaleShocks = (shocks: PriceShock[], scale: number): PriceShock[] =>
+    shocks.map((shock) => ({ asset: shock.asset, changePercent: Number((shock.changePercent * scale).toFixed(2)) }));
+
+/**
+ * Smallest fraction of the scenario at which a position fails
+ * Steps the largest shock one percentage point at a time, up to a 100% move, then narrows the step
+ */
+function findFirstFailure(
+    position: Position,
+    shocks: PriceShock[],
+    threshold: number,
+    fails: (state: ScenarioPositionState) => boolean
+): ShockLevel | null {
+    const largest = Math.max(...shocks.map((shock) => Math.abs(shock.changePercent)));
+    if (largest === 0) return null;
+
+    const failsAt = (scale: number) => fails(evaluatePosition(applyPriceShocks(position, scaleShocks(shocks, scale)), threshold));
+    if (failsAt(0)) {
+        return { scale: 0, shocks: scaleShocks(shocks, 0) };
+    }
+
+    const step = 1 / largest;
+    for (let low = 0; low < 100 * step; low += step) {
+        let high = Math.min(low + step, 100 * step);
+        if (!failsAt(high)) continue;
+
+        let safe = low;
+        for (let i = 0; i < 8; i++) {
+            const mid = (safe + high) / 2;
+            if (failsAt(mid)) high = mid;
+            else safe = mid;
+        }
+        return { scale: Number(high.toFixed(4)), shocks: scaleShocks(shocks, high) };
+    }
+    return null;
+}
+
+/**
+ * Run a scenario over priced positions
+ */
+export function simulatePositions(
+    positions: Position[],
+    shocks: PriceShock[],
+    threshold: number
+): ScenarioPositionResult[] {
+    return positions.map((position) => {
+        const current = evaluatePosition(position, threshold);
+        const shocked = evaluatePosition(applyPriceShocks(position, shocks), threshold);
+
+        return {
+            positionId: position.id,
+            protocolId: position.protocolId,
+            chainId: position.chainId,
+            collateralAsset: position.collateralAsset,
+            debtAsset: position.debtAsset,
+            approximate: isApproximate(position),
+            current,
+            shocked,
+            firstBreach: findFirstFailure(position, shocks, threshold, (state) => state.breachesThreshold),
+            firstLiquidation: findFirstFailure(position, shocks, threshold, (state) => state.liquidatable),
+        };
+    });
+}
@@ -0,0 +1,213 @@
+/**
+ * Minimal SMTP client for alert emails
+ * Implicit TLS, STARTTLS and AUTH LOGIN are enough for a mail relay or a local SMTP stand-in
+ */
+
+import net from "node:net";
+import tls from "node:tls";
+
+export interface SmtpOptions {
+    host: string;
+    port: number;
+    secure: boolean; // Implicit TLS
+    startTls: boolean; // Upgrade a plain connection when the server offers STARTTLS
+    user?: string;
+    pass?: string;
+    timeoutMs: number;
+}
+
+export interface SmtpMessage {
+    from: string;
+    to: string[];
+    subject: string;
+    text: string;
+}
+
+/**
+ * Thrown when the server rejects a command or the connection fails
+ */
+export class SmtpError extends Error {
+    constructor(
+        message: string,
+        public readonly code: number | null = null
+    ) {
+        super(message);
+        this.name = "SmtpError";
+    }
+}
+
+interface SmtpReply {
+    code: number;
+    lines: string[];
+}
+
+/**
+ * Reads multi-line SMTP replies from a socket; re-attached after a STARTTLS upgrade
+ */
+class SmtpReader {
+    private buffer = "";
+    private lines: string[] = [];
+    private replies: SmtpReply[] = [];
+    private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+    private error: Error | null = null;
+    private socket: net.Socket | null = null;
+
+    private readonly onData = (chunk: Buffer) => {
+        this.buffer += chunk.toString("utf8");
+        let index: number;
+        while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+            const line = this.buffer.slice(0, index);
+            this.buffer = this.buffer.slice(index + 2);
+            this.lines.push(line.slice(4));
+            // "250-..." continues a reply, "250 ..." ends it
+            if (line.length < 4 || line[3] === " ") {
+                this.replies.push({ code: Number(line.slice(0, 3)), lines: this.lines });
+                this.lines = [];
+            }
+        }
+        this.flush();
+    };
+
+    private readonly onError = (error: Error) => {
+        this.error = error instanceof SmtpError ? error : new SmtpError(error.message);
+        this.flush();
+    };
+
+    private readonly onClose = () => this.onError(new SmtpError("Connection closed"));
+
+    attach(socket: net.Socket): void {
+        this.detach();
+        this.socket = socket;
+        socket.on("data", this.onData);
+        socket.on("error", this.onError);
+        socket.on("close", this.onClose);
+    }
+
+    detach(): void {
+        this.socket?.off("data", this.onData);
+        this.socket?.off("error", this.onError);
+        this.socket?.off("close", this.onClose);
+        this.socket = null;
+    }
+
+    read(): Promise<SmtpReply> {
+        return new Promise((resolve, reject) => {
+            this.waiting = { resolve, reject };
+            this.flush();
+        });
+    }
+
+    private flush(): void {
+        if (!this.waiting) return;
+        const waiting = this.waiting;
+        if (this.replies.length > 0) {
+            this.waiting = null;
+            waiting.resolve(this.replies.shift()!);
+        } else if (this.error) {
+            this.waiting = null;
+            waiting.reject(this.error);
+        }
+    }
+}
+
+function encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/**
+ * Build an RFC 5322 message; the body is base64 so it needs no dot-stuffing
+ */
+function buildMessage(message: SmtpMessage): string {
+    const body = Buffer.from(message.text, "utf8").toString("base64").replace(/.{1,76}/g, "$&\r\n");
+    return [
+        `From: ${message.from}`,
+        `To: ${message.to.join(", ")}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        "MIME-Version: 1.0",
+        "Content-Type: text/plain; charset=utf-8",
+        "Content-Transfer-Encoding: base64",
+        "",
+        body,
+    ].join("\r\n");
+}
+
+/**
+ * Resolve once the socket is connected (or the TLS handshake is done), failing after timeoutMs
+ */
+function establish<T extends net.Socket>(socket: T, event: "connect" | "secureConnect", timeoutMs: number, phase: string): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const onTimeout = () => socket.destroy(new SmtpError(`SMTP ${phase} timeout after ${timeoutMs}ms`));
+        socket.setTimeout(timeoutMs);
+        socket.once("timeout", onTimeout);
+        socket.once("error", reject);
+        socket.once(event, () => {
+            socket.off("timeout", onTimeout);
+            resolve(socket);
+        });
+    });
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+    return options.secure
+        ? establish(tls.connect({ host: options.host, port: options.port, servername: options.host }), "secureConnect", options.timeoutMs, "connect")
+        : establish(net.connect({ host: options.host, port: options.port }), "connect", options.timeoutMs, "connect");
+}
+
+function upgrade(socket: net.Socket, options: SmtpOptions): Promise<tls.TLSSocket> {
+    return establish(tls.connect({ socket, servername: options.host }), "secureConnect", options.timeoutMs, "STARTTLS handshake");
+}
+
+/**
+ * Send one message
+ */
+export async function sendMail(options: SmtpOptions, message: SmtpMessage): Promise<void> {
+    let socket: net.Socket = await connect(options);
+    const reader = new SmtpReader();
+
+    const arm = (current: net.Socket) => {
+        current.setTimeout(options.timeoutMs, () => current.destroy(new SmtpError(`SMTP timeout after ${options.timeoutMs}ms`)));
+        reader.attach(current);
+    };
+
+    // label names the command in errors, so credentials are never echoed
+    const expect = async (expected: number[], command?: string, label = command?.split(" ")[0]): Promise<SmtpReply> => {
+        if (command !== undefined) socket.write(`${command}\r\n`);
+        const reply = await reader.read();
+        if (!expected.includes(reply.code)) {
+            throw new SmtpError(`SMTP ${reply.code}${label ? ` after ${label}` : ""}: ${reply.lines.join(" ")}`, reply.code);
+        }
+        return reply;
+    };
+
+    arm(socket);
+    try {
+        await expect([220]);
+        let ehlo = await expect([250], "EHLO localhost");
+
+        if (!options.secure && options.startTls && ehlo.lines.some((line) => line.toUpperCase() === "STARTTLS")) {
+            await expect([220], "STARTTLS");
+            reader.detach();
+            socket = await upgrade(socket, options);
+            arm(socket);
+            ehlo = await expect([250], "EHLO localhost");
+        }
+
+        if (options.user) {
+            await expect([334], "AUTH LOGIN");
+            await expect([334], Buffer.from(options.user, "utf8").toString("base64"), "AUTH username");
+            await expect([235], Buffer.from(options.pass || "", "utf8").toString("base64"), "AUTH password");
+        }
+
+        await expect([250], `MAIL FROM:<${message.from}>`);
+        for (const recipient of message.to) {
+            await expect([250, 251], `RCPT TO:<${recipient}>`);
+        }
+        await expect([354], "DATA");
+        await expect([250], `${buildMessage(message)}\r\n.`, "message");
+        await expect([221], "QUIT").catch(() => undefined);
+    } finally {
+        reader.detach();
+        socket.destroy();
+    }
+}
@@ -0,0 +1,207 @@
+/**
+ * Durable storage for context memory
+ * The liquidation-monitor and liquidation-portfolio contexts load and save through the configured
+ * store, so wallets, portfolios, protocol selections, positions, alert state and history survive restarts
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { STORAGE_CONFIG } from "./config.js";
+import { getMemorySchemaVersion, migrateMemory } from "./memory.js";
+
+export type StorageBackendId = typeof STORAGE_CONFIG.backend;
+
+export interface StoredMemory<T = unknown> {
+    id: string; // Context id, e.g. "liquidation-monitor:0xabc..."
+    memory: T;
+}
+
+/**
+ * A storage backend; memories are migrated to their context type's current schema on the way out
+ */
+export interface MonitoringStore {
+    readonly backend: StorageBackendId;
+    load<T>(id: string): Promise<T | null>;
+    save(id: string, memory: unknown): Promise<void>;
+    list<T>(contextType: string): Promise<Array<StoredMemory<T>>>;
+    close(): Promise<void>;
+}
+
+const isContextType = (id: string, contextType: string) => id.startsWith(`${contextType}:`);
+
+interface StoredRecord {
+    schemaVersion: number;
+    updatedAt: number;
+    memory: unknown;
+}
+
+/**
+ * In-process only; the behaviour before persistence existed
+ */
+export function createMemoryStore(): MonitoringStore {
+    const records = new Map<string, unknown>();
+
+    return {
+        backend: "memory",
+        async load<T>(id: string) {
+            return (records.get(id) as T | undefined) ?? null;
+        },
+        async save(id, memory) {
+            records.set(id, memory);
+        },
+        async list<T>(contextType: string) {
+            return [...records]
+                .filter(([id]) => isContextType(id, contextType))
+                .map(([id, memory]) => ({ id, memory: memory as T }));
+        },
+        async close() {},
+    };
+}
+
+/**
+ * All contexts in one JSON file, rewritten atomically (temp file + rename) on every save
+ */
+export function createJsonFileStore(path: string): MonitoringStore {
+    let records: Record<string, StoredRecord> | null = null;
+    // Saves run one at a time so concurrent writers can't interleave
+    let writing: Promise<void> = Promise.resolve();
+
+    const read = async (): Promise<Record<string, StoredRecord>> => {
+        if (records) return records;
+        try {
+            const file = JSON.parse(await readFile(path, "utf8"));
+            records = file.contexts ?? {};
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+            records = {};
+        }
+        return records!;
+    };
+
+    return {
+        backend: "json",
+        async load<T>(id: string) {
+            const record = (await read())[id];
+            return record ? migrateMemory<T>(id, record.memory, record.schemaVersion) : null;
+        },
+        async save(id, memory) {
+            const current = await read();
+            current[id] = { schemaVersion: getMemorySchemaVersion(id), updatedAt: Date.now(), memory: structuredClone(memory) };
+
+            writing = writing.catch(() => undefined).then(async () => {
+                await mkdir(dirname(path), { recursive: true });
+                const temp = `${path}.${process.pid}.tmp`;
+                await writeFile(temp, JSON.stringify({ contexts: current }, null, 2));
+                await rename(temp, path);
+            });
+            await writing;
+        },
+        async list<T>(contextType: string) {
+            return Object.entries(await read())
+                .filter(([id]) => isContextType(id, contextType))
+                .map(([id, record]) => ({ id, memory: migrateMemory<T>(id, record.memory, record.schemaVersion) }));
+        },
+        async close() {
+            await writing.catch(() => undefined);
+        },
+    };
+}
+
+/**
+ * The subset of bun:sqlite / node:sqlite used here; both drivers share it
+ */
+interface SqliteStatement {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+}
+
+interface SqliteDatabase {
+    exec(sql: string): void;
+    prepare(sql: string): SqliteStatement;
+    close(): void;
+}
+
+async function openSqlite(path: string): Promise<SqliteDatabase> {
+    // Specifiers are kept out of the type checker's module resolution: neither module exists on every runtime
+    const bunSqlite: string = "bun:sqlite";
+    const nodeSqlite: string = "node:sqlite";
+
+    if ("Bun" in globalThis) {
+        const { Database } = await import(bunSqlite);
+        return new Database(path, { create: true });
+    }
+    try {
+        const { DatabaseSync } = await import(nodeSqlite);
+        return new DatabaseSync(path);
+    } catch {
+        throw new Error("SQLite storage needs Bun or Node 22.5+; use STORAGE_BACKEND=json instead");
+    }
+}
+
+/**
+ * One row per context, with the memory as JSON and its schema version alongside
+ */
+export async function createSqliteStore(path: string): Promise<MonitoringStore> {
+    await mkdir(dirname(path), { recursive: true });
+    const db = await openSqlite(path);
+
+    db.exec("PRAGMA journal_mode = WAL");
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS monitoring_memory (
+            id TEXT PRIMARY KEY,
+            context_type TEXT NOT NULL,
+            schema_version INTEGER NOT NULL,
+            memory TEXT NOT NULL,
+            updated_at INTEGER NOT NULL
+        )
+    `);
+
+    const selectOne = db.prepare("SELECT schema_version, memory FROM monitoring_memory WHERE id = ?");
+    const selectByType = db.prepare("SELECT id, schema_version, memory FROM monitoring_memory WHERE context_type = ? ORDER BY id");
+    const upsert = db.prepare(`
+        INSERT INTO monitoring_memory (id, context_type, schema_version, memory, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+            schema_version = excluded.schema_version,
+            memory = excluded.memory,
+            updated_at = excluded.updated_at
+    `);
+
+    type Row = { id: string; schema_version: number; memory: string };
+
+    return {
+        backend: "sqlite",
+        async load<T>(id: string) {
+            const row = selectOne.get(id) as Row | null | undefined;
+            return row ? migrateMemory<T>(id, JSON.parse(row.memory), row.schema_version) : null;
+        },
+        async save(id, memory) {
+            upsert.run(id, id.split(":")[0], getMemorySchemaVersion(id), JSON.stringify(memory), Date.now());
+        },
+        async list<T>(contextType: string) {
+            return (selectByType.all(contextType) as Row[])
+                .map((row) => ({ id: row.id, memory: migrateMemory<T>(row.id, JSON.parse(row.memory), row.schema_version) }));
+        },
+        async close() {
+            db.close();
+        },
+    };
+}
+
+let store: Promise<MonitoringStore> | null = null;
+
+/**
+ * The store selected by STORAGE_CONFIG, opened on first use
+ */
+export function getMonitoringStore(): Promise<MonitoringStore> {
+    if (!store) {
+        const { backend, path } = STORAGE_CONFIG;
+        store = backend === "sqlite"
+            ? createSqliteStore(path || ".memory/monitoring.db")
+            : backend === "memory"
+                ? Promise.resolve(createMemoryStore())
+                : Promise.resolve(createJsonFileStore(path || ".memory/monitoring.json"));
+    }
+    return store;
+}
@@ -0,0 +1,222 @@
+/**
+ * Unsigned remediation transactions
+ * Turns a remediation option into the calls that carry it out (ERC-20 approvals, then supply /
+ * repay). Payloads are only encoded here: nothing is signed or sent
+ */
+
+import { encodeFunctionData, formatUnits, getAddress, maxUint256, parseUnits, type Address, type Hex, type PublicClient } from "viem";
+import type { Position } from "../types/memory.js";
+import { getAavePoolAddress } from "./aave.js";
+import { getChainClient } from "./chains.js";
+import { AAVE_POOL_ABI, CURVE_CONTROLLER_ABI, ERC20_ABI } from "./contracts.js";
+import type { RemediationOption, RemediationStep } from "./remediation.js";
+
+const AAVE_VARIABLE_RATE_MODE = 2n;
+
+/**
+ * One call to sign, in execution order
+ */
+export interface UnsignedTransaction {
+    to: Address;
+    value: string; // Wei, as a decimal string
+    data: Hex;
+    description: string;
+}
+
+/**
+ * Thrown when a position's protocol has no transaction builder, or the position lacks what one needs
+ */
+export class UnsupportedRemediationError extends Error {
+    constructor(public readonly positionId: string, reason: string) {
+        super(`Can't build transactions for ${positionId}: ${reason}`);
+        this.name = "UnsupportedRemediationError";
+    }
+}
+
+/**
+ * Encodes the protocol call for one remediation step; approvals are added around it
+ */
+interface RemediationCallBuilder {
+    // Contract that pulls the tokens (and so needs the approval)
+    getSpender(position: Position): Address;
+    encode(position: Position, step: RemediationStep, amount: bigint, beneficiary: Address): UnsignedTransaction;
+    // The protocol's own health factor for the wallet, read through any client (e.g. a fork)
+    readHealthFactor(client: Pick<PublicClient, "readContract">, position: Position, wallet: Address): Promise<number>;
+}
+
+const aaveBuilder: RemediationCallBuilder = {
+    getSpender(position) {
+        const pool = getAavePoolAddress(position.chainId);
+        if (!pool) throw new UnsupportedRemediationError(position.id, `no Aave V3 pool on chain ${position.chainId}`);
+        return pool;
+    },
+    encode(position, step, amount, beneficiary) {
+        const pool = aaveBuilder.getSpender(position);
+        const asset = getAddress(step.address);
+        return step.kind === "add-collateral"
+            ? {
+                to: pool,
+                value: "0",
+                data: encodeFunctionData({ abi: AAVE_POOL_ABI, functionName: "supply", args: [asset, amount, beneficiary, 0] }),
+                description: `Supply ${step.amount} ${step.asset} to Aave V3`,
+            }
+            : {
+                to: pool,
+                value: "0",
+                data: encodeFunctionData({ abi: AAVE_POOL_ABI, functionName: "repay", args: [asset, amount, AAVE_VARIABLE_RATE_MODE, beneficiary] }),
+                description: `Repay ${step.amount} ${step.asset} of variable debt on Aave V3`,
+            };
+    },
+    async readHealthFactor(client, position, wallet) {
+        const [, , , , , healthFactor] = await client.readContract({
+            address: aaveBuilder.getSpender(position),
+            abi: AAVE_POOL_ABI,
+            functionName: "getUserAccountData",
+            args: [wallet],
+        });
+        // The pool reports max uint256 for an account without debt
+        return healthFactor === maxUint256 ? Infinity : Number(formatUnits(healthFactor, 18));
+    },
+};
+
+const curveBuilder: RemediationCallBuilder = {
+    getSpender(position) {
+        if (!position.llamma?.controller) {
+            throw new UnsupportedRemediationError(position.id, "the Curve controller isn't recorded; run discoverPositions again");
+        }
+        return getAddress(position.llamma.controller);
+    },
+    encode(position, step, amount, beneficiary) {
+        const controller = curveBuilder.getSpender(position);
+        return step.kind === "add-collateral"
+            ? {
+                to: controller,
+                value: "0",
+                data: encodeFunctionData({ abi: CURVE_CONTROLLER_ABI, functionName: "add_collateral", args: [amount, beneficiary] }),
+                description: `Add ${step.amount} ${step.asset} collateral to the Curve controller`,
+            }
+            : {
+                to: controller,
+                value: "0",
+                data: encodeFunctionData({ abi: CURVE_CONTROLLER_ABI, functionName: "repay", args: [amount, beneficiary] }),
+                description: `Repay ${step.amount} ${step.asset} to the Curve controller`,
+            };
+    },
+    async readHealthFactor(client, position, wallet) {
+        const health = await client.readContract({
+            address: curveBuilder.getSpender(position),
+            abi: CURVE_CONTROLLER_ABI,
+            functionName: "health",
+            args: [wallet, true],
+        });
+        // Same convention as the Curve adapter: hard liquidation at health 0, i.e. health factor 1
+        return 1 + Number(formatUnits(health, 18));
+    },
+};
+
+const builders: Record<string, RemediationCallBuilder> = {
+    "aave-v3": aaveBuilder,
+    curve: curveBuilder,
+};
+
+export function getTransactionProtocolIds(): string[] {
+    return Object.keys(builders);
+}
+
+function getBuilder(position: Position): RemediationCallBuilder {
+    const builder = builders[position.protocolId];
+    if (!builder) {
+        throw new UnsupportedRemediationError(position.id, `${position.protocolId} isn't supported (supported: ${getTransactionProtocolIds().join(", ")})`);
+    }
+    return builder;
+}
+
+/**
+ * The position's health factor as its protocol reports it, through the given client
+ */
+export async function readProtocolHealthFactor(client: Pick<PublicClient, "readContract">, position: Position, wallet: Address): Promise<number> {
+    return await getBuilder(position).readHealthFactor(client, position, wallet);
+}
+
+/**
+ * Current allowance, or null when it can't be read (the approval is then always included)
+ */
+async function readAllowance(chainId: number, token: Address, owner: Address, spender: Address): Promise<bigint | null> {
+    try {
+        return await getChainClient(chainId).readContract({ address: token, abi: ERC20_ABI, functionName: "allowance", args: [owner, spender] });
+    } catch (error) {
+        console.warn(`[Transactions] Couldn't read ${token} allowance for ${spender}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Approvals and protocol calls for one remediation option, in execution order
+ * The sender pays and the wallet is credited (onBehalfOf / _for). Approvals are exact and skipped
+ * when the sender's current allowance already covers the step, unless checkAllowances is off
+ */
+export async function buildRemediationTransactions(
+    position: Position,
+    option: RemediationOption,
+    wallet: Address,
+    sender: Address = wallet,
+    checkAllowances: boolean = true
+): Promise<UnsignedTransaction[]> {
+    const builder = getBuilder(position);
+    const beneficiary = getAddress(wallet);
+    const spender = builder.getSpender(position);
+    const transactions: UnsignedTransaction[] = [];
+
+    for (const step of option.steps) {
+        if (!step.address) {
+            throw new UnsupportedRemediationError(position.id, `no token address for ${step.asset}`);
+        }
+        const token = getAddress(step.address);
+        const amount = parseUnits(step.amount.toFixed(Math.min(step.decimals, 8)), step.decimals);
+
+        const allowance = checkAllowances ? await readAllowance(position.chainId, token, sender, spender) : null;
+        if (allowance === null || allowance < amount) {
+            transactions.push({
+                to: token,
+                value: "0",
+                data: encodeFunctionData({ abi: ERC20_ABI, functionName: "approve", args: [spender, amount] }),
+                description: `Approve ${step.amount} ${step.asset} for ${spender}`,
+            });
+        }
+
+        transactions.push(builder.encode(position, step, amount, beneficiary));
+    }
+
+    return transactions;
+}
+
+/**
+ * A batch in the Safe{Wallet} Transaction Builder's import format
+ */
+export function toSafeTransactionBatch(
+    chainId: number,
+    safeAddress: Address,
+    name: string,
+    description: string,
+    transactions: UnsignedTransaction[]
+) {
+    return {
+        version: "1.0",
+        chainId: String(chainId),
+        createdAt: Date.now(),
+        meta: {
+            name,
+            description,
+            txBuilderVersion: "1.16.5",
+            createdFromSafeAddress: safeAddress,
+            createdFromOwnerAddress: "",
+        },
+        transactions: transactions.map((tx) => ({
+            to: tx.to,
+            value: tx.value,
+            data: tx.data,
+            contractMethod: null,
+            contractInputsValues: null,
+        })),
+    };
+}
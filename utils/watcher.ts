@@ -0,0 +1,406 @@
+/**
+ * Background watch scheduler
+ * Re-runs discovery and the monitoring checks for every watched wallet on its own timer,
+ * without calling the LLM. A wallet's interval tightens as its smallest buffer approaches
+ * the alert threshold. Between runs, contract events re-check just the positions they affect
+ * (utils/events.ts).
+ */
+
+import type { AnyAgent, ContextState } from "@daydreamsai/core";
+import type { PositionMemory } from "../types/memory.js";
+import { EVENT_WATCH_CONFIG, WATCH_CONFIG } from "./config.js";
+import {
+    getEventWatchStatus,
+    stopAllEventSubscriptions,
+    stopEventSubscriptions,
+    syncEventSubscriptions,
+    type EventTrigger,
+    type EventWatchStatus,
+} from "./events.js";
+import {
+    inScopes,
+    refreshPositions,
+    refreshScopedPositions,
+    runMonitoringChecks,
+    type MonitoringCheckResult,
+    type RefreshScope,
+} from "./monitoring.js";
+import { notifyAlertEvents } from "./notifications.js";
+import { queuePortfolioAlerts } from "./portfolio.js";
+
+// Context type of the per-wallet monitoring contexts (contexts/positionContext.ts)
+const MONITOR_CONTEXT_TYPE = "liquidation-monitor";
+
+/**
+ * Where a watched wallet's memory is loaded from and written back to
+ */
+export interface WatchTarget {
+    wallet: string;
+    source: "context" | "action";
+    load(): Promise<PositionMemory | null>;
+    save(memory: PositionMemory): Promise<void>;
+}
+
+export interface WatchStatus {
+    wallet: string;
+    source: WatchTarget["source"];
+    baseIntervalSeconds: number;
+    currentIntervalSeconds: number; // Base interval after tightening for the latest buffers
+    running: boolean;
+    runs: number;
+    lastRunAt: number | null;
+    nextRunAt: number | null;
+    lastError: string | null;
+    alertThresholdHit: boolean;
+    minBufferPercent: number | null; // Smallest buffer across priced positions in the latest run
+    eventChecks: number; // Re-checks triggered by contract events
+    lastEventCheckAt: number | null;
+    lastEventReasons: string[];
+    events: EventWatchStatus | null; // Log subscriptions (null when event watching is off)
+}
+
+interface WatchEntry {
+    target: WatchTarget;
+    status: WatchStatus;
+    timer: ReturnType<typeof setTimeout> | null;
+}
+
+const watches = new Map<string, WatchEntry>();
+// Wallets stopped explicitly; context sync doesn't pick them up again
+const stoppedWallets = new Set<string>();
+// Wallets with an on-demand check in progress (runExclusiveWalletCheck)
+const onDemandChecks = new Set<string>();
+let contextSyncTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Shorten the base interval as the smallest buffer approaches the alert threshold
+ * Full interval at twice the threshold or more, scaling linearly down to WATCH_CONFIG.minIntervalSeconds
+ */
+export function tightenInterval(baseSeconds: number, minBufferPercent: number | null, threshold: number): number {
+    if (minBufferPercent === null || threshold <= 0) {
+        return baseSeconds;
+    }
+    const ratio = Math.min(1, Math.max(0, minBufferPercent) / (2 * threshold));
+    return Math.max(WATCH_CONFIG.minIntervalSeconds, Math.round(baseSeconds * ratio));
+}
+
+/**
+ * Smallest buffer across priced positions, counting Maker vaults at their next OSM price
+ */
+function getMinBufferPercent(memory: PositionMemory, result: MonitoringCheckResult): number | null {
+    const buffers = memory.positions.flatMap((position, index) => {
+        const nextHealthFactor = position.maker?.nextHealthFactor;
+        return [
+            result.bufferPercents[index],
+            ...(nextHealthFactor != null ? [(nextHealthFactor - 1.0) * 100] : []),
+        ];
+    }).filter((buffer) => Number.isFinite(buffer));
+
+    return buffers.length > 0 ? Math.min(...buffers) : null;
+}
+
+function schedule(key: string, seconds: number): void {
+    const entry = watches.get(key);
+    if (!entry) return;
+
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = setTimeout(() => void runWatch(key), seconds * 1000);
+    entry.timer.unref?.();
+    entry.status.nextRunAt = Date.now() + seconds * 1000;
+}
+
+/**
+ * Discovery, the monitoring pipeline and alert notifications (the wallet's and its portfolios') for one wallet
+ * With scopes, only those protocols / chains are re-fetched and sampled
+ */
+export async function runWalletCheck(memory: PositionMemory, scopes?: RefreshScope[]): Promise<MonitoringCheckResult> {
+    let result: MonitoringCheckResult;
+    if (scopes) {
+        const refreshed = await refreshScopedPositions(memory, scopes);
+        result = runMonitoringChecks(memory, undefined, refreshed.map((position) => position.id));
+    } else {
+        // Positions kept from failed fetches are re-checked but not sampled
+        const { failed } = await refreshPositions(memory);
+        result = runMonitoringChecks(memory, undefined, failed.length > 0
+            ? memory.positions.filter((position) => !inScopes(position, failed)).map((position) => position.id)
+            : undefined);
+    }
+    await notifyAlertEvents(memory, result.alertEvents, result.threshold);
+    queuePortfolioAlerts(memory, result.alertEvents);
+    return result;
+}
+
+/**
+ * Run an on-demand check of a wallet (e.g. from the API) without overlapping its watch runs
+ * Resolves to null while a watch run, event re-check or another on-demand check of the wallet is in progress
+ */
+export async function runExclusiveWalletCheck<T>(wallet: string, check: () => Promise<T>): Promise<T | null> {
+    const key = wallet.toLowerCase();
+    const entry = watches.get(key);
+    if (entry?.status.running || onDemandChecks.has(key)) return null;
+
+    onDemandChecks.add(key);
+    if (entry) entry.status.running = true;
+    try {
+        return await check();
+    } finally {
+        onDemandChecks.delete(key);
+        if (entry) entry.status.running = false;
+        // A timed run that came due meanwhile was skipped
+        const current = watches.get(key);
+        if (current && !current.status.running && current.status.nextRunAt !== null && current.status.nextRunAt <= Date.now()) {
+            schedule(key, current.status.currentIntervalSeconds);
+        }
+    }
+}
+
+function updateStatus(status: WatchStatus, memory: PositionMemory, result: MonitoringCheckResult): void {
+    status.lastError = null;
+    status.alertThresholdHit = result.alertThresholdHit;
+    status.minBufferPercent = getMinBufferPercent(memory, result);
+    status.currentIntervalSeconds = tightenInterval(status.baseIntervalSeconds, status.minBufferPercent, result.threshold);
+}
+
+/**
+ * Subscribe to the events of the wallet's current positions
+ */
+async function syncEvents(key: string, memory: PositionMemory): Promise<void> {
+    if (!EVENT_WATCH_CONFIG.enabled) return;
+    try {
+        await syncEventSubscriptions(key, memory, (trigger) => runEventCheck(key, trigger));
+    } catch (error) {
+        console.error(`[Watch] Error subscribing to events for ${memory.wallet}:`, error);
+    }
+}
+
+/**
+ * Re-check the scopes an event affects; false while a timed run is in progress (the trigger is retried)
+ * The timed schedule is only brought forward, never pushed back
+ */
+async function runEventCheck(key: string, trigger: EventTrigger): Promise<boolean> {
+    const entry = watches.get(key);
+    if (!entry) return true;
+    if (entry.status.running || onDemandChecks.has(key)) return false;
+
+    const { status, target } = entry;
+    status.running = true;
+
+    try {
+        const memory = await target.load();
+        if (!memory || !memory.wallet || memory.protocolIds.length === 0) return true;
+
+        const result = await runWalletCheck(memory, trigger.scopes);
+        await target.save(memory);
+
+        status.eventChecks += 1;
+        status.lastEventCheckAt = Date.now();
+        status.lastEventReasons = trigger.reasons.slice(0, 10);
+        updateStatus(status, memory, result);
+
+        const scopes = trigger.scopes.map((scope) => `${scope.protocolId}@${scope.chainId}`).join(", ");
+        console.log(`[Watch] ${status.wallet}: re-checked ${scopes} after ${trigger.reasons.length} event(s)${result.alertThresholdHit ? " ⚠️ alert threshold hit" : ""}`);
+
+        await syncEvents(key, memory);
+    } catch (error) {
+        status.lastError = error instanceof Error ? error.message : String(error);
+        console.error(`[Watch] Error re-checking ${status.wallet} after events:`, error);
+    } finally {
+        status.running = false;
+        if (watches.get(key) === entry && (!status.nextRunAt || status.nextRunAt > Date.now() + status.currentIntervalSeconds * 1000)) {
+            schedule(key, status.currentIntervalSeconds);
+        }
+    }
+    return true;
+}
+
+/**
+ * One deterministic check for a watched wallet
+ */
+async function runWatch(key: string): Promise<void> {
+    const entry = watches.get(key);
+    if (!entry || entry.status.running || onDemandChecks.has(key)) return;
+
+    const { status, target } = entry;
+    status.running = true;
+    status.nextRunAt = null;
+
+    try {
+        const memory = await target.load();
+        if (!memory || !memory.wallet || memory.protocolIds.length === 0 || memory.watch?.enabled === false) {
+            console.log(`[Watch] ${status.wallet} is no longer configured for watching, stopping`);
+            stopWatching(status.wallet, false);
+            return;
+        }
+
+        status.baseIntervalSeconds = memory.watch?.intervalSeconds ?? WATCH_CONFIG.intervalSeconds;
+
+        const result = await runWalletCheck(memory);
+        await target.save(memory);
+
+        status.runs += 1;
+        status.lastRunAt = Date.now();
+        updateStatus(status, memory, result);
+
+        const buffer = status.minBufferPercent !== null ? `${status.minBufferPercent.toFixed(2)}%` : "n/a";
+        if (result.alertThresholdHit) {
+            console.warn(`[Watch] ⚠️ ${status.wallet}: alert threshold hit (min buffer ${buffer}, threshold ${result.threshold}%), next check in ${status.currentIntervalSeconds}s`);
+        } else {
+            console.log(`[Watch] ${status.wallet}: ${memory.positions.length} position(s), min buffer ${buffer}, next check in ${status.currentIntervalSeconds}s`);
+        }
+
+        await syncEvents(key, memory);
+    } catch (error) {
+        status.lastError = error instanceof Error ? error.message : String(error);
+        console.error(`[Watch] Error checking ${status.wallet}:`, error);
+    } finally {
+        status.running = false;
+        schedule(key, status.currentIntervalSeconds);
+    }
+}
+
+/**
+ * Start watching a wallet, or update the interval of one already watched
+ * The first check runs immediately
+ */
+export function startWatching(target: WatchTarget, intervalSeconds: number = WATCH_CONFIG.intervalSeconds): WatchStatus {
+    const key = target.wallet.toLowerCase();
+    stoppedWallets.delete(key);
+
+    const existing = watches.get(key);
+    if (existing) {
+        existing.status.baseIntervalSeconds = intervalSeconds;
+        existing.status.currentIntervalSeconds = intervalSeconds;
+        if (!existing.status.running) schedule(key, 0);
+        return { ...existing.status };
+    }
+
+    const entry: WatchEntry = {
+        target,
+        timer: null,
+        status: {
+            wallet: target.wallet,
+            source: target.source,
+            baseIntervalSeconds: intervalSeconds,
+            currentIntervalSeconds: intervalSeconds,
+            running: false,
+            runs: 0,
+            lastRunAt: null,
+            nextRunAt: null,
+            lastError: null,
+            alertThresholdHit: false,
+            minBufferPercent: null,
+            eventChecks: 0,
+            lastEventCheckAt: null,
+            lastEventReasons: [],
+            events: null,
+        },
+    };
+    watches.set(key, entry);
+    schedule(key, 0);
+
+    console.log(`[Watch] Watching ${target.wallet} every ${intervalSeconds}s (${target.source})`);
+    return { ...entry.status };
+}
+
+/**
+ * Stop watching a wallet
+ * Explicitly stopped wallets are skipped by the context sync until started again
+ */
+export function stopWatching(wallet: string, explicit = true): boolean {
+    const key = wallet.toLowerCase();
+    if (explicit) stoppedWallets.add(key);
+
+    const entry = watches.get(key);
+    if (!entry) return false;
+
+    if (entry.timer) clearTimeout(entry.timer);
+    watches.delete(key);
+    stopEventSubscriptions(key);
+    console.log(`[Watch] Stopped watching ${entry.status.wallet}`);
+    return true;
+}
+
+/**
+ * Status of every watched wallet, or of one wallet
+ */
+export function getWatchStatus(wallet?: string): WatchStatus[] {
+    return [...watches.values()]
+        .filter((entry) => !wallet || entry.status.wallet.toLowerCase() === wallet.toLowerCase())
+        .map((entry) => ({ ...entry.status, events: getEventWatchStatus(entry.status.wallet) }));
+}
+
+/**
+ * Watch target backed by a context: reloaded on every run so the scheduler sees the latest
+ * memory and configuration, and written back through the context's own save
+ */
+export function createContextWatchTarget(agent: AnyAgent, contextId: string, wallet: string, source: WatchTarget["source"]): WatchTarget {
+    let current: ContextState | null = null;
+    return {
+        wallet,
+        source,
+        async load() {
+            current = await agent.getContextById(contextId);
+            return (current?.memory as PositionMemory | undefined) ?? null;
+        },
+        async save() {
+            if (current) await agent.saveContext(current);
+        },
+    };
+}
+
+/**
+ * Watch every active liquidation-monitor context with a configured wallet
+ */
+async function syncContexts(agent: AnyAgent): Promise<void> {
+    const contexts = await agent.getContexts();
+
+    for (const { id, type } of contexts) {
+        if (type !== MONITOR_CONTEXT_TYPE) continue;
+
+        const state = await agent.getContextById(id);
+        const memory = state?.memory as PositionMemory | undefined;
+        if (!memory?.wallet || memory.protocolIds.length === 0 || memory.watch?.enabled === false) continue;
+
+        const key = memory.wallet.toLowerCase();
+        if (watches.has(key) || stoppedWallets.has(key)) continue;
+
+        startWatching(createContextWatchTarget(agent, id, memory.wallet, "context"), memory.watch?.intervalSeconds ?? WATCH_CONFIG.intervalSeconds);
+    }
+}
+
+/**
+ * Pick up newly configured contexts now instead of at the next periodic sync
+ * Does nothing while the scheduler is stopped
+ */
+export async function syncWatchedContexts(agent: AnyAgent): Promise<void> {
+    if (!contextSyncTimer) return;
+    await syncContexts(agent);
+}
+
+/**
+ * Start the scheduler: watch active contexts now and pick up new ones every WATCH_CONFIG.contextSyncSeconds
+ */
+export function startWatchScheduler(agent: AnyAgent): void {
+    if (contextSyncTimer) return;
+
+    const sync = () => syncContexts(agent).catch((error) => console.error("[Watch] Error syncing contexts:", error));
+    void sync();
+    contextSyncTimer = setInterval(sync, WATCH_CONFIG.contextSyncSeconds * 1000);
+    contextSyncTimer.unref?.();
+
+    console.log(`[Watch] Scheduler started (context sync every ${WATCH_CONFIG.contextSyncSeconds}s)`);
+}
+
+/**
+ * Stop the scheduler and every watch
+ */
+export function stopWatchScheduler(): void {
+    if (contextSyncTimer) clearInterval(contextSyncTimer);
+    contextSyncTimer = null;
+
+    for (const entry of watches.values()) {
+        if (entry.timer) clearTimeout(entry.timer);
+    }
+    watches.clear();
+    stopAllEventSubscriptions();
+}